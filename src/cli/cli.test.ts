@@ -2,19 +2,41 @@
 // Basic integration tests for command-line execution
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { runCompetition } from './index';
+import {
+  listProviders,
+  main,
+  runCompetition,
+  rescoreCompetition,
+  resumeCompetition,
+  showChanges,
+  showLeaderboard,
+} from './index';
+import { DEFAULT_SCORING_RULES } from 'competition/game/scoring-rules';
+import { DEFAULT_GAME_RUNNER_CONFIG } from 'competition/game-runner';
+import { createRoleAssignment } from 'competition/roles/create-role-assignment';
 import { existsSync } from 'fs';
+import { unlink } from 'fs/promises';
 import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('CLI', () => {
   let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let dbPath: string;
 
   beforeEach(async () => {
     consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    dbPath = join(tmpdir(), `cli-test-${Date.now()}-${Math.random()}.duckdb`);
+    process.env.ARENA_DB_PATH = dbPath;
   });
 
   afterEach(async () => {
     consoleSpy.mockRestore();
+    delete process.env.ARENA_DB_PATH;
+    try {
+      await unlink(dbPath);
+    } catch {
+      // Database file might not have been created
+    }
   });
 
   describe('runCompetition', () => {
@@ -48,6 +70,40 @@ describe('CLI', () => {
       expect(consoleSpy).toHaveBeenCalledWith('\n🏆 Final Results:');
     });
 
+    it('should persist the competition to the configured event store', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 1);
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringMatching(
+          new RegExp(`🆔 Competition: comp-\\d+ \\(events stored in ${dbPath}\\)`)
+        )
+      );
+      expect(existsSync(dbPath)).toBe(true);
+    });
+
+    it('should report the role schedule before the first round', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 2);
+
+      expect(consoleSpy).toHaveBeenCalledWith('\n🗓️  Role schedule (round-robin):');
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '  Round 2: baseline mock-provider-2, bug injection mock-provider-3, fix mock-provider-1'
+      );
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Roles are not evenly distributed')
+      );
+    });
+
+    it('should print the seed of a random role schedule so it can be rerun', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 1, {
+        ...DEFAULT_GAME_RUNNER_CONFIG,
+        roleAssignment: createRoleAssignment('random'),
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringMatching(/^\n🗓️ {2}Role schedule \(random, seed \d+\):$/)
+      );
+    });
+
     it('should display competition results', async () => {
       await runCompetition();
 
@@ -67,7 +123,7 @@ describe('CLI', () => {
 
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         '💥 Unexpected error:',
-        'Unknown provider: unknown-provider. Available providers: mock-provider, claude-code'
+        'Unknown provider: unknown-provider. Available providers: mock-provider, claude-code, openai-compatible, command'
       );
 
       mockExit.mockRestore();
@@ -87,6 +143,111 @@ describe('CLI', () => {
     });
   });
 
+  describe('listProviders', () => {
+    it('should print every registered provider with its aliases', () => {
+      listProviders();
+
+      expect(consoleSpy).toHaveBeenCalledWith('🤖 Available providers:');
+      expect(consoleSpy).toHaveBeenCalledWith(
+        '  mock-provider (alias: mock) - Simulated provider for testing and development'
+      );
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/^ {2}command - /));
+    });
+  });
+
+  describe('showLeaderboard', () => {
+    it('should print the leaderboard from the configured event store', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 1);
+      consoleSpy.mockClear();
+
+      await showLeaderboard();
+
+      expect(consoleSpy).toHaveBeenCalledWith(`🏅 Leaderboard (${dbPath}):`);
+      // Mock providers only ever play themselves, which does not count as a rated match
+      expect(consoleSpy).toHaveBeenCalledWith('No rated matches yet');
+    });
+  });
+
+  describe('showChanges', () => {
+    it('should print the diff of each bug and fix of a stored competition', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 1);
+      const competitionLine = consoleSpy.mock.calls
+        .map(call => String(call[0]))
+        .find(line => line.startsWith('🆔 Competition:'));
+      const competitionId = competitionLine?.match(/comp-\d+/)?.[0] ?? '';
+      consoleSpy.mockClear();
+
+      await showChanges(competitionId);
+
+      expect(consoleSpy).toHaveBeenCalledWith(`🔍 Bugs and fixes in ${competitionId}:`);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('=== Round 1: Bug injected by mock-provider-2 (accepted)')
+      );
+    });
+  });
+
+  describe('rescoreCompetition', () => {
+    it('should recompute the scores of a stored competition under other rules', async () => {
+      await runCompetition(['mock-provider', 'mock-provider', 'mock-provider'], 1);
+      const competitionLine = consoleSpy.mock.calls
+        .map(call => String(call[0]))
+        .find(line => line.startsWith('🆔 Competition:'));
+      const competitionId = competitionLine?.match(/comp-\d+/)?.[0] ?? '';
+      consoleSpy.mockClear();
+
+      await rescoreCompetition(competitionId, {
+        ...DEFAULT_SCORING_RULES,
+        name: 'generous',
+        firstFix: 100,
+      });
+
+      expect(consoleSpy).toHaveBeenCalledWith(`🧮 Scores of ${competitionId} under generous:`);
+      const summary = JSON.parse(String(consoleSpy.mock.calls[1]?.[0]));
+      expect(summary.totalRounds).toBe(1);
+      expect(summary.participantScores[0]).toMatchObject({
+        participantId: 'mock-provider-3',
+        score: 100,
+      });
+    });
+  });
+
+  describe('resumeCompetition', () => {
+    it('should refuse to resume a competition that was never started', async () => {
+      const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(resumeCompetition('comp-missing')).rejects.toThrow('process.exit');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '💥 Cannot resume:',
+        'No COMPETITION_STARTED event found for this competition'
+      );
+
+      mockExit.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should reject an invalid concurrency before resuming', async () => {
+      const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const argv = process.argv;
+      process.argv = ['node', 'cli', '--resume=comp-1', '--concurrency=0'];
+
+      await expect(main()).rejects.toThrow('process.exit');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Invalid concurrency: 0. Use a positive number');
+      expect(consoleSpy).not.toHaveBeenCalledWith(expect.stringContaining('Resuming'));
+
+      process.argv = argv;
+      mockExit.mockRestore();
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
   describe('workspace cleanup', () => {
     it('should clean up temporary workspace directory after competition completes', async () => {
       let workspacePath: string | null = null;
@@ -5,35 +5,129 @@
 import { config } from 'dotenv';
 config();
 
-import { GameRunner } from 'competition/game-runner';
-import { MockProvider } from 'providers/mock-provider/mock-provider';
-import { ClaudeCodeProvider } from 'providers/claude-code-provider/claude-code-provider';
+import {
+  GameRunner,
+  GameEvent,
+  GameRunnerConfig,
+  DEFAULT_GAME_RUNNER_CONFIG,
+} from 'competition/game-runner';
+import { RoundMode } from 'competition/game/game-state';
+import { Game } from 'competition/game/game';
+import { ScoringRules } from 'competition/game/scoring-rules';
+import { GameSummary } from 'competition/game/game-summary';
+import { RoleSchedule } from 'competition/roles/role-assignment-strategy';
+import {
+  ROLE_ASSIGNMENT_STRATEGIES,
+  RoleAssignmentName,
+  createRoleAssignment,
+} from 'competition/roles/create-role-assignment';
 import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import { createDefaultProviderRegistry } from 'providers/builtin-providers';
 import { ParticipantId } from 'domain/competition-event/participant-id';
+import { CompetitionId } from 'domain/competition-event/competition-id';
 import { WorkspaceService } from 'competition/services/workspace-service';
+import { loadScoringRules } from 'competition/services/scoring-rules-loader';
+import { loadChallengeSpecs } from 'competition/services/challenge-spec-loader';
+import { EventStore } from 'infrastructure/event-store/event-store';
+import { ResultsFormatter } from 'results/formatter';
+import { RecordedCompetition } from 'competition/recorded-competition';
+import { getNamedWorkspacePath } from 'infrastructure/workspace/workspace';
+import {
+  DEFAULT_SANDBOX_CONFIG,
+  SandboxConfig,
+} from 'infrastructure/contract-validator/sandboxed-make-executor';
+import { MakeLimits } from 'infrastructure/contract-validator/make-executor';
+import {
+  DependencyCacheConfig,
+  DependencyEcosystem,
+  findMissingCacheDirectories,
+  getCachedEcosystems,
+} from 'infrastructure/workspace/dependency-cache';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
 
-function createProvider(providerName: string): LLMProvider {
-  switch (providerName) {
-    case 'mock-provider':
-    case 'mock':
-      return new MockProvider();
-    case 'claude-code':
-    case 'claude':
-      return new ClaudeCodeProvider();
-    default:
-      throw new Error(
-        `Unknown provider: ${providerName}. Available providers: mock-provider, claude-code`
-      );
+const DEFAULT_DATABASE_PATH = 'arena.duckdb';
+
+const DEPENDENCY_CACHE_FLAGS: Record<string, DependencyEcosystem> = {
+  '--npm-cache=': 'npm',
+  '--pip-wheelhouse=': 'pip',
+  '--go-mod-cache=': 'go',
+};
+
+const providerRegistry = createDefaultProviderRegistry();
+
+// A provider spec is a registered name or alias, optionally followed by ':argument'
+async function createProvider(providerSpec: string): Promise<LLMProvider> {
+  const separator = providerSpec.indexOf(':');
+  const name = separator === -1 ? providerSpec : providerSpec.slice(0, separator);
+  const providerResult = await providerRegistry.create(
+    name,
+    separator === -1 ? {} : { argument: providerSpec.slice(separator + 1) }
+  );
+  if (providerResult.isErr()) {
+    throw providerResult.error;
+  }
+  return providerResult.value;
+}
+
+// Providers are recreated from the config they recorded; an external command's file may be gone
+// and its recorded name is the agent's own rather than the 'command' registration
+async function createRecordedProvider(
+  providerName: string,
+  config: Readonly<Record<string, unknown>> | undefined
+): Promise<LLMProvider> {
+  const registrationName = config && 'command' in config ? 'command' : providerName;
+  const providerResult = await providerRegistry.create(registrationName, config ?? {});
+  if (providerResult.isErr()) {
+    throw providerResult.error;
+  }
+  return providerResult.value;
+}
+
+export async function loadProviderPlugins(source: string): Promise<void> {
+  const pluginsResult = await providerRegistry.loadPlugins(source);
+  if (pluginsResult.isErr()) {
+    console.error(`💥 ${pluginsResult.error.message}`);
+    process.exit(1);
+  }
+}
+
+export function listProviders(): void {
+  console.log('🤖 Available providers:');
+  for (const { name, aliases, description } of providerRegistry.list()) {
+    const aliasText = aliases.length > 0 ? ` (alias: ${aliases.join(', ')})` : '';
+    console.log(`  ${name}${aliasText} - ${description}`);
   }
 }
 
 export async function runCompetition(
   providerNames: string[] = ['mock-provider', 'mock-provider', 'mock-provider'],
-  rounds: number = 3
+  rounds: number = 3,
+  config: GameRunnerConfig = DEFAULT_GAME_RUNNER_CONFIG
 ): Promise<void> {
   console.log('🏁 Starting AI Coding Arena Competition...');
   console.log(`🤖 Providers: ${providerNames.join(', ')}`);
   console.log(`🔄 Rounds: ${rounds}`);
+  if (config.roundMode !== DEFAULT_GAME_RUNNER_CONFIG.roundMode) {
+    console.log(`🐛 Round mode: ${config.roundMode}`);
+  }
+  if (config.scoringRules !== DEFAULT_GAME_RUNNER_CONFIG.scoringRules) {
+    console.log(`🎯 Scoring rules: ${config.scoringRules.name}`);
+  }
+  if (config.validationRuns > 1) {
+    console.log(`🔁 Validation runs per phase: ${config.validationRuns}`);
+  }
+  if (config.sandbox) {
+    console.log(`📦 Sandbox: ${config.sandbox.runtime} (${config.sandbox.image})`);
+  }
+  if (config.dependencyCache) {
+    console.log(
+      `📚 Offline dependencies: ${getCachedEcosystems(config.dependencyCache).join(', ')}`
+    );
+  }
+  if (config.challenges.length > 0) {
+    console.log(`🧩 Challenges: ${config.challenges.map(challenge => challenge.name).join(', ')}`);
+  }
 
   if (providerNames.length < 3) {
     console.error(
@@ -42,17 +136,30 @@ export async function runCompetition(
     process.exit(1);
   }
 
+  const { eventStore, databasePath } = await openEventStore();
+
+  const competitionId = new CompetitionId(`comp-${Date.now()}`);
+  console.log(`🆔 Competition: ${competitionId.getValue()} (events stored in ${databasePath})`);
+
   const workspaceService = new WorkspaceService();
+  const workspaceName = `competition-${competitionId.getValue()}`;
 
-  const result = await workspaceService.withWorkspace(
-    'competition',
+  const result = await workspaceService.withRetainedWorkspace(
+    workspaceName,
     async (workspaceDir: string) => {
       console.log(`📁 Workspace: ${workspaceDir}`);
 
-      const providers = providerNames.map(name => createProvider(name));
+      const providers = await Promise.all(providerNames.map(name => createProvider(name)));
       const participantMap = createParticipantMap(providers);
-      const runner = new GameRunner(participantMap, workspaceDir);
+      const runner = new GameRunner(
+        participantMap,
+        workspaceDir,
+        eventStore,
+        competitionId,
+        config
+      );
 
+      logSchedule(runner.planSchedule(rounds));
       setupEventLogging(runner);
       const finalSummary = await runner.start(rounds);
 
@@ -63,10 +170,177 @@ export async function runCompetition(
     }
   );
 
+  await eventStore.close();
+
+  if (result.isErr()) {
+    console.error('💥 Unexpected error:', result.error.message);
+    logResumeHint(competitionId, getNamedWorkspacePath(workspaceName));
+    process.exit(1);
+  }
+}
+
+export async function resumeCompetition(
+  competitionIdValue: string,
+  maxConcurrency: number = DEFAULT_GAME_RUNNER_CONFIG.maxConcurrency
+): Promise<void> {
+  console.log(`⏩ Resuming competition ${competitionIdValue}...`);
+
+  const { eventStore } = await openEventStore();
+  const competitionId = new CompetitionId(competitionIdValue);
+  const eventsResult = await eventStore.getEventsByCompetition(competitionId);
+  if (eventsResult.isErr()) {
+    await eventStore.close();
+    console.error('💥 Failed to read competition events:', eventsResult.error.message);
+    process.exit(1);
+  }
+
+  let recorded: RecordedCompetition;
+  try {
+    recorded = RecordedCompetition.fromEvents(eventsResult.value);
+  } catch (error) {
+    await eventStore.close();
+    console.error('💥 Cannot resume:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Later phases build on the retained output of earlier ones, so it has to still be there
+  const workspaceName = `competition-${competitionIdValue}`;
+  if (
+    recorded.workspaceDir !== getNamedWorkspacePath(workspaceName) ||
+    !existsSync(recorded.workspaceDir)
+  ) {
+    await eventStore.close();
+    console.error(`💥 Cannot resume: workspace ${recorded.workspaceDir} no longer exists`);
+    process.exit(1);
+  }
+
+  console.log(`🔄 Continuing from round ${recorded.getNextRound()} of ${recorded.totalRounds}`);
+  console.log(`📁 Workspace: ${recorded.workspaceDir}`);
+
+  const result = await new WorkspaceService().withRetainedWorkspace(
+    workspaceName,
+    async (workspaceDir: string) => {
+      const participantMap = new Map<ParticipantId, LLMProvider>(
+        await Promise.all(
+          recorded.participants.map(
+            async ({ participantId, provider, config }) =>
+              [
+                ParticipantId.fromString(participantId),
+                await createRecordedProvider(provider, config),
+              ] as const
+          )
+        )
+      );
+      const runner = new GameRunner(participantMap, workspaceDir, eventStore, competitionId, {
+        ...DEFAULT_GAME_RUNNER_CONFIG,
+        roundMode: recorded.roundMode,
+        scoringRules: recorded.scoringRules,
+        sandbox: recorded.sandbox,
+        validationRuns: recorded.validationRuns,
+        makeLimits: recorded.makeLimits,
+        dependencyCache: recorded.dependencyCache,
+        challenges: recorded.challenges,
+        maxConcurrency,
+      });
+
+      setupEventLogging(runner);
+      const finalSummary = await runner.resume(recorded);
+
+      console.log('\n🏆 Final Results:');
+      console.log(JSON.stringify(finalSummary, null, 2));
+
+      return finalSummary;
+    }
+  );
+
+  await eventStore.close();
+
   if (result.isErr()) {
     console.error('💥 Unexpected error:', result.error.message);
+    logResumeHint(competitionId, recorded.workspaceDir);
+    process.exit(1);
+  }
+}
+
+async function openEventStore(): Promise<{ eventStore: EventStore; databasePath: string }> {
+  const databasePath = process.env.ARENA_DB_PATH || DEFAULT_DATABASE_PATH;
+  const eventStore = new EventStore(databasePath);
+  const initResult = await eventStore.initialize();
+  if (initResult.isErr()) {
+    console.error('💥 Failed to open event store:', initResult.error.message);
+    process.exit(1);
+  }
+  return { eventStore, databasePath };
+}
+
+function logResumeHint(competitionId: CompetitionId, workspaceDir: string): void {
+  if (existsSync(workspaceDir)) {
+    console.error(`💾 Workspace kept at ${workspaceDir}`);
+    console.error(`   Resume with: npm run cli --resume=${competitionId.getValue()}`);
+  }
+}
+
+export async function showLeaderboard(): Promise<void> {
+  const { eventStore, databasePath } = await openEventStore();
+
+  const formatter = new ResultsFormatter(eventStore);
+  const leaderboardResult = await formatter.formatLeaderboard();
+  await eventStore.close();
+
+  if (leaderboardResult.isErr()) {
+    console.error('💥 Failed to build leaderboard:', leaderboardResult.error.message);
     process.exit(1);
   }
+
+  console.log(`🏅 Leaderboard (${databasePath}):`);
+  console.log(formatter.formatLeaderboardAsText(leaderboardResult.value));
+}
+
+export async function showChanges(competitionIdValue: string): Promise<void> {
+  const { eventStore } = await openEventStore();
+
+  const formatter = new ResultsFormatter(eventStore);
+  const changesResult = await formatter.formatCompetitionChanges(
+    new CompetitionId(competitionIdValue)
+  );
+  await eventStore.close();
+
+  if (changesResult.isErr()) {
+    console.error('💥 Failed to read competition changes:', changesResult.error.message);
+    process.exit(1);
+  }
+
+  console.log(`🔍 Bugs and fixes in ${competitionIdValue}:`);
+  console.log(formatter.formatChangesAsText(changesResult.value));
+}
+
+// Recomputes the scores of a stored competition from its events, under the rules it was played
+// with unless others are given
+export async function rescoreCompetition(
+  competitionIdValue: string,
+  scoringRules?: ScoringRules
+): Promise<void> {
+  const { eventStore } = await openEventStore();
+  const eventsResult = await eventStore.getEventsByCompetition(
+    new CompetitionId(competitionIdValue)
+  );
+  await eventStore.close();
+  if (eventsResult.isErr()) {
+    console.error('💥 Failed to read competition events:', eventsResult.error.message);
+    process.exit(1);
+  }
+
+  let summary: GameSummary;
+  try {
+    const rules = scoringRules ?? RecordedCompetition.fromEvents(eventsResult.value).scoringRules;
+    summary = Game.fromEvents(eventsResult.value, rules).getFinalSummary();
+  } catch (error) {
+    console.error('💥 Cannot rescore:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  console.log(`🧮 Scores of ${competitionIdValue} under ${summary.scoringRules.name}:`);
+  console.log(JSON.stringify(summary, null, 2));
 }
 
 function createParticipantMap(providers: LLMProvider[]): Map<ParticipantId, LLMProvider> {
@@ -78,11 +352,30 @@ function createParticipantMap(providers: LLMProvider[]): Map<ParticipantId, LLMP
   return participantMap;
 }
 
+function logSchedule(schedule: RoleSchedule): void {
+  const seed = schedule.seed !== undefined ? `, seed ${schedule.seed}` : '';
+  console.log(`\n🗓️  Role schedule (${schedule.strategy}${seed}):`);
+  for (const { round, order } of schedule.rounds) {
+    const [baselineAuthor, bugInjector, fixer] = order.map(p => p.getValue());
+    console.log(
+      `  Round ${round}: baseline ${baselineAuthor}, bug injection ${bugInjector}, fix ${fixer}`
+    );
+  }
+  if (!schedule.balanced) {
+    console.log(
+      '  ⚠️  Roles are not evenly distributed; use a multiple of the rotation length for rounds'
+    );
+  }
+}
+
 function setupEventLogging(runner: GameRunner): void {
   runner.onEvent(event => {
     switch (event.type) {
       case 'round-started': {
         console.log(`\n🔄 Round ${event.round} started - Baseline author: ${event.baselineAuthor}`);
+        if (event.challenge) {
+          console.log(`  🧩 Challenge: ${event.challenge}`);
+        }
         break;
       }
       case 'baseline-attempt': {
@@ -91,6 +384,7 @@ function setupEventLogging(runner: GameRunner): void {
         if (event.workspacePath) {
           console.log(`    📁 Workspace: ${event.workspacePath}`);
         }
+        logValidation(event);
         break;
       }
       case 'bug-injection-attempt': {
@@ -99,14 +393,18 @@ function setupEventLogging(runner: GameRunner): void {
         if (event.workspacePath) {
           console.log(`    📁 Workspace: ${event.workspacePath}`);
         }
+        logValidation(event);
         break;
       }
       case 'fix-attempt': {
         const fixStatus = event.success ? '✅' : '❌';
-        console.log(`  ${fixStatus} Fix attempt: ${event.participant} - ${event.message}`);
+        console.log(
+          `  ${fixStatus} Fix attempt: ${event.participant} on bug by ${event.bugAuthor} - ${event.message}`
+        );
         if (event.workspacePath) {
           console.log(`    📁 Workspace: ${event.workspacePath}`);
         }
+        logValidation(event);
         break;
       }
       case 'round-finished': {
@@ -122,17 +420,186 @@ function setupEventLogging(runner: GameRunner): void {
   });
 }
 
+function logValidation(event: GameEvent): void {
+  const validation = event.validation as { success: boolean; message: string } | undefined;
+  if (validation && !validation.success) {
+    console.log(`    🔍 Validation: ${validation.message}`);
+  }
+}
+
+// Parses 'setup=900,test=120,default=60' (seconds) on top of the given limits
+function parseMakeTimeouts(spec: string, limits: MakeLimits): MakeLimits | null {
+  const timeoutsMs: Record<string, number> = { ...limits.timeoutsMs };
+  let defaultTimeoutMs = limits.defaultTimeoutMs;
+  for (const entry of spec.split(',')) {
+    const [target, seconds] = entry.split('=');
+    const timeoutMs = Number(seconds) * 1000;
+    if (!target || !(timeoutMs > 0)) {
+      return null;
+    }
+    if (target === 'default') {
+      defaultTimeoutMs = timeoutMs;
+    } else {
+      timeoutsMs[target] = timeoutMs;
+    }
+  }
+  return { ...limits, timeoutsMs, defaultTimeoutMs };
+}
+
+// Shared by new and resumed competitions, exiting when '--concurrency=' is not a positive number
+function parseConcurrency(arg: string): number {
+  const value = arg.split('=')[1] as string;
+  const maxConcurrency = parseInt(value, 10);
+  if (!(maxConcurrency >= 1)) {
+    console.error(`Invalid concurrency: ${value}. Use a positive number`);
+    process.exit(1);
+  }
+  return maxConcurrency;
+}
+
 export async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
+  // Plugins come first so their providers can be listed, resumed and raced
+  for (const arg of args.filter(arg => arg.startsWith('--plugins='))) {
+    await loadProviderPlugins(arg.slice('--plugins='.length));
+  }
+
+  if (args.includes('--list-providers')) {
+    listProviders();
+    return;
+  }
+
+  if (args.includes('--leaderboard')) {
+    await showLeaderboard();
+    return;
+  }
+
+  const changesArg = args.find(arg => arg.startsWith('--changes='));
+  if (changesArg) {
+    await showChanges(changesArg.slice('--changes='.length));
+    return;
+  }
+
+  const rescoreArg = args.find(arg => arg.startsWith('--rescore='));
+  if (rescoreArg) {
+    const scoringArg = args.find(arg => arg.startsWith('--scoring='));
+    let scoringRules: ScoringRules | undefined;
+    if (scoringArg) {
+      const rulesResult = await loadScoringRules(scoringArg.slice('--scoring='.length));
+      if (rulesResult.isErr()) {
+        console.error(rulesResult.error.message);
+        process.exit(1);
+      }
+      scoringRules = rulesResult.value;
+    }
+    await rescoreCompetition(rescoreArg.slice('--rescore='.length), scoringRules);
+    return;
+  }
+
+  const resumeArg = args.find(arg => arg.startsWith('--resume='));
+  if (resumeArg) {
+    const concurrencyArg = args.find(arg => arg.startsWith('--concurrency='));
+    const maxConcurrency = concurrencyArg
+      ? parseConcurrency(concurrencyArg)
+      : DEFAULT_GAME_RUNNER_CONFIG.maxConcurrency;
+    await resumeCompetition(resumeArg.slice('--resume='.length), maxConcurrency);
+    return;
+  }
+
   let providerNames: string[] = [];
   let rounds = 3;
+  let roundMode: RoundMode = DEFAULT_GAME_RUNNER_CONFIG.roundMode;
+  let roleAssignment: RoleAssignmentName = 'round-robin';
+  let seed: number | undefined;
+  let maxConcurrency = DEFAULT_GAME_RUNNER_CONFIG.maxConcurrency;
+  let scoringRules = DEFAULT_GAME_RUNNER_CONFIG.scoringRules;
+  let sandboxRuntime: SandboxConfig['runtime'] | undefined;
+  let sandboxImage = DEFAULT_SANDBOX_CONFIG.image;
+  let validationRuns = DEFAULT_GAME_RUNNER_CONFIG.validationRuns;
+  let makeLimits = DEFAULT_GAME_RUNNER_CONFIG.makeLimits;
+  let dependencyCache: DependencyCacheConfig | null = null;
+  let challenges = DEFAULT_GAME_RUNNER_CONFIG.challenges;
 
-  // Parse arguments for providers and rounds
+  // Parse arguments for providers, rounds, round mode and role assignment
   for (let i = 0; i < args.length; i++) {
     const arg = args[i] as string;
-    if (arg.startsWith('--rounds=')) {
+    const cacheFlag = Object.keys(DEPENDENCY_CACHE_FLAGS).find(flag => arg.startsWith(flag));
+    if (arg.startsWith('--plugins=')) {
+      continue;
+    } else if (cacheFlag) {
+      // make runs inside each workspace, so the cache has to be found from anywhere
+      dependencyCache = {
+        ...(dependencyCache ?? {}),
+        [DEPENDENCY_CACHE_FLAGS[cacheFlag] as DependencyEcosystem]: resolve(
+          arg.slice(cacheFlag.length)
+        ),
+      };
+    } else if (arg.startsWith('--rounds=')) {
       rounds = parseInt(arg.split('=')[1] as string, 10) || 3;
+    } else if (arg.startsWith('--round-mode=')) {
+      const mode = arg.split('=')[1];
+      if (mode !== 'single-bug' && mode !== 'multi-bug') {
+        console.error(`Unknown round mode: ${mode}. Available modes: single-bug, multi-bug`);
+        process.exit(1);
+      }
+      roundMode = mode as RoundMode;
+    } else if (arg.startsWith('--roles=')) {
+      const strategy = arg.split('=')[1] as RoleAssignmentName;
+      if (!ROLE_ASSIGNMENT_STRATEGIES.includes(strategy)) {
+        console.error(
+          `Unknown role assignment: ${strategy}. Available strategies: ${ROLE_ASSIGNMENT_STRATEGIES.join(', ')}`
+        );
+        process.exit(1);
+      }
+      roleAssignment = strategy;
+    } else if (arg.startsWith('--concurrency=')) {
+      maxConcurrency = parseConcurrency(arg);
+    } else if (arg.startsWith('--scoring=')) {
+      const rulesResult = await loadScoringRules(arg.slice('--scoring='.length));
+      if (rulesResult.isErr()) {
+        console.error(rulesResult.error.message);
+        process.exit(1);
+      }
+      scoringRules = rulesResult.value;
+    } else if (arg.startsWith('--challenges=')) {
+      const challengesResult = await loadChallengeSpecs(arg.slice('--challenges='.length));
+      if (challengesResult.isErr()) {
+        console.error(challengesResult.error.message);
+        process.exit(1);
+      }
+      challenges = challengesResult.value;
+    } else if (arg.startsWith('--validation-runs=')) {
+      validationRuns = parseInt(arg.split('=')[1] as string, 10);
+      if (!(validationRuns >= 1)) {
+        console.error(`Invalid validation runs: ${arg.split('=')[1]}. Use a positive number`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--make-timeouts=')) {
+      const spec = arg.slice('--make-timeouts='.length);
+      const limits = parseMakeTimeouts(spec, makeLimits);
+      if (!limits) {
+        console.error(
+          `Invalid make timeouts: ${spec}. Use target=seconds pairs, e.g. setup=900,test=120,default=60`
+        );
+        process.exit(1);
+      }
+      makeLimits = limits;
+    } else if (arg.startsWith('--sandbox=')) {
+      const runtime = arg.split('=')[1];
+      if (runtime !== 'docker' && runtime !== 'podman') {
+        console.error(`Unknown sandbox runtime: ${runtime}. Available runtimes: docker, podman`);
+        process.exit(1);
+      }
+      sandboxRuntime = runtime;
+    } else if (arg.startsWith('--sandbox-image=')) {
+      sandboxImage = arg.slice('--sandbox-image='.length);
+    } else if (arg.startsWith('--seed=')) {
+      seed = parseInt(arg.split('=')[1] as string, 10);
+      if (Number.isNaN(seed)) {
+        console.error(`Invalid seed: ${arg.split('=')[1]}`);
+        process.exit(1);
+      }
     } else {
       providerNames.push(arg);
     }
@@ -143,17 +610,58 @@ export async function main(): Promise<void> {
   }
 
   if (providerNames.length < 3) {
-    console.error('Usage: npm run cli [provider1] [provider2] [provider3] ... [--rounds=N]');
     console.error(
-      'Providers: mock-provider, claude-code (minimum 3 required for competitive gameplay)'
+      'Usage: npm run cli [provider1] [provider2] [provider3] ... [--rounds=N] [--round-mode=single-bug|multi-bug] [--roles=round-robin|latin-square|random] [--seed=N] [--concurrency=N] [--scoring=rules.json] [--challenges=challenges.json] [--validation-runs=N] [--make-timeouts=TARGET=SECONDS,...] [--sandbox=docker|podman] [--sandbox-image=IMAGE] [--npm-cache=DIR] [--pip-wheelhouse=DIR] [--go-mod-cache=DIR] [--plugins=DIR|PACKAGE]'
+    );
+    console.error('       npm run cli --list-providers  (registered providers and their aliases)');
+    console.error('       npm run cli --leaderboard  (Elo ratings from all stored competitions)');
+    console.error('       npm run cli --resume=<competitionId>  (continue an interrupted run)');
+    console.error('       npm run cli --changes=<competitionId>  (diff of every bug and fix)');
+    console.error(
+      '       npm run cli --rescore=<competitionId> [--scoring=rules.json]  (recompute the scores)'
+    );
+    console.error(
+      `Providers: ${providerRegistry
+        .list()
+        .map(({ name }) => name)
+        .join(', ')} (minimum 3 required for competitive gameplay)`
     );
     console.error('Examples:');
     console.error('  npm run cli mock-provider mock-provider claude-code');
     console.error('  npm run cli mock-provider claude-code mock-provider --rounds=5');
+    console.error(
+      '  npm run cli mock-provider mock-provider mock-provider claude-code --round-mode=multi-bug'
+    );
+    console.error(
+      '  npm run cli mock-provider mock-provider mock-provider --roles=random --seed=42'
+    );
+    console.error('  npm run cli claude-code claude-code claude-code --sandbox=docker');
+    console.error('  npm run cli command:agents/aider.json claude-code mock-provider');
     process.exit(1);
   }
 
-  await runCompetition(providerNames, rounds);
+  if (dependencyCache) {
+    const missing = await findMissingCacheDirectories(dependencyCache);
+    if (missing.length > 0) {
+      console.error(`Dependency cache directories not found: ${missing.join(', ')}`);
+      process.exit(1);
+    }
+  }
+
+  await runCompetition(providerNames, rounds, {
+    ...DEFAULT_GAME_RUNNER_CONFIG,
+    roundMode,
+    roleAssignment: createRoleAssignment(roleAssignment, seed),
+    maxConcurrency,
+    scoringRules,
+    validationRuns,
+    makeLimits,
+    dependencyCache,
+    challenges,
+    sandbox: sandboxRuntime
+      ? { ...DEFAULT_SANDBOX_CONFIG, runtime: sandboxRuntime, image: sandboxImage }
+      : null,
+  });
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -0,0 +1,124 @@
+// ABOUTME: Tests for loading challenge specs and checking baselines against them
+// Covers malformed specs, round rotation and each check a built baseline is held to
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rm, writeFile } from 'fs/promises';
+import { getRoundChallenge } from 'domain/competition-prompts/challenge-spec';
+import { checkChallenge } from 'infrastructure/contract-validator/challenge-validator';
+import { ToolchainProfile } from 'infrastructure/workspace/toolchain-detector';
+import { loadChallengeSpecs, parseChallengeSpecs } from './services/challenge-spec-loader';
+
+describe('Challenge Spec Loader', () => {
+  const challengesPath = join(tmpdir(), `challenges-test-${Date.now()}.json`);
+
+  afterEach(async () => {
+    await rm(challengesPath, { force: true });
+  });
+
+  it('should load a list of challenges and name the unnamed ones', async () => {
+    await writeFile(
+      challengesPath,
+      JSON.stringify([
+        { name: 'go-api', language: 'Go', domain: 'a REST API', requiredTargets: ['lint'] },
+        { language: 'Python', maxSourceLines: 300, features: ['a CLI'] },
+      ])
+    );
+
+    const result = await loadChallengeSpecs(challengesPath);
+
+    expect(result._unsafeUnwrap()).toEqual([
+      {
+        name: 'go-api',
+        language: 'Go',
+        domain: 'a REST API',
+        features: [],
+        requiredTargets: ['lint'],
+      },
+      {
+        name: 'challenge-2',
+        language: 'Python',
+        maxSourceLines: 300,
+        features: ['a CLI'],
+        requiredTargets: [],
+      },
+    ]);
+  });
+
+  it('should reject unknown keys, bad limits and unknown targets', () => {
+    expect(parseChallengeSpecs({ lang: 'Go' })._unsafeUnwrapErr().message).toBe(
+      'Unknown challenge key "lang"'
+    );
+    expect(parseChallengeSpecs({ maxSourceLines: 0 })._unsafeUnwrapErr().message).toBe(
+      'Challenge "maxSourceLines" must be a positive integer'
+    );
+    expect(parseChallengeSpecs({ requiredTargets: ['deploy'] })._unsafeUnwrapErr().message).toBe(
+      'Unknown required target "deploy". Available targets: build, lint, coverage'
+    );
+    expect(parseChallengeSpecs([])._unsafeUnwrapErr().message).toBe(
+      'Challenges must list at least one challenge'
+    );
+  });
+
+  it('should play the challenges in turn, one per round', () => {
+    const challenges = parseChallengeSpecs([{ name: 'a' }, { name: 'b' }])._unsafeUnwrap();
+
+    expect([1, 2, 3].map(round => getRoundChallenge(challenges, round)?.name)).toEqual([
+      'a',
+      'b',
+      'a',
+    ]);
+    expect(getRoundChallenge([], 1)).toBeUndefined();
+  });
+});
+
+describe('checkChallenge', () => {
+  const toolchain: ToolchainProfile = {
+    language: 'Python',
+    framework: null,
+    testRunner: 'pytest',
+    manifests: ['pyproject.toml'],
+    sourceLines: 420,
+    testLines: 180,
+    linesByLanguage: { Python: 600 },
+  };
+
+  it('should accept a baseline that meets every constraint', () => {
+    const check = checkChallenge(
+      {
+        name: 'python',
+        language: 'python',
+        maxSourceLines: 500,
+        features: [],
+        requiredTargets: ['lint'],
+      },
+      toolchain,
+      { targets: [{ target: 'lint', success: true, message: 'ok' }], score: 0.33 }
+    );
+
+    expect(check).toEqual({ name: 'python', success: true, violations: [] });
+  });
+
+  it('should list every constraint a baseline misses', () => {
+    const check = checkChallenge(
+      {
+        name: 'small-go',
+        language: 'Go',
+        maxSourceLines: 400,
+        features: [],
+        requiredTargets: ['build', 'lint'],
+      },
+      toolchain,
+      { targets: [{ target: 'lint', success: false, message: 'failed' }], score: 0 }
+    );
+
+    expect(check.success).toBe(false);
+    expect(check.violations).toEqual([
+      'expected Go, but the project is written in Python',
+      '420 source lines exceed the limit of 400',
+      "'make build' is required but not defined",
+      "'make lint' is required but failed",
+    ]);
+  });
+});
@@ -2,12 +2,23 @@
 // Tests cover behavior-driven game runner with event emission and actual provider interactions
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { GameRunner, GameEvent } from './game-runner';
+import { GameRunner, GameEvent, DEFAULT_GAME_RUNNER_CONFIG } from './game-runner';
+import { LatinSquareAssignment } from './roles/latin-square-assignment';
+import { SeededRandomAssignment } from './roles/seeded-random-assignment';
+import { RecordedCompetition } from './recorded-competition';
+import { Game } from './game/game';
+import { DEFAULT_SCORING_RULES } from './game/scoring-rules';
 import { ParticipantId } from 'domain/competition-event/participant-id';
+import { CompetitionId } from 'domain/competition-event/competition-id';
+import { EventType } from 'domain/competition-event/event-type';
+import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import { EventStore } from 'infrastructure/event-store/event-store';
 import { MockProvider } from 'providers/mock-provider/mock-provider';
+import { ResultsFormatter } from 'results/formatter';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { mkdir, rm, writeFile } from 'fs/promises';
+import { cp, mkdir, readFile, rm, unlink, writeFile } from 'fs/promises';
+import { setTimeout } from 'timers';
 
 describe('GameRunner', () => {
   let gameRunner: GameRunner;
@@ -15,6 +26,12 @@ describe('GameRunner', () => {
   let participantB: ParticipantId;
   let participantC: ParticipantId;
   let testWorkspaceDir: string;
+  let eventStore: EventStore;
+  let competitionId: CompetitionId;
+  let dbPath: string;
+
+  const createGameRunner = (providers: Map<ParticipantId, LLMProvider>) =>
+    new GameRunner(providers, testWorkspaceDir, eventStore, competitionId);
 
   beforeEach(async () => {
     participantA = ParticipantId.fromString('blazing-bulldozer');
@@ -25,6 +42,11 @@ describe('GameRunner', () => {
     testWorkspaceDir = join(tmpdir(), `game-runner-test-${Date.now()}`);
     await mkdir(testWorkspaceDir, { recursive: true });
 
+    dbPath = join(tmpdir(), `game-runner-test-${Date.now()}-${Math.random()}.db`);
+    eventStore = new EventStore(dbPath);
+    await eventStore.initialize();
+    competitionId = new CompetitionId(`game-runner-test-${Date.now()}`);
+
     // Create provider configurations for different participants
     const providers = new Map([
       [participantA, new MockProvider()],
@@ -32,11 +54,17 @@ describe('GameRunner', () => {
       [participantC, new MockProvider()],
     ]);
 
-    gameRunner = new GameRunner(providers, testWorkspaceDir);
+    gameRunner = createGameRunner(providers);
   });
 
   afterEach(async () => {
     await rm(testWorkspaceDir, { recursive: true, force: true });
+    await eventStore.close();
+    try {
+      await unlink(dbPath);
+    } catch {
+      // Database file might already be deleted
+    }
   });
 
   describe('Single Round Game Simulation', () => {
@@ -60,6 +88,7 @@ describe('GameRunner', () => {
           message: expect.stringContaining('Mock baseline created successfully'),
           timestamp: expect.any(Date),
           workspacePath: expect.stringContaining('blazing-bulldozer'),
+          validation: expect.objectContaining({ success: true }),
         },
         {
           type: 'bug-injection-attempt',
@@ -68,6 +97,7 @@ describe('GameRunner', () => {
           message: expect.stringContaining('Mock bug injected successfully'),
           timestamp: expect.any(Date),
           workspacePath: expect.stringContaining('radical-rampage'),
+          validation: expect.objectContaining({ success: true }),
         },
         {
           type: 'fix-attempt',
@@ -76,6 +106,8 @@ describe('GameRunner', () => {
           message: expect.stringContaining('Mock fix applied successfully'),
           timestamp: expect.any(Date),
           workspacePath: expect.stringContaining('turbo-terror'),
+          validation: expect.objectContaining({ success: true }),
+          bugAuthor: participantB.getValue(),
         },
         {
           type: 'round-finished',
@@ -133,7 +165,7 @@ describe('GameRunner', () => {
         [participantC, new MockProvider()],
       ]);
 
-      const failingGameRunner = new GameRunner(providers, testWorkspaceDir);
+      const failingGameRunner = createGameRunner(providers);
       const events: GameEvent[] = [];
       failingGameRunner.onEvent(event => events.push(event));
 
@@ -153,6 +185,474 @@ describe('GameRunner', () => {
       expect(events.some(e => e.type === 'bug-injection-attempt')).toBe(false);
       expect(events.some(e => e.type === 'fix-attempt')).toBe(false);
     });
+
+    it('should reject a baseline the provider reports as successful when the contract fails', async () => {
+      const lyingProvider = new MockProvider();
+      lyingProvider.createCodingExercise = async (workspaceDir: string) => {
+        await writeFile(join(workspaceDir, 'Makefile'), 'setup:\n\techo "ready"\ntest:\n\texit 1');
+        return { success: true, message: 'Baseline created' };
+      };
+
+      const providers = new Map([
+        [participantA, lyingProvider],
+        [participantB, new MockProvider()],
+        [participantC, new MockProvider()],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      const summary = await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'baseline-attempt')).toMatchObject({
+        success: false,
+        message: 'Baseline created',
+        validation: {
+          success: false,
+          message: expect.stringContaining("'make test' failed"),
+        },
+      });
+      expect(events.some(e => e.type === 'bug-injection-attempt')).toBe(false);
+      expect(
+        summary.participantScores.find(s => s.participantId === participantA.getValue())?.score
+      ).toBe(-1);
+    });
+
+    it('should reject a bug injection that leaves the tests passing', async () => {
+      const lyingProvider = new MockProvider();
+      lyingProvider.injectBug = async (baselineDir: string, workspaceDir: string) => {
+        await cp(baselineDir, workspaceDir, { recursive: true });
+        return { success: true, message: 'Bug injected' };
+      };
+
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, lyingProvider],
+        [participantC, new MockProvider()],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'bug-injection-attempt')).toMatchObject({
+        success: false,
+        validation: {
+          success: false,
+          message: 'Expected tests to fail after bug injection, but they passed',
+          stdout: expect.stringContaining('All tests passed'),
+        },
+      });
+      expect(events.some(e => e.type === 'fix-attempt')).toBe(false);
+    });
+
+    it('should accept a fix the provider reports as failed when the tests pass', async () => {
+      const modestProvider = new MockProvider();
+      const originalFixAttempt = modestProvider.fixAttempt.bind(modestProvider);
+      modestProvider.fixAttempt = async (
+        buggyDir: string,
+        workspaceDir: string,
+        prompt: string
+      ) => {
+        await originalFixAttempt(buggyDir, workspaceDir, prompt);
+        return { success: false, message: 'Not sure the fix worked' };
+      };
+
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, modestProvider],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'fix-attempt')).toMatchObject({
+        success: true,
+        message: 'Not sure the fix worked',
+        validation: { success: true },
+      });
+    });
+
+    it('should reject a bug injection that breaks the Makefile test target', async () => {
+      const cheatingProvider = new MockProvider();
+      cheatingProvider.injectBug = async (baselineDir: string, workspaceDir: string) => {
+        await cp(baselineDir, workspaceDir, { recursive: true });
+        await writeFile(join(workspaceDir, 'Makefile'), 'setup:\n\techo "ready"\ntest:\n\texit 1');
+        return { success: true, message: 'Bug injected' };
+      };
+
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, cheatingProvider],
+        [participantC, new MockProvider()],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'bug-injection-attempt')).toMatchObject({
+        success: false,
+        validation: { success: false, failureReason: 'test-target-modified' },
+      });
+      expect(events.some(e => e.type === 'fix-attempt')).toBe(false);
+
+      const [bugEvent] = (
+        await eventStore.getEventsByType(EventType.BUG_INJECTION_COMPLETED)
+      )._unsafeUnwrap();
+      expect(bugEvent?.isSuccess()).toBe(false);
+      expect(bugEvent?.getData()).toMatchObject({
+        failureReason: 'test-target-modified',
+        validation: {
+          changes: [{ path: 'Makefile', kind: 'modified', category: 'build-contract' }],
+        },
+      });
+    });
+
+    it('should reject a fix that edits the tests even when they pass', async () => {
+      const cheatingProvider = new MockProvider();
+      cheatingProvider.fixAttempt = async (buggyDir: string, workspaceDir: string) => {
+        await cp(buggyDir, workspaceDir, { recursive: true });
+        await writeFile(join(workspaceDir, 'calculator.test.ts'), '// no tests left');
+        return { success: true, message: 'Fixed' };
+      };
+
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, cheatingProvider],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      const summary = await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'fix-attempt')).toMatchObject({
+        success: false,
+        validation: {
+          success: false,
+          failureReason: 'tests-modified',
+          message: expect.stringContaining('calculator.test.ts'),
+        },
+      });
+      expect(
+        summary.participantScores.find(s => s.participantId === participantC.getValue())?.score
+      ).toBe(0);
+    });
+
+    it('should reject a fix whose Makefile variables stop the tests from running', async () => {
+      const cheatingProvider = new MockProvider();
+      cheatingProvider.fixAttempt = async (buggyDir: string, workspaceDir: string) => {
+        await cp(buggyDir, workspaceDir, { recursive: true });
+        // Leaves the test target alone but makes every recipe succeed without running
+        const makefile = await readFile(join(workspaceDir, 'Makefile'), 'utf-8');
+        await writeFile(join(workspaceDir, 'Makefile'), `SHELL := /bin/true\n${makefile}`);
+        return { success: true, message: 'Fixed' };
+      };
+
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, cheatingProvider],
+      ]);
+
+      const verifyingGameRunner = createGameRunner(providers);
+      const events: GameEvent[] = [];
+      verifyingGameRunner.onEvent(event => events.push(event));
+
+      await verifyingGameRunner.start(1);
+
+      expect(events.find(e => e.type === 'fix-attempt')).toMatchObject({
+        success: false,
+        validation: { success: false, failureReason: 'test-target-modified' },
+      });
+    });
+
+    it('should validate every phase the configured number of times', async () => {
+      const repeatingGameRunner = new GameRunner(
+        new Map([
+          [participantA, new MockProvider()],
+          [participantB, new MockProvider()],
+          [participantC, new MockProvider()],
+        ]),
+        testWorkspaceDir,
+        eventStore,
+        competitionId,
+        { ...DEFAULT_GAME_RUNNER_CONFIG, validationRuns: 2 }
+      );
+
+      await repeatingGameRunner.start(1);
+
+      const events = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+      const completed = events.filter(e =>
+        [
+          EventType.BASELINE_COMPLETED,
+          EventType.BUG_INJECTION_COMPLETED,
+          EventType.FIX_ATTEMPT_COMPLETED,
+        ].includes(e.getEventType())
+      );
+      expect(completed.map(e => [e.isSuccess(), e.getData().validation])).toEqual([
+        [true, expect.objectContaining({ runs: { total: 2, passed: 2 } })],
+        [true, expect.objectContaining({ runs: { total: 2, passed: 2 } })],
+        [true, expect.objectContaining({ runs: { total: 2, passed: 2 } })],
+      ]);
+      expect(
+        events.find(e => e.getEventType() === EventType.COMPETITION_STARTED)?.getData()
+      ).toMatchObject({ validationRuns: 2 });
+    });
+
+    it('should record both test suites for an honest fix', async () => {
+      await gameRunner.start(1);
+
+      const [fixEvent] = (
+        await eventStore.getEventsByType(EventType.FIX_ATTEMPT_COMPLETED)
+      )._unsafeUnwrap();
+
+      expect(fixEvent?.isSuccess()).toBe(true);
+      expect(fixEvent?.getData().validation).toMatchObject({
+        success: true,
+        message: 'Original baseline tests pass',
+        ownTests: { success: true },
+        originalTests: { success: true },
+      });
+    });
+
+    it('should score the quality of an accepted baseline and award it under the rules', async () => {
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, new MockProvider()],
+      ]);
+      gameRunner = new GameRunner(providers, testWorkspaceDir, eventStore, competitionId, {
+        ...DEFAULT_GAME_RUNNER_CONFIG,
+        scoringRules: { ...DEFAULT_SCORING_RULES, baselineQuality: 3 },
+      });
+
+      const summary = await gameRunner.start(1);
+
+      const [baselineEvent] = (
+        await eventStore.getEventsByType(EventType.BASELINE_COMPLETED)
+      )._unsafeUnwrap();
+      // The mock baseline defines lint and coverage targets but no build target
+      expect(baselineEvent?.getData().validation).toMatchObject({
+        quality: {
+          targets: [
+            { target: 'lint', success: true },
+            { target: 'coverage', success: true },
+          ],
+          coverage: 100,
+          score: 0.67,
+        },
+      });
+      const baselineScore = summary.participantScores.find(
+        s => s.participantId === participantA.getValue()
+      )?.score;
+      expect(baselineScore).toBe(2.01);
+    });
+  });
+
+  describe('Time Limits', () => {
+    it("should state each participant's own phase timeout in its prompt", async () => {
+      const prompts = new Map<string, string>();
+      const patient = Object.assign(new MockProvider(), {
+        phaseTimeouts: {
+          baselineTimeoutMs: 450000,
+          bugInjectionTimeoutMs: 300000,
+          fixAttemptTimeoutMs: 600000,
+        },
+      });
+      const createCodingExercise = patient.createCodingExercise.bind(patient);
+      patient.createCodingExercise = async (workspaceDir: string, prompt: string) => {
+        prompts.set('baseline', prompt);
+        return createCodingExercise(workspaceDir, prompt);
+      };
+      const injector = new MockProvider();
+      const injectBug = injector.injectBug.bind(injector);
+      injector.injectBug = async (baselineDir: string, workspaceDir: string, prompt: string) => {
+        prompts.set('bug-injection', prompt);
+        return injectBug(baselineDir, workspaceDir, prompt);
+      };
+
+      await createGameRunner(
+        new Map<ParticipantId, LLMProvider>([
+          [participantA, patient],
+          [participantB, injector],
+          [participantC, new MockProvider()],
+        ])
+      ).start(1);
+
+      expect(prompts.get('baseline')).toContain('You have exactly 7 minutes 30 seconds');
+      expect(prompts.get('baseline')).toContain('not completed within 7 minutes 30 seconds.');
+      // Providers without their own timeouts are held to the runner's fixed limit
+      expect(prompts.get('bug-injection')).toContain('You have exactly 3 minutes');
+    });
+  });
+
+  describe('Offline Dependencies', () => {
+    it('should tell the baseline author which ecosystems are cached for offline installs', async () => {
+      const prompts = new Map<string, string>();
+      const recordingProvider = (participant: ParticipantId) => {
+        const provider = new MockProvider();
+        const createCodingExercise = provider.createCodingExercise.bind(provider);
+        provider.createCodingExercise = async (workspaceDir: string, prompt: string) => {
+          prompts.set(participant.getValue(), prompt);
+          return createCodingExercise(workspaceDir, prompt);
+        };
+        const injectBug = provider.injectBug.bind(provider);
+        provider.injectBug = async (baselineDir: string, workspaceDir: string, prompt: string) => {
+          prompts.set(participant.getValue(), prompt);
+          return injectBug(baselineDir, workspaceDir, prompt);
+        };
+        return provider;
+      };
+      const providers = new Map(
+        [participantA, participantB, participantC].map(p => [p, recordingProvider(p)])
+      );
+      gameRunner = new GameRunner(providers, testWorkspaceDir, eventStore, competitionId, {
+        ...DEFAULT_GAME_RUNNER_CONFIG,
+        dependencyCache: { npm: testWorkspaceDir },
+      });
+
+      const summary = await gameRunner.start(1);
+
+      expect(prompts.get(participantA.getValue())).toContain('**OFFLINE:**');
+      expect(prompts.get(participantA.getValue())).toContain('- npm (Node.js packages');
+      expect(prompts.get(participantB.getValue())).not.toContain('**OFFLINE:**');
+      expect(summary.totalRounds).toBe(1);
+      const [startEvent] = (
+        await eventStore.getEventsByType(EventType.COMPETITION_STARTED)
+      )._unsafeUnwrap();
+      expect(startEvent?.getData()).toMatchObject({
+        dependencyCache: { npm: testWorkspaceDir },
+      });
+    });
+  });
+
+  describe('Provider Config', () => {
+    it('should record the config of each provider that has one with its participant', async () => {
+      const configured = Object.assign(new MockProvider(), { config: { model: 'local' } });
+      gameRunner = createGameRunner(
+        new Map<ParticipantId, LLMProvider>([
+          [participantA, configured],
+          [participantB, new MockProvider()],
+          [participantC, new MockProvider()],
+        ])
+      );
+
+      await gameRunner.start(1);
+
+      const events = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+      expect(RecordedCompetition.fromEvents(events).participants).toEqual([
+        {
+          participantId: participantA.getValue(),
+          provider: 'mock-provider',
+          config: { model: 'local' },
+        },
+        { participantId: participantB.getValue(), provider: 'mock-provider' },
+        { participantId: participantC.getValue(), provider: 'mock-provider' },
+      ]);
+    });
+
+    it('should record why a provider says it failed with the phase', async () => {
+      const givingUp = new MockProvider();
+      givingUp.createCodingExercise = async () => ({
+        success: false,
+        message: 'stopped at the limit of 30 turns',
+        failureReason: 'max-turns' as const,
+      });
+      gameRunner = createGameRunner(
+        new Map<ParticipantId, LLMProvider>([
+          [participantA, givingUp],
+          [participantB, new MockProvider()],
+          [participantC, new MockProvider()],
+        ])
+      );
+
+      await gameRunner.start(1);
+
+      const events = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+      const baseline = events.find(event => event.getEventType() === EventType.BASELINE_COMPLETED);
+      expect(baseline?.getData()).toMatchObject({
+        providerSuccess: false,
+        providerFailureReason: 'max-turns',
+        message: 'stopped at the limit of 30 turns',
+      });
+    });
+  });
+
+  describe('Challenges', () => {
+    it('should constrain each round baseline to its challenge and reject one that misses it', async () => {
+      const prompts: string[] = [];
+      const providers = new Map(
+        [participantA, participantB, participantC].map(participant => {
+          const provider = new MockProvider();
+          const createCodingExercise = provider.createCodingExercise.bind(provider);
+          provider.createCodingExercise = async (workspaceDir: string, prompt: string) => {
+            prompts.push(prompt);
+            return createCodingExercise(workspaceDir, prompt);
+          };
+          return [participant, provider];
+        })
+      );
+      const challenges = [
+        {
+          name: 'typescript-library',
+          language: 'TypeScript',
+          domain: 'a small arithmetic library',
+          features: ['division by zero errors'],
+          requiredTargets: ['lint'],
+        },
+        { name: 'python-cli', language: 'Python', features: [], requiredTargets: [] },
+      ];
+      gameRunner = new GameRunner(providers, testWorkspaceDir, eventStore, competitionId, {
+        ...DEFAULT_GAME_RUNNER_CONFIG,
+        challenges,
+      });
+
+      await gameRunner.start(2);
+
+      expect(prompts[0]).toContain('- Write the project in TypeScript');
+      expect(prompts[0]).toContain('- Implement division by zero errors');
+      expect(prompts[0]).toContain('**CHALLENGE (typescript-library):**');
+      expect(prompts[0]).not.toContain('Choose any programming language');
+      expect(prompts[1]).toContain('- Write the project in Python');
+
+      const baselines = (
+        await eventStore.getEventsByType(EventType.BASELINE_COMPLETED)
+      )._unsafeUnwrap();
+      expect(baselines.map(event => event.isSuccess())).toEqual([true, false]);
+      expect(baselines[0]?.getData().validation).toMatchObject({
+        challenge: { name: 'typescript-library', success: true, violations: [] },
+      });
+      expect(baselines[1]?.getData()).toMatchObject({
+        failureReason: 'challenge-not-met',
+        validation: {
+          message:
+            "Challenge 'python-cli' not met: expected Python, but the project is written in TypeScript",
+        },
+      });
+
+      const roundStarts = (
+        await eventStore.getEventsByType(EventType.ROUND_STARTED)
+      )._unsafeUnwrap();
+      expect(roundStarts.map(event => event.getData().challenge)).toEqual([
+        'typescript-library',
+        'python-cli',
+      ]);
+      const events = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+      expect(RecordedCompetition.fromEvents(events).challenges).toEqual(challenges);
+    });
   });
 
   describe('Multi-Round Simulation', () => {
@@ -177,6 +677,377 @@ describe('GameRunner', () => {
     });
   });
 
+  describe('Role Assignment', () => {
+    it('should give every participant every role once per rotation by default', async () => {
+      const events: GameEvent[] = [];
+      gameRunner.onEvent(event => events.push(event));
+
+      await gameRunner.start(3);
+
+      const bugInjectors = events
+        .filter(e => e.type === 'bug-injection-attempt')
+        .map(e => e.participant);
+      const fixers = events.filter(e => e.type === 'fix-attempt').map(e => e.participant);
+      expect(bugInjectors).toEqual([
+        participantB.getValue(),
+        participantC.getValue(),
+        participantA.getValue(),
+      ]);
+      expect(fixers).toEqual([
+        participantC.getValue(),
+        participantA.getValue(),
+        participantB.getValue(),
+      ]);
+    });
+
+    it('should follow the configured strategy and record the schedule up front', async () => {
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, new MockProvider()],
+      ]);
+      const latinSquareRunner = new GameRunner(
+        providers,
+        testWorkspaceDir,
+        eventStore,
+        competitionId,
+        { ...DEFAULT_GAME_RUNNER_CONFIG, roleAssignment: new LatinSquareAssignment() }
+      );
+
+      const schedule = latinSquareRunner.planSchedule(6);
+      expect(schedule.strategy).toBe('latin-square');
+      expect(schedule.balanced).toBe(true);
+
+      const events: GameEvent[] = [];
+      latinSquareRunner.onEvent(event => events.push(event));
+      await latinSquareRunner.start(6);
+
+      const baselineAuthors = events
+        .filter(e => e.type === 'round-started')
+        .map(e => e.baselineAuthor);
+      expect(baselineAuthors).toEqual(schedule.rounds.map(r => r.order[0]?.getValue()));
+
+      const startedResult = await eventStore.getEventsByType(EventType.COMPETITION_STARTED);
+      const [started] = startedResult._unsafeUnwrap();
+      expect(started?.getData()).toMatchObject({
+        roleAssignment: {
+          strategy: 'latin-square',
+          balanced: true,
+          roleCounts: {
+            [participantA.getValue()]: { baseline: 2, bugInjection: 2, fixAttempt: 2 },
+          },
+        },
+      });
+    });
+
+    it('should record the seed of a random schedule with the competition', async () => {
+      const randomRunner = new GameRunner(
+        new Map([
+          [participantA, new MockProvider()],
+          [participantB, new MockProvider()],
+          [participantC, new MockProvider()],
+        ]),
+        testWorkspaceDir,
+        eventStore,
+        competitionId,
+        { ...DEFAULT_GAME_RUNNER_CONFIG, roleAssignment: new SeededRandomAssignment(1234) }
+      );
+
+      await randomRunner.start(1);
+
+      const [started] = (
+        await eventStore.getEventsByType(EventType.COMPETITION_STARTED)
+      )._unsafeUnwrap();
+      expect(started?.getData()).toMatchObject({
+        roleAssignment: { strategy: 'random', seed: 1234 },
+      });
+    });
+  });
+
+  describe('Multi-Bug Rounds', () => {
+    it('should let every non-author inject a bug and every other eligible participant fix it', async () => {
+      const participantD = ParticipantId.fromString('mighty-mayhem');
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, new MockProvider()],
+        [participantD, new MockProvider()],
+      ]);
+      const multiBugRunner = new GameRunner(
+        providers,
+        testWorkspaceDir,
+        eventStore,
+        competitionId,
+        { ...DEFAULT_GAME_RUNNER_CONFIG, roundMode: 'multi-bug', maxConcurrency: 1 }
+      );
+      const events: GameEvent[] = [];
+      multiBugRunner.onEvent(event => events.push(event));
+
+      const summary = await multiBugRunner.start(1);
+
+      const bugEvents = events.filter(e => e.type === 'bug-injection-attempt');
+      expect(bugEvents.map(e => e.participant)).toEqual([
+        participantB.getValue(),
+        participantC.getValue(),
+        participantD.getValue(),
+      ]);
+
+      const fixEvents = events.filter(e => e.type === 'fix-attempt');
+      expect(fixEvents.map(e => [e.bugAuthor, e.participant])).toEqual([
+        [participantB.getValue(), participantC.getValue()],
+        [participantB.getValue(), participantD.getValue()],
+        [participantC.getValue(), participantB.getValue()],
+        [participantC.getValue(), participantD.getValue()],
+        [participantD.getValue(), participantB.getValue()],
+        [participantD.getValue(), participantC.getValue()],
+      ]);
+      expect(fixEvents.every(e => e.success)).toBe(true);
+      expect(new Set(fixEvents.map(e => e.workspacePath)).size).toBe(6);
+
+      // The first fixer of each bug scores; later successful fixers do not
+      const scores = Object.fromEntries(summary.participantScores.map(s => [s.participantId, s]));
+      expect(scores[participantB.getValue()]?.score).toBe(2);
+      expect(scores[participantC.getValue()]?.score).toBe(1);
+      expect(scores[participantD.getValue()]?.score).toBe(0);
+      expect(scores[participantB.getValue()]?.details.bugsInjected).toBe(1);
+    });
+
+    it('should run fix attempts concurrently and credit the fixer that finished first', async () => {
+      const participantD = ParticipantId.fromString('mighty-mayhem');
+      let running = 0;
+      let maxRunning = 0;
+      const createFixer = (delayMs: number) => {
+        const provider = new MockProvider();
+        const originalFixAttempt = provider.fixAttempt.bind(provider);
+        provider.fixAttempt = async (buggyDir: string, workspaceDir: string, prompt: string) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          running--;
+          return originalFixAttempt(buggyDir, workspaceDir, prompt);
+        };
+        return provider;
+      };
+
+      // C is ahead of D in order of play but takes much longer to fix B's bug
+      const providers = new Map([
+        [participantA, new MockProvider()],
+        [participantB, createFixer(50)],
+        [participantC, createFixer(400)],
+        [participantD, createFixer(10)],
+      ]);
+      const concurrentRunner = new GameRunner(
+        providers,
+        testWorkspaceDir,
+        eventStore,
+        competitionId,
+        { ...DEFAULT_GAME_RUNNER_CONFIG, roundMode: 'multi-bug', maxConcurrency: 6 }
+      );
+
+      const summary = await concurrentRunner.start(1);
+
+      expect(maxRunning).toBeGreaterThan(1);
+      const scores = Object.fromEntries(summary.participantScores.map(s => [s.participantId, s]));
+      expect(scores[participantD.getValue()]?.details.fixes).toBe(2);
+      expect(scores[participantC.getValue()]?.details.fixes).toBe(0);
+    });
+  });
+
+  describe('Event Persistence', () => {
+    it('should persist competition, round and phase events with numeric round ids', async () => {
+      await gameRunner.start(2);
+
+      const eventsResult = await eventStore.getEventsByCompetition(competitionId);
+      expect(eventsResult.isOk()).toBe(true);
+      const events = eventsResult._unsafeUnwrap();
+
+      const eventTypes = events.map(e => e.getEventType());
+      expect(eventTypes[0]).toBe(EventType.COMPETITION_STARTED);
+      expect(eventTypes[eventTypes.length - 1]).toBe(EventType.COMPETITION_COMPLETED);
+      expect(eventTypes.filter(t => t === EventType.ROUND_STARTED)).toHaveLength(2);
+      expect(eventTypes.filter(t => t === EventType.ROUND_COMPLETED)).toHaveLength(2);
+
+      const roundEvents = events.filter(
+        e =>
+          e.getEventType() !== EventType.COMPETITION_STARTED &&
+          e.getEventType() !== EventType.COMPETITION_COMPLETED
+      );
+      expect(roundEvents.every(e => e.getRoundId().isNumeric())).toBe(true);
+
+      const secondRoundPhases = roundEvents
+        .filter(e => e.getRoundId().getValue() === 2 && !e.isSystemEvent())
+        .map(e => [e.getEventType(), e.getParticipantId().getValue()]);
+      expect(secondRoundPhases).toEqual([
+        [EventType.BASELINE_CREATION_STARTED, participantB.getValue()],
+        [EventType.BASELINE_COMPLETED, participantB.getValue()],
+        [EventType.BUG_INJECTION_STARTED, participantC.getValue()],
+        [EventType.BUG_INJECTION_COMPLETED, participantC.getValue()],
+        [EventType.FIX_ATTEMPT_STARTED, participantA.getValue()],
+        [EventType.FIX_ATTEMPT_COMPLETED, participantA.getValue()],
+      ]);
+    });
+
+    it('should persist enough to rebuild the final summary by folding the events', async () => {
+      const summary = await createGameRunner(
+        new Map([
+          [participantA, new MockProvider()],
+          [participantB, new MockProvider()],
+          [participantC, new MockProvider()],
+        ])
+      ).start(3);
+
+      const events = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+
+      expect(Game.fromEvents(events).getFinalSummary()).toEqual(summary);
+    });
+
+    it('should record the validator verdict in completed phase events', async () => {
+      await gameRunner.start(1);
+
+      const eventsResult = await eventStore.getEventsByType(EventType.BUG_INJECTION_COMPLETED);
+      const [bugEvent] = eventsResult._unsafeUnwrap();
+
+      expect(bugEvent?.isSuccess()).toBe(true);
+      expect(bugEvent?.getDuration().isMeasured()).toBe(true);
+      expect(bugEvent?.getData()).toMatchObject({
+        provider: 'mock-provider',
+        providerSuccess: true,
+        message: expect.stringContaining('Mock bug injected successfully'),
+        validation: { success: true, stdout: expect.stringContaining('Tests failed') },
+      });
+    });
+
+    it('should record the toolchain the baseline was built with', async () => {
+      await gameRunner.start(1);
+
+      const [baselineEvent] = (
+        await eventStore.getEventsByType(EventType.BASELINE_COMPLETED)
+      )._unsafeUnwrap();
+
+      expect(baselineEvent?.getData().toolchain).toMatchObject({
+        language: 'TypeScript',
+        framework: null,
+        testRunner: 'vitest',
+        manifests: ['package.json'],
+      });
+      const summary = (
+        await new ResultsFormatter(eventStore).formatCompetitionResults(competitionId)
+      )._unsafeUnwrap();
+      expect(summary.statistics.languageStats).toEqual({
+        TypeScript: {
+          baselines: 1,
+          totalPhases: 3,
+          successfulPhases: 3,
+          successRate: 1,
+          phaseSuccessRates: { baseline: 1, bugInjection: 1, fixAttempt: 1 },
+        },
+      });
+    });
+
+    it('should store the diff of the bug and of its fix with the completed events', async () => {
+      await gameRunner.start(1);
+
+      const [bugEvent] = (
+        await eventStore.getEventsByType(EventType.BUG_INJECTION_COMPLETED)
+      )._unsafeUnwrap();
+      const [fixEvent] = (
+        await eventStore.getEventsByType(EventType.FIX_ATTEMPT_COMPLETED)
+      )._unsafeUnwrap();
+
+      expect(bugEvent?.getData().diff).toMatchObject({
+        filesChanged: 1,
+        linesAdded: 1,
+        linesRemoved: 1,
+        files: [{ path: 'src/calculator.ts', kind: 'modified', category: 'source' }],
+        patch: expect.stringContaining('-    return a + b;\n+    return a - b; // BUG'),
+        truncated: false,
+      });
+      expect(fixEvent?.getData().diff).toMatchObject({
+        filesChanged: 1,
+        patch: expect.stringContaining(
+          '-    return a - b; // BUG: Should be addition\n+    return a + b;'
+        ),
+      });
+    });
+  });
+
+  describe('Resuming', () => {
+    const createProviders = () =>
+      new Map([
+        [participantA, new MockProvider()],
+        [participantB, new MockProvider()],
+        [participantC, new MockProvider()],
+      ]);
+
+    // Simulates a crash by throwing out of the runner when a matching event is emitted
+    const interruptAt = async (matches: (event: GameEvent) => boolean, rounds: number) => {
+      const crashingRunner = createGameRunner(createProviders());
+      crashingRunner.onEvent(event => {
+        if (matches(event)) throw new Error('Simulated crash');
+      });
+      await expect(crashingRunner.start(rounds)).rejects.toThrow('Simulated crash');
+    };
+
+    const loadRecorded = async () =>
+      RecordedCompetition.fromEvents(
+        (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap()
+      );
+
+    it('should replay completed rounds and finish with the same scores as an uninterrupted run', async () => {
+      await interruptAt(e => e.type === 'round-started' && e.round === 2, 3);
+
+      const recorded = await loadRecorded();
+      expect(recorded.getNextRound()).toBe(2);
+
+      const events: GameEvent[] = [];
+      const resumedRunner = createGameRunner(createProviders());
+      resumedRunner.onEvent(event => events.push(event));
+      const summary = await resumedRunner.resume(recorded);
+
+      // Round 1 is replayed silently, round 2 picks up after its ROUND_STARTED event
+      expect(events.filter(e => e.type === 'round-started')).toEqual([
+        expect.objectContaining({ round: 2, resumed: true }),
+        expect.objectContaining({ round: 3 }),
+      ]);
+      expect(summary.totalRounds).toBe(3);
+
+      const uninterrupted = await new GameRunner(
+        createProviders(),
+        join(testWorkspaceDir, 'uninterrupted'),
+        eventStore,
+        new CompetitionId(`${competitionId.getValue()}-uninterrupted`)
+      ).start(3);
+      expect(summary.participantScores).toEqual(uninterrupted.participantScores);
+    });
+
+    it('should continue an unfinished round from its first unfinished phase', async () => {
+      await interruptAt(e => e.type === 'bug-injection-attempt', 1);
+
+      const resumedRunner = createGameRunner(createProviders());
+      const events: GameEvent[] = [];
+      resumedRunner.onEvent(event => events.push(event));
+      await resumedRunner.resume(await loadRecorded());
+
+      expect(events.map(e => e.type)).toEqual(['round-started', 'fix-attempt', 'round-finished']);
+      expect(events[1]).toMatchObject({ participant: participantC.getValue(), success: true });
+
+      const stored = (await eventStore.getEventsByCompetition(competitionId))._unsafeUnwrap();
+      const count = (type: EventType) => stored.filter(e => e.getEventType() === type).length;
+      expect(count(EventType.BASELINE_CREATION_STARTED)).toBe(1);
+      expect(count(EventType.BUG_INJECTION_COMPLETED)).toBe(1);
+      expect(count(EventType.ROUND_STARTED)).toBe(1);
+      expect(count(EventType.COMPETITION_COMPLETED)).toBe(1);
+    });
+
+    it('should refuse to resume a completed competition', async () => {
+      await gameRunner.start(1);
+
+      await expect(
+        createGameRunner(createProviders()).resume(await loadRecorded())
+      ).rejects.toThrow(`Competition ${competitionId.getValue()} has already completed`);
+    });
+  });
+
   describe('Unique Workspace Directory Management', () => {
     it('should create unique workspace directories for each task to prevent cross-contamination', async () => {
       const events: GameEvent[] = [];
@@ -1,12 +1,57 @@
 // ABOUTME: Game runner orchestrating competition flow with event emission and real provider interactions
-// Provides CLI-friendly API for running complete games with behavior-driven participant simulation
+// Provides CLI-friendly API for running complete games and persists every step to the event store
 
 import { Game } from './game/game';
 import { ParticipantId } from 'domain/competition-event/participant-id';
-import { LLMProvider } from 'domain/llm-provider/llm-provider';
-import { SystemPrompts } from 'domain/competition-prompts/system-prompts';
+import { CompetitionId } from 'domain/competition-event/competition-id';
+import { RoundId } from 'domain/competition-event/round-id';
+import { EventType } from 'domain/competition-event/event-type';
+import { Phase } from 'domain/competition-event/phase';
+import { Duration } from 'domain/competition-event/duration';
+import { LLMProvider, ProviderPhaseTimeouts } from 'domain/llm-provider/llm-provider';
+import { SystemPrompts, SystemPromptConfig } from 'domain/competition-prompts/system-prompts';
+import { ChallengeSpec, getRoundChallenge } from 'domain/competition-prompts/challenge-spec';
+import { EventStore } from 'infrastructure/event-store/event-store';
+import { GameSummary } from './game/game-summary';
+import { RoundMode } from './game/game-state';
+import { DEFAULT_SCORING_RULES, ScoringRules } from './game/scoring-rules';
+import {
+  RoleAssignmentStrategy,
+  RoleSchedule,
+  RoundRoles,
+  planRoleSchedule,
+} from './roles/role-assignment-strategy';
+import { RoundRobinAssignment } from './roles/round-robin-assignment';
+import { RecordedCompetition } from './recorded-competition';
+import { PhaseOrigin, ValidationResult, ValidationService } from './services/validation-service';
+import { CompetitionEventService } from './services/competition-event-service';
+import { WorkspaceService } from './services/workspace-service';
+import {
+  ProviderExecutionService,
+  TimedProviderResult,
+} from './services/provider-execution-service';
+import { mapWithConcurrency } from 'utils/concurrency';
+import { WorkspacePatch } from 'infrastructure/workspace/workspace-diff';
+import { ToolchainProfile } from 'infrastructure/workspace/toolchain-detector';
+import { MakefileValidator } from 'infrastructure/contract-validator/makefile-validator';
+import {
+  DEFAULT_MAKE_LIMITS,
+  HostMakeExecutor,
+  MakeLimits,
+} from 'infrastructure/contract-validator/make-executor';
+import { TestIntegrityValidator } from 'infrastructure/contract-validator/test-integrity-validator';
+import {
+  SandboxConfig,
+  SandboxedMakeExecutor,
+} from 'infrastructure/contract-validator/sandboxed-make-executor';
+import {
+  DependencyCacheConfig,
+  describeEcosystem,
+  getCachedEcosystems,
+} from 'infrastructure/workspace/dependency-cache';
+import { Result } from 'neverthrow';
 import { join } from 'path';
-import { mkdir, readdir, stat } from 'fs/promises';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
 
 export interface GameEvent {
   type:
@@ -19,17 +64,124 @@ export interface GameEvent {
   [key: string]: unknown;
 }
 
+export interface GameRunnerConfig {
+  readonly roundMode: RoundMode;
+  readonly roleAssignment: RoleAssignmentStrategy;
+  // Upper bound on provider sessions running at the same time within a phase
+  readonly maxConcurrency: number;
+  readonly scoringRules: ScoringRules;
+  // Runs make targets in a container instead of on the host when set
+  readonly sandbox: SandboxConfig | null;
+  // Times each phase is validated; a phase whose runs disagree is rejected as flaky
+  readonly validationRuns: number;
+  // Timeouts per make target and the output captured from each run
+  readonly makeLimits: MakeLimits;
+  // Local package caches make setup installs from instead of the network, when set
+  readonly dependencyCache: DependencyCacheConfig | null;
+  // Baseline constraints played in turn, one per round; none leaves the baseline unconstrained
+  readonly challenges: readonly ChallengeSpec[];
+}
+
+export const DEFAULT_GAME_RUNNER_CONFIG: GameRunnerConfig = {
+  roundMode: 'single-bug',
+  roleAssignment: new RoundRobinAssignment(),
+  maxConcurrency: 4,
+  scoringRules: DEFAULT_SCORING_RULES,
+  sandbox: null,
+  validationRuns: 1,
+  makeLimits: DEFAULT_MAKE_LIMITS,
+  dependencyCache: null,
+  challenges: [],
+};
+
+interface InjectedBug {
+  readonly author: ParticipantId;
+  readonly buggyDir: string;
+}
+
+interface PhaseOutcome {
+  readonly success: boolean;
+  readonly duration: Duration;
+  readonly completedAt: Date;
+  readonly qualityScore: number;
+}
+
+interface PhaseDefinition {
+  readonly gameEventType: 'baseline-attempt' | 'bug-injection-attempt' | 'fix-attempt';
+  readonly validationPhase: 'baseline' | 'bug-injection' | 'fix-attempt';
+  readonly phase: Phase;
+  readonly startedEventType: EventType;
+  readonly completedEventType: EventType;
+  readonly prompt: SystemPromptConfig;
+  readonly timeout: keyof ProviderPhaseTimeouts;
+}
+
+const BASELINE_PHASE: PhaseDefinition = {
+  gameEventType: 'baseline-attempt',
+  validationPhase: 'baseline',
+  phase: Phase.BASELINE,
+  startedEventType: EventType.BASELINE_CREATION_STARTED,
+  completedEventType: EventType.BASELINE_COMPLETED,
+  prompt: SystemPrompts.BASELINE_CREATION,
+  timeout: 'baselineTimeoutMs',
+};
+
+const BUG_INJECTION_PHASE: PhaseDefinition = {
+  gameEventType: 'bug-injection-attempt',
+  validationPhase: 'bug-injection',
+  phase: Phase.BUG_INJECTION,
+  startedEventType: EventType.BUG_INJECTION_STARTED,
+  completedEventType: EventType.BUG_INJECTION_COMPLETED,
+  prompt: SystemPrompts.BUG_INJECTION,
+  timeout: 'bugInjectionTimeoutMs',
+};
+
+const FIX_ATTEMPT_PHASE: PhaseDefinition = {
+  gameEventType: 'fix-attempt',
+  validationPhase: 'fix-attempt',
+  phase: Phase.FIX_ATTEMPT,
+  startedEventType: EventType.FIX_ATTEMPT_STARTED,
+  completedEventType: EventType.FIX_ATTEMPT_COMPLETED,
+  prompt: SystemPrompts.FIX_ATTEMPT,
+  timeout: 'fixAttemptTimeoutMs',
+};
+
 export class GameRunner {
   private readonly game: Game;
   private readonly participants: readonly ParticipantId[];
+  private readonly validationService: ValidationService;
+  private readonly executionService: ProviderExecutionService;
+  private readonly eventService: CompetitionEventService;
+  private readonly workspaceService: WorkspaceService;
   private eventListeners: Array<(event: GameEvent) => void> = [];
+  // Set when resuming: phases recorded here are replayed instead of played again
+  private recorded: RecordedCompetition | undefined;
 
   constructor(
     private readonly providers: Map<ParticipantId, LLMProvider>,
-    private readonly workspaceBaseDir: string
+    private readonly workspaceBaseDir: string,
+    eventStore: EventStore,
+    private readonly competitionId: CompetitionId,
+    private readonly config: GameRunnerConfig = DEFAULT_GAME_RUNNER_CONFIG
   ) {
-    this.game = new Game();
+    this.game = new Game(config.scoringRules);
     this.participants = Array.from(providers.keys());
+    this.validationService = new ValidationService(
+      new MakefileValidator(
+        config.sandbox
+          ? new SandboxedMakeExecutor(
+              config.sandbox,
+              config.makeLimits,
+              config.dependencyCache ?? {}
+            )
+          : new HostMakeExecutor(config.makeLimits, config.dependencyCache ?? {})
+      ),
+      new TestIntegrityValidator(),
+      config.validationRuns
+    );
+    this.executionService = new ProviderExecutionService();
+    this.eventService = new CompetitionEventService(eventStore, competitionId);
+    this.workspaceService = new WorkspaceService();
   }
 
   onEvent(listener: (event: GameEvent) => void): void {
@@ -41,192 +193,460 @@ export class GameRunner {
     this.eventListeners.forEach(listener => listener(eventWithTimestamp));
   }
 
-  async start(totalRounds: number) {
+  planSchedule(totalRounds: number): RoleSchedule {
+    return planRoleSchedule(this.config.roleAssignment, this.participants, totalRounds);
+  }
+
+  async start(totalRounds: number): Promise<GameSummary> {
+    const schedule = this.planSchedule(totalRounds);
+
+    await this.eventService.logSystemEvent(EventType.COMPETITION_STARTED, Phase.SYSTEM, {
+      competitionId: this.competitionId.getValue(),
+      totalRounds,
+      roundMode: this.config.roundMode,
+      scoringRules: this.config.scoringRules,
+      sandbox: this.config.sandbox,
+      validationRuns: this.config.validationRuns,
+      makeLimits: this.config.makeLimits,
+      dependencyCache: this.config.dependencyCache,
+      challenges: this.config.challenges,
+      workspaceDir: this.workspaceBaseDir,
+      participants: this.participants.map(p => {
+        const { name, config } = this.getProvider(p);
+        return { participantId: p.getValue(), provider: name, ...(config && { config }) };
+      }),
+      roleAssignment: {
+        strategy: schedule.strategy,
+        balanced: schedule.balanced,
+        roleCounts: schedule.roleCounts,
+        ...(schedule.seed !== undefined && { seed: schedule.seed }),
+        rounds: schedule.rounds.map(({ round, order }) => ({
+          round,
+          order: order.map(p => p.getValue()),
+        })),
+      },
+    });
+
+    return this.play(schedule.rounds);
+  }
+
+  // Replays every completed phase of a recorded competition, then plays whatever is left
+  async resume(recorded: RecordedCompetition): Promise<GameSummary> {
+    if (recorded.competitionId !== this.competitionId.getValue()) {
+      throw new Error(
+        `Cannot resume competition ${recorded.competitionId} as ${this.competitionId.getValue()}`
+      );
+    }
+    if (recorded.completed) {
+      throw new Error(`Competition ${recorded.competitionId} has already completed`);
+    }
+
+    this.recorded = recorded;
+    const rounds = recorded.schedule.map(({ round, order }) => ({
+      round,
+      order: order.map(participantId => this.getParticipant(participantId)),
+    }));
+
+    return this.play(rounds);
+  }
+
+  private async play(rounds: readonly RoundRoles[]): Promise<GameSummary> {
     // Register all participants with the game so they appear in final summary
     for (const participant of this.participants) {
       this.game.registerParticipant(participant);
     }
 
-    for (let round = 1; round <= totalRounds; round++) {
-      await this.runRound(round);
+    for (const roles of rounds) {
+      await this.runRound(roles);
     }
 
-    return this.game.getFinalSummary();
+    const summary = this.game.getFinalSummary();
+    await this.eventService.logSystemEvent(EventType.COMPETITION_COMPLETED, Phase.SYSTEM, {
+      totalRounds: summary.totalRounds,
+      participantScores: summary.participantScores,
+      scoringRules: summary.scoringRules,
+    });
+
+    return summary;
   }
 
-  private async runRound(roundNumber: number): Promise<void> {
-    const baselineAuthor = this.participants[(roundNumber - 1) % this.participants.length];
+  private async runRound(roles: RoundRoles): Promise<void> {
+    const roundNumber = roles.round;
+    const baselineAuthor = roles.order[0];
     if (!baselineAuthor) {
       throw new Error('No baseline author found for round');
     }
+    const roundId = RoundId.fromNumber(roundNumber);
+    const replayed = this.recorded?.isRoundCompleted(roundNumber) ?? false;
+    const resumed = this.recorded?.isRoundStarted(roundNumber) ?? false;
+    const challenge = getRoundChallenge(this.config.challenges, roundNumber);
 
-    this.game.startRound(roundNumber, baselineAuthor);
-    this.emitEvent({
-      type: 'round-started',
-      round: roundNumber,
-      baselineAuthor: baselineAuthor.getValue(),
+    this.game.startRound(roundNumber, baselineAuthor, this.config.roundMode);
+    if (!resumed) {
+      await this.eventService.logSystemEvent(
+        EventType.ROUND_STARTED,
+        Phase.SYSTEM,
+        {
+          baselineAuthor: baselineAuthor.getValue(),
+          roundMode: this.config.roundMode,
+          ...(challenge && { challenge: challenge.name }),
+        },
+        roundId
+      );
+    }
+    if (!replayed) {
+      this.emitEvent({
+        type: 'round-started',
+        round: roundNumber,
+        baselineAuthor: baselineAuthor.getValue(),
+        ...(challenge && { challenge: challenge.name }),
+        ...(resumed && { resumed: true }),
+      });
+    }
+
+    // Execute baseline creation, then verify it independently of the provider's own report
+    const baselineDir = this.getTaskWorkspace(baselineAuthor, 'baseline', roundId);
+    const baseline = await this.playPhase(BASELINE_PHASE, baselineAuthor, roundId, {
+      workspaceDir: baselineDir,
+      challenge,
+      execute: (provider, prompt) =>
+        this.executionService.executeBaselineCreation(provider, baselineDir, prompt),
     });
 
-    // Execute baseline creation
-    const baselineResult = await this.executeBaselineCreation(baselineAuthor);
+    if (baseline.success) {
+      this.game.recordBaselineSuccess(baselineAuthor, baseline.qualityScore);
+
+      const bugs = await this.runBugInjections(roles, baselineDir, roundId);
+      await this.runFixAttempts(roles, bugs, baselineDir, roundId);
+    } else {
+      this.game.recordBaselineFailure(baselineAuthor);
+    }
+
+    this.game.finishRound();
+    if (replayed) {
+      return;
+    }
+
+    const scores = this.getCurrentScores();
+    await this.eventService.logSystemEvent(
+      EventType.ROUND_COMPLETED,
+      Phase.SYSTEM,
+      { scores },
+      roundId
+    );
     this.emitEvent({
-      type: 'baseline-attempt',
-      participant: baselineAuthor.getValue(),
-      success: baselineResult.success,
-      message: baselineResult.message,
-      workspacePath: this.getTaskWorkspace(baselineAuthor, 'baseline', this.game.getCurrentRound()),
+      type: 'round-finished',
+      round: roundNumber,
+      scores,
     });
+  }
 
-    if (baselineResult.success) {
-      this.game.recordBaselineSuccess(baselineAuthor);
+  private async runBugInjections(
+    roles: RoundRoles,
+    baselineDir: string,
+    roundId: RoundId
+  ): Promise<InjectedBug[]> {
+    const bugInjectors = this.selectBugInjectors(roles);
+    const outcomes = await mapWithConcurrency(
+      bugInjectors,
+      this.config.maxConcurrency,
+      async bugInjector => {
+        const buggyDir = this.getTaskWorkspace(bugInjector, 'buginjection', roundId);
+        const outcome = await this.playPhase(BUG_INJECTION_PHASE, bugInjector, roundId, {
+          workspaceDir: buggyDir,
+          sourceDir: baselineDir,
+          execute: (provider, prompt) =>
+            this.executionService.executeBugInjection(provider, baselineDir, buggyDir, prompt),
+        });
+        return { bugInjector, buggyDir, success: outcome.success };
+      }
+    );
 
-      // Find bug injector (next participant who isn't baseline author)
-      const bugInjector = this.participants.find(p => !p.equals(baselineAuthor));
-      if (!bugInjector) {
-        throw new Error('No valid participant found for bug injection');
+    // Bug injections do not race each other, so they are recorded in order of play
+    const bugs: InjectedBug[] = [];
+    for (const { bugInjector, buggyDir, success } of outcomes) {
+      if (success) {
+        this.game.recordBugInjectionSuccess(bugInjector);
+        bugs.push({ author: bugInjector, buggyDir });
+      } else {
+        this.game.recordBugInjectionFailure(bugInjector);
       }
+    }
 
-      const bugResult = await this.executeBugInjection(bugInjector, baselineAuthor);
-      this.emitEvent({
-        type: 'bug-injection-attempt',
-        participant: bugInjector.getValue(),
-        success: bugResult.success,
-        message: bugResult.message,
-        workspacePath: this.getTaskWorkspace(
-          bugInjector,
-          'buginjection',
-          this.game.getCurrentRound()
-        ),
-      });
+    if (this.config.roundMode === 'multi-bug') {
+      this.game.completeBugInjection();
+    }
 
-      if (bugResult.success) {
-        this.game.recordBugInjectionSuccess(bugInjector);
+    return bugs;
+  }
 
-        // Find fixer (participant who isn't baseline author or bug injector)
-        const fixer = this.participants.find(
-          p => !p.equals(baselineAuthor) && !p.equals(bugInjector)
-        );
-        if (!fixer) {
-          throw new Error('No valid participant found for fix attempt');
-        }
+  private async runFixAttempts(
+    roles: RoundRoles,
+    bugs: readonly InjectedBug[],
+    baselineDir: string,
+    roundId: RoundId
+  ): Promise<void> {
+    const attempts = bugs.flatMap(bug =>
+      this.selectFixers(roles, bug.author).map(fixer => ({ fixer, bug }))
+    );
 
-        const fixResult = await this.executeFixAttempt(fixer, bugInjector);
-        this.emitEvent({
-          type: 'fix-attempt',
-          participant: fixer.getValue(),
-          success: fixResult.success,
-          message: fixResult.message,
-          workspacePath: this.getTaskWorkspace(fixer, 'fixattempt', this.game.getCurrentRound()),
+    const outcomes = await mapWithConcurrency(
+      attempts,
+      this.config.maxConcurrency,
+      async ({ fixer, bug }) => {
+        const { author: bugAuthor, buggyDir } = bug;
+        const fixDir = this.getTaskWorkspace(fixer, `fixattempt-${bugAuthor.getValue()}`, roundId);
+        const outcome = await this.playPhase(FIX_ATTEMPT_PHASE, fixer, roundId, {
+          workspaceDir: fixDir,
+          sourceDir: buggyDir,
+          baselineDir,
+          context: { bugAuthor: bugAuthor.getValue() },
+          execute: (provider, prompt) =>
+            this.executionService.executeFixAttempt(provider, buggyDir, fixDir, prompt),
         });
+        return { fixer, bugAuthor, ...outcome };
+      }
+    );
 
-        if (fixResult.success) {
-          this.game.recordFixSuccess(fixer);
-        } else {
-          this.game.recordFixFailure(fixer);
-        }
+    // The game credits the first successful fixer it hears about, so replay attempts in the
+    // order providers finished; the stable sort falls back to order of play on ties
+    const byCompletion = [...outcomes].sort(
+      (a, b) => a.completedAt.getTime() - b.completedAt.getTime()
+    );
+    for (const { fixer, bugAuthor, success, duration } of byCompletion) {
+      if (success) {
+        this.game.recordFixSuccess(fixer, bugAuthor, duration);
       } else {
-        this.game.recordBugInjectionFailure(bugInjector);
+        this.game.recordFixFailure(fixer, bugAuthor);
       }
-    } else {
-      this.game.recordBaselineFailure(baselineAuthor);
     }
+  }
 
-    this.game.finishRound();
-    this.emitEvent({
-      type: 'round-finished',
-      round: roundNumber,
-      scores: this.getCurrentScores(),
-    });
+  // The schedule's order lists the baseline author first, then everyone else in order of play
+  private selectBugInjectors(roles: RoundRoles): ParticipantId[] {
+    const candidates = roles.order.slice(1);
+    if (candidates.length === 0) {
+      throw new Error('No valid participant found for bug injection');
+    }
+    return this.config.roundMode === 'multi-bug' ? candidates : candidates.slice(0, 1);
   }
 
-  private async executeBaselineCreation(
-    participant: ParticipantId
-  ): Promise<{ success: boolean; message: string }> {
-    const provider = this.providers.get(participant);
-    if (!provider) {
-      throw new Error(`No provider found for participant ${participant.getValue()}`);
+  private selectFixers(roles: RoundRoles, bugAuthor: ParticipantId): ParticipantId[] {
+    const candidates = roles.order.slice(1).filter(p => !p.equals(bugAuthor));
+    if (candidates.length === 0) {
+      throw new Error('No valid participant found for fix attempt');
+    }
+    return this.config.roundMode === 'multi-bug' ? candidates : candidates.slice(0, 1);
+  }
+
+  private async playPhase(
+    definition: PhaseDefinition,
+    participant: ParticipantId,
+    roundId: RoundId,
+    task: {
+      workspaceDir: string;
+      sourceDir?: string;
+      baselineDir?: string;
+      // Only baselines are built for a challenge
+      challenge?: ChallengeSpec | undefined;
+      context?: Record<string, unknown>;
+      execute: (
+        provider: LLMProvider,
+        prompt: string
+      ) => Promise<Result<TimedProviderResult, Error>>;
     }
-    const workspaceDir = this.getTaskWorkspace(
+  ): Promise<PhaseOutcome> {
+    const provider = this.getProvider(participant);
+    const { workspaceDir, sourceDir, baselineDir, challenge, context } = task;
+
+    if (this.recorded) {
+      const bugAuthor = typeof context?.bugAuthor === 'string' ? context.bugAuthor : undefined;
+      const outcome = this.recorded.getPhaseOutcome(
+        definition.phase,
+        roundId.getValue() as number,
+        participant.getValue(),
+        bugAuthor
+      );
+      if (outcome) {
+        return outcome;
+      }
+      // Whatever an interrupted attempt left behind must not leak into the new one
+      await rm(workspaceDir, { recursive: true, force: true });
+    }
+
+    await this.eventService.logPhaseStart(
+      definition.startedEventType,
+      definition.phase,
+      participant,
+      { provider: provider.name, workspaceDir, ...(sourceDir && { sourceDir }), ...context },
+      roundId
+    );
+
+    const { result, duration, completedAt } = await this.executeInWorkspace(
+      this.getPromptConfig(definition, provider, challenge),
+      provider,
+      workspaceDir,
+      task.execute
+    );
+    // Captured before make runs so build artifacts do not end up in the diff or line counts
+    const diff = sourceDir ? await this.captureDiff(sourceDir, workspaceDir) : undefined;
+    const toolchain =
+      definition.phase === Phase.BASELINE ? await this.detectToolchain(workspaceDir) : undefined;
+    const verified = await this.verifyPhase(definition.validationPhase, workspaceDir, {
+      ...(sourceDir && { sourceDir }),
+      ...(baselineDir && { baselineDir }),
+    });
+    const validation = challenge
+      ? this.validationService.enforceChallenge(verified, challenge, toolchain)
+      : verified;
+
+    await this.eventService.logPhaseComplete(
+      definition.completedEventType,
+      definition.phase,
       participant,
-      'baseline',
-      this.game.getCurrentRound()
+      {
+        provider: provider.name,
+        message: result.message,
+        providerSuccess: result.success,
+        ...(result.failureReason && { providerFailureReason: result.failureReason }),
+        workspaceDir,
+        completedAt: completedAt.toISOString(),
+        validation,
+        ...(validation.failureReason && { failureReason: validation.failureReason }),
+        ...(diff && { diff }),
+        ...(toolchain && { toolchain }),
+        ...context,
+      },
+      validation.success,
+      duration,
+      roundId
     );
 
+    this.emitEvent({
+      type: definition.gameEventType,
+      participant: participant.getValue(),
+      success: validation.success,
+      message: result.message,
+      workspacePath: workspaceDir,
+      validation,
+      ...context,
+    });
+
+    return {
+      success: validation.success,
+      duration,
+      completedAt,
+      qualityScore: validation.quality?.score ?? 0,
+    };
+  }
+
+  private async executeInWorkspace(
+    promptConfig: SystemPromptConfig,
+    provider: LLMProvider,
+    workspaceDir: string,
+    execute: (provider: LLMProvider, prompt: string) => Promise<Result<TimedProviderResult, Error>>
+  ): Promise<TimedProviderResult> {
     try {
       await this.validateWorkspaceIsEmpty(workspaceDir);
       await mkdir(workspaceDir, { recursive: true });
-      const prompt = SystemPrompts.formatPrompt(SystemPrompts.BASELINE_CREATION);
-      return provider.createCodingExercise(workspaceDir, prompt);
+      const prompt = SystemPrompts.formatPrompt(promptConfig);
+      const executionResult = await execute(provider, prompt);
+      if (executionResult.isErr()) {
+        return this.failedExecution(executionResult.error.message);
+      }
+      return executionResult.value;
     } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : String(error),
-      };
+      return this.failedExecution(error instanceof Error ? error.message : String(error));
     }
   }
 
-  private async executeBugInjection(
-    bugInjector: ParticipantId,
-    baselineAuthor: ParticipantId
-  ): Promise<{ success: boolean; message: string }> {
-    const provider = this.providers.get(bugInjector);
-    if (!provider) {
-      throw new Error(`No provider found for participant ${bugInjector.getValue()}`);
-    }
-    const baselineDir = this.getTaskWorkspace(
-      baselineAuthor,
-      'baseline',
-      this.game.getCurrentRound()
-    );
-    const workspaceDir = this.getTaskWorkspace(
-      bugInjector,
-      'buginjection',
-      this.game.getCurrentRound()
+  // Only the baseline chooses its language and dependencies; later phases inherit them
+  private getPromptConfig(
+    definition: PhaseDefinition,
+    provider: LLMProvider,
+    challenge: ChallengeSpec | undefined
+  ): SystemPromptConfig {
+    const { dependencyCache } = this.config;
+    let config = SystemPrompts.withTimeLimit(
+      definition.prompt,
+      this.executionService.getPromptedTimeLimitMs(provider, definition.timeout)
     );
+    if (definition.phase !== Phase.BASELINE) {
+      return config;
+    }
+    if (challenge) {
+      config = SystemPrompts.withChallenge(config, challenge);
+    }
+    if (dependencyCache) {
+      config = SystemPrompts.withOfflineDependencies(
+        config,
+        getCachedEcosystems(dependencyCache).map(describeEcosystem)
+      );
+    }
+    return config;
+  }
 
-    try {
-      await this.validateWorkspaceIsEmpty(workspaceDir);
-      await mkdir(workspaceDir, { recursive: true });
-      const prompt = SystemPrompts.formatPrompt(SystemPrompts.BUG_INJECTION);
-      return provider.injectBug(baselineDir, workspaceDir, prompt);
-    } catch (error) {
+  private failedExecution(message: string): TimedProviderResult {
+    return {
+      result: { success: false, message },
+      duration: Duration.notMeasured(),
+      completedAt: new Date(),
+    };
+  }
+
+  private async captureDiff(
+    sourceDir: string,
+    workspaceDir: string
+  ): Promise<WorkspacePatch | undefined> {
+    const diffResult = await this.workspaceService.diffWorkspaces(sourceDir, workspaceDir);
+    return diffResult.isOk() ? diffResult.value : undefined;
+  }
+
+  private async detectToolchain(workspaceDir: string): Promise<ToolchainProfile | undefined> {
+    const toolchainResult = await this.workspaceService.detectToolchain(workspaceDir);
+    return toolchainResult.isOk() ? toolchainResult.value : undefined;
+  }
+
+  private async verifyPhase(
+    phase: 'baseline' | 'bug-injection' | 'fix-attempt',
+    workspaceDir: string,
+    origin: PhaseOrigin
+  ): Promise<ValidationResult> {
+    const validationResult = await this.validationService.validatePhase(
+      phase,
+      workspaceDir,
+      origin
+    );
+    if (validationResult.isErr()) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : String(error),
+        message: `Validation error: ${validationResult.error.message}`,
       };
     }
+    return validationResult.value;
   }
 
-  private async executeFixAttempt(
-    fixer: ParticipantId,
-    bugInjector: ParticipantId
-  ): Promise<{ success: boolean; message: string }> {
-    const provider = this.providers.get(fixer);
-    if (!provider) {
-      throw new Error(`No provider found for participant ${fixer.getValue()}`);
+  private getParticipant(participantId: string): ParticipantId {
+    const participant = this.participants.find(p => p.getValue() === participantId);
+    if (!participant) {
+      throw new Error(`No provider found for participant ${participantId}`);
     }
-    const buggyDir = this.getTaskWorkspace(
-      bugInjector,
-      'buginjection',
-      this.game.getCurrentRound()
-    );
-    const workspaceDir = this.getTaskWorkspace(fixer, 'fixattempt', this.game.getCurrentRound());
+    return participant;
+  }
 
-    try {
-      await this.validateWorkspaceIsEmpty(workspaceDir);
-      await mkdir(workspaceDir, { recursive: true });
-      const prompt = SystemPrompts.formatPrompt(SystemPrompts.FIX_ATTEMPT);
-      return provider.fixAttempt(buggyDir, workspaceDir, prompt);
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : String(error),
-      };
+  private getProvider(participant: ParticipantId): LLMProvider {
+    const provider = this.providers.get(participant);
+    if (!provider) {
+      throw new Error(`No provider found for participant ${participant.getValue()}`);
     }
+    return provider;
   }
 
-  private getTaskWorkspace(participant: ParticipantId, task: string, round: number): string {
-    return join(this.workspaceBaseDir, `${participant.getValue()}-round${round}-${task}`);
+  private getTaskWorkspace(participant: ParticipantId, task: string, roundId: RoundId): string {
+    return join(
+      this.workspaceBaseDir,
+      `${participant.getValue()}-round${roundId.getValue()}-${task}`
+    );
   }
 
   private async validateWorkspaceIsEmpty(workspaceDir: string): Promise<void> {
@@ -6,6 +6,11 @@ import { Game } from './game/game';
 import { GameError } from './game/game-error';
 import { ParticipantId } from 'domain/competition-event/participant-id';
 import { NextStepType } from './game/next-step';
+import { DEFAULT_SCORING_RULES } from './game/scoring-rules';
+import { Duration } from 'domain/competition-event/duration';
+import { EventType } from 'domain/competition-event/event-type';
+import { Phase } from 'domain/competition-event/phase';
+import { CompetitionEventFactory } from 'test-utils/competition-event-factory';
 
 describe('Game', () => {
   let game: Game;
@@ -212,6 +217,198 @@ describe('Game', () => {
     });
   });
 
+  describe('Scoring Rules', () => {
+    it('should record the active scoring rules in the final summary', () => {
+      expect(game.getFinalSummary().scoringRules).toEqual(DEFAULT_SCORING_RULES);
+    });
+
+    it('should award baseline creators and weight phases', () => {
+      game = new Game({
+        ...DEFAULT_SCORING_RULES,
+        name: 'weighted',
+        baselineSuccess: 2,
+        phaseWeights: { baseline: 1.5, bugInjection: 1, fixAttempt: 3 },
+      });
+
+      game.startRound(1, participantA);
+      game.recordBaselineSuccess(participantA);
+      game.recordBugInjectionSuccess(participantB);
+      game.recordFixSuccess(participantC);
+      game.finishRound();
+
+      expect(game.getScore(participantA)).toBe(3);
+      expect(game.getScore(participantB)).toBe(0);
+      expect(game.getScore(participantC)).toBe(3);
+      expect(game.getFinalSummary().scoringRules.name).toBe('weighted');
+    });
+
+    it('should reward fast fixes and penalise trivially fixed bugs', () => {
+      game = new Game({
+        ...DEFAULT_SCORING_RULES,
+        fixSpeedBonus: 2,
+        fixSpeedWindowSeconds: 100,
+        trivialBug: -1,
+        trivialFixSeconds: 30,
+      });
+
+      game.startRound(1, participantA);
+      game.recordBaselineSuccess(participantA);
+      game.recordBugInjectionSuccess(participantB);
+      game.recordFixSuccess(participantC, undefined, Duration.fromSeconds(25));
+      game.finishRound();
+
+      expect(game.getScore(participantC)).toBe(2.5); // 1 for the fix + 75% of the speed bonus
+      expect(game.getScore(participantB)).toBe(-1);
+
+      game.startRound(2, participantB);
+      game.recordBaselineSuccess(participantB);
+      game.recordBugInjectionSuccess(participantC);
+      game.recordFixSuccess(participantA, undefined, Duration.fromSeconds(120));
+      game.finishRound();
+
+      expect(game.getScore(participantA)).toBe(1); // Too slow for a bonus
+      expect(game.getScore(participantC)).toBe(2.5); // Bug took long enough to not be trivial
+    });
+
+    it('should award baseline quality points in proportion to the quality score', () => {
+      game = new Game({ ...DEFAULT_SCORING_RULES, baselineQuality: 3 });
+
+      game.startRound(1, participantA);
+      game.recordBaselineSuccess(participantA, 0.5);
+      game.recordBugInjectionFailure(participantB);
+      game.finishRound();
+
+      game.startRound(2, participantB);
+      game.recordBaselineSuccess(participantB);
+      game.recordBugInjectionFailure(participantC);
+      game.finishRound();
+
+      expect(game.getScore(participantA)).toBe(1.5);
+      expect(game.getScore(participantB)).toBe(-1); // No measured quality, no bonus
+    });
+
+    it('should not award speed bonuses or trivial penalties when the fix time is unknown', () => {
+      game = new Game({
+        ...DEFAULT_SCORING_RULES,
+        fixSpeedBonus: 2,
+        trivialBug: -1,
+        trivialFixSeconds: 30,
+      });
+
+      game.startRound(1, participantA);
+      game.recordBaselineSuccess(participantA);
+      game.recordBugInjectionSuccess(participantB);
+      game.recordFixSuccess(participantC);
+      game.finishRound();
+
+      expect(game.getScore(participantC)).toBe(1);
+      expect(game.getScore(participantB)).toBe(0);
+    });
+  });
+
+  describe('Event Sourcing', () => {
+    let eventCounter = 0;
+    const event = (
+      eventType: EventType,
+      overrides: { participant?: string; success?: boolean; data?: Record<string, unknown> } = {}
+    ) =>
+      CompetitionEventFactory.create({
+        id: `event-${++eventCounter}`,
+        eventType,
+        roundId: 1,
+        participantId: overrides.participant ?? 'SYSTEM',
+        phase: Phase.SYSTEM,
+        success: overrides.success ?? true,
+        data: overrides.data ?? {},
+        durationSeconds: 20,
+      });
+
+    const multiBugRound = () => [
+      event(EventType.COMPETITION_STARTED, {
+        data: {
+          participants: ['agent-a', 'agent-b', 'agent-c', 'agent-d'].map(participantId => ({
+            participantId,
+          })),
+        },
+      }),
+      event(EventType.ROUND_STARTED, {
+        data: { baselineAuthor: 'agent-a', roundMode: 'multi-bug' },
+      }),
+      event(EventType.BASELINE_COMPLETED, { participant: 'agent-a' }),
+      event(EventType.BUG_INJECTION_COMPLETED, { participant: 'agent-b' }),
+      event(EventType.BUG_INJECTION_COMPLETED, { participant: 'agent-c', success: false }),
+      // agent-c's validation ended first, but agent-d's provider finished first
+      event(EventType.FIX_ATTEMPT_COMPLETED, {
+        participant: 'agent-c',
+        data: { bugAuthor: 'agent-b', completedAt: '2024-01-01T00:00:05.000Z' },
+      }),
+      event(EventType.FIX_ATTEMPT_COMPLETED, {
+        participant: 'agent-d',
+        data: { bugAuthor: 'agent-b', completedAt: '2024-01-01T00:00:02.000Z' },
+      }),
+      event(EventType.ROUND_COMPLETED),
+    ];
+
+    it('should rebuild scores by folding competition events', () => {
+      const rebuilt = Game.fromEvents(multiBugRound());
+
+      const scores = Object.fromEntries(
+        rebuilt.getFinalSummary().participantScores.map(s => [s.participantId, s.score])
+      );
+      expect(scores).toEqual({ 'agent-a': 0, 'agent-b': 0, 'agent-c': -1, 'agent-d': 1 });
+      expect(rebuilt.getFinalSummary().totalRounds).toBe(1);
+      expect(rebuilt.getNextExpectedStep().type).toBe(NextStepType.WAITING_FOR_ROUND_START);
+    });
+
+    it('should recompute scores under different scoring rules', () => {
+      const rebuilt = Game.fromEvents(multiBugRound(), {
+        ...DEFAULT_SCORING_RULES,
+        name: 'harsh',
+        bugInjectionFailure: -3,
+        trivialBug: -2,
+        trivialFixSeconds: 30,
+      });
+
+      const summary = rebuilt.getFinalSummary();
+      const scores = Object.fromEntries(
+        summary.participantScores.map(s => [s.participantId, s.score])
+      );
+      expect(scores['agent-b']).toBe(-2);
+      expect(scores['agent-c']).toBe(-3);
+      expect(summary.scoringRules.name).toBe('harsh');
+    });
+
+    it('should award baseline quality recorded with the validation', () => {
+      const events = multiBugRound();
+      events[2] = event(EventType.BASELINE_COMPLETED, {
+        participant: 'agent-a',
+        data: { validation: { success: true, quality: { targets: [], score: 0.25 } } },
+      });
+
+      const rebuilt = Game.fromEvents(events, { ...DEFAULT_SCORING_RULES, baselineQuality: 2 });
+
+      const scores = rebuilt.getFinalSummary().participantScores;
+      expect(scores.find(s => s.participantId === 'agent-a')?.score).toBe(0.5);
+    });
+
+    it('should leave an interrupted round in progress', () => {
+      const rebuilt = Game.fromEvents(multiBugRound().slice(0, 4));
+
+      expect(rebuilt.getCurrentRound()).toBe(1);
+      expect(rebuilt.getNextExpectedStep().type).toBe(NextStepType.WAITING_FOR_BUG_INJECTION);
+    });
+
+    it('should reject event streams that break the game rules', () => {
+      // Bug injection without a baseline
+      const events = [
+        ...multiBugRound().slice(0, 2),
+        event(EventType.BUG_INJECTION_COMPLETED, { participant: 'agent-b' }),
+      ];
+
+      expect(() => Game.fromEvents(events)).toThrow(GameError);
+    });
+  });
+
   describe('Multi-Round Game', () => {
     it('should handle complete 3-round game correctly', () => {
       // Round 1: A baseline, B bug, C fixes
@@ -241,18 +438,125 @@ describe('Game', () => {
         {
           participantId: participantC.getValue(),
           score: 2,
-          details: { fixes: 1, bugsSolved: 1, baselineFailures: 0, bugInjectionFailures: 0 },
+          details: {
+            fixes: 1,
+            bugsInjected: 1,
+            bugsSolved: 1,
+            baselineFailures: 0,
+            bugInjectionFailures: 0,
+          },
         },
         {
           participantId: participantB.getValue(),
           score: 1,
-          details: { fixes: 1, bugsSolved: 0, baselineFailures: 0, bugInjectionFailures: 0 },
+          details: {
+            fixes: 1,
+            bugsInjected: 1,
+            bugsSolved: 0,
+            baselineFailures: 0,
+            bugInjectionFailures: 0,
+          },
+        },
+        {
+          participantId: participantA.getValue(),
+          score: 0,
+          details: {
+            fixes: 0,
+            bugsInjected: 1,
+            bugsSolved: 0,
+            baselineFailures: 0,
+            bugInjectionFailures: 0,
+          },
         },
       ]);
       expect(summary.totalRounds).toBe(3);
     });
   });
 
+  describe('Multi-Bug Rounds', () => {
+    let participantD: ParticipantId;
+
+    beforeEach(() => {
+      participantD = ParticipantId.fromString('agent-d');
+      game.startRound(1, participantA, 'multi-bug');
+      game.recordBaselineSuccess(participantA);
+    });
+
+    it('should keep collecting bugs until bug injection is completed', () => {
+      game.recordBugInjectionSuccess(participantB);
+      game.recordBugInjectionSuccess(participantC);
+
+      expect(game.getNextExpectedStep().type).toBe(NextStepType.WAITING_FOR_BUG_INJECTION);
+
+      game.completeBugInjection();
+
+      expect(game.getNextExpectedStep()).toEqual({
+        type: NextStepType.WAITING_FOR_FIX_ATTEMPTS,
+        description: 'Waiting for participants to attempt bug fixes',
+        excludedParticipants: [participantA.getValue()],
+      });
+    });
+
+    it('should let bug authors fix each other but not their own bug', () => {
+      game.recordBugInjectionSuccess(participantB);
+      game.recordBugInjectionSuccess(participantC);
+      game.completeBugInjection();
+
+      expect(() => game.recordFixSuccess(participantC, participantB)).not.toThrow();
+      expect(() => game.recordFixSuccess(participantC, participantC)).toThrow(GameError);
+    });
+
+    it('should require the bug author when several bugs are active', () => {
+      game.recordBugInjectionSuccess(participantB);
+      game.recordBugInjectionSuccess(participantC);
+      game.completeBugInjection();
+
+      expect(() => game.recordFixSuccess(participantD)).toThrow(
+        'Bug author must be specified when a round has several bugs'
+      );
+    });
+
+    it('should reject a second bug injection by the same participant', () => {
+      game.recordBugInjectionSuccess(participantB);
+
+      expect(() => game.recordBugInjectionFailure(participantB)).toThrow(GameError);
+    });
+
+    it('should score every bug independently', () => {
+      game.recordBugInjectionSuccess(participantB);
+      game.recordBugInjectionSuccess(participantC);
+      game.recordBugInjectionFailure(participantD);
+      game.completeBugInjection();
+
+      // B's bug: C fixes first, D fixes too late for a point
+      game.recordFixSuccess(participantC, participantB);
+      game.recordFixSuccess(participantD, participantB);
+      // C's bug: nobody fixes it
+      game.recordFixFailure(participantB, participantC);
+      game.recordFixFailure(participantD, participantC);
+
+      expect(game.getNextExpectedStep().type).toBe(NextStepType.READY_TO_FINISH_ROUND);
+      game.finishRound();
+
+      expect(game.getScore(participantA)).toBe(0);
+      expect(game.getScore(participantB)).toBe(0);
+      expect(game.getScore(participantC)).toBe(3);
+      expect(game.getScore(participantD)).toBe(-1);
+    });
+
+    it('should finish the round without fixes when every bug injection failed', () => {
+      game.recordBugInjectionFailure(participantB);
+      game.recordBugInjectionFailure(participantC);
+      game.completeBugInjection();
+
+      expect(game.getNextExpectedStep()).toEqual({
+        type: NextStepType.READY_TO_FINISH_ROUND,
+        description: 'Round can be finished - bug injection failed',
+      });
+      expect(() => game.recordFixSuccess(participantD)).toThrow(GameError);
+    });
+  });
+
   describe('Next Expected Step', () => {
     it('should indicate waiting for round start when game is fresh', () => {
       const nextStep = game.getNextExpectedStep();
@@ -3,6 +3,7 @@
 
 import { ParticipantId } from 'domain/competition-event/participant-id';
 import { NextStep, NextStepType } from './next-step';
+import { BugState } from './game-state';
 
 export abstract class GamePhase {
   abstract getNextExpectedStep(): NextStep;
@@ -48,24 +49,28 @@ export class BugInjectionPhase extends GamePhase {
 export class FixAttemptsPhase extends GamePhase {
   constructor(
     private readonly baselineAuthor: ParticipantId,
-    private readonly bugAuthor: ParticipantId,
-    private readonly fixAttempts: ReadonlyMap<string, boolean>
+    private readonly bugs: ReadonlyMap<string, BugState>
   ) {
     super();
   }
 
   getNextExpectedStep(): NextStep {
-    if (this.fixAttempts.size > 0) {
+    const bugs = Array.from(this.bugs.values());
+    if (bugs.every(bug => bug.fixAttempts.size > 0)) {
       return {
         type: NextStepType.READY_TO_FINISH_ROUND,
         description: 'Round can be finished - bug injection completed and fix attempts made',
       };
     }
 
+    // A bug author can still fix the bugs of others, so they are only excluded for a lone bug
+    const onlyBug = bugs.length === 1 ? bugs[0] : undefined;
     return {
       type: NextStepType.WAITING_FOR_FIX_ATTEMPTS,
       description: 'Waiting for participants to attempt bug fixes',
-      excludedParticipants: [this.baselineAuthor.getValue(), this.bugAuthor.getValue()],
+      excludedParticipants: onlyBug
+        ? [this.baselineAuthor.getValue(), onlyBug.author.getValue()]
+        : [this.baselineAuthor.getValue()],
     };
   }
 }
@@ -0,0 +1,33 @@
+// ABOUTME: Events describing every state transition of a competition round
+// GameStateManager folds these into GameState, so any round can be rebuilt from its history
+
+import { ParticipantId } from 'domain/competition-event/participant-id';
+import { RoundMode } from './game-state';
+
+export type GameStateEvent =
+  | {
+      readonly type: 'ROUND_STARTED';
+      readonly roundNumber: number;
+      readonly baselineAuthor: ParticipantId;
+      readonly roundMode: RoundMode;
+    }
+  | { readonly type: 'BASELINE_SUCCEEDED' }
+  | { readonly type: 'BASELINE_FAILED' }
+  | {
+      readonly type: 'BUG_INJECTION_ATTEMPTED';
+      readonly author: ParticipantId;
+      readonly success: boolean;
+    }
+  | { readonly type: 'BUG_INJECTION_CLOSED' }
+  | {
+      readonly type: 'FIX_ATTEMPTED';
+      readonly participant: ParticipantId;
+      readonly bugAuthor: ParticipantId;
+      readonly success: boolean;
+    }
+  | { readonly type: 'ROUND_FINISHED' };
+
+export type GameStateEventOf<T extends GameStateEvent['type']> = Extract<
+  GameStateEvent,
+  { type: T }
+>;
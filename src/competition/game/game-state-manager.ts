@@ -1,8 +1,9 @@
 // ABOUTME: State machine manager enforcing valid phase transitions in competition rounds
-// Handles state mutations while maintaining immutability and validation
+// Every transition is an event handler, so state is the fold of the events applied so far
 
 import { ParticipantId } from 'domain/competition-event/participant-id';
-import { GameState } from './game-state';
+import { BugState, GameState } from './game-state';
+import { GameStateEvent, GameStateEventOf } from './game-state-event';
 import { GameError } from './game-error';
 import {
   IdlePhase,
@@ -14,35 +15,70 @@ import {
 import { NextStep } from './next-step';
 
 export class GameStateManager {
-  private state: GameState = {
-    phase: 'IDLE',
-    phaseHandler: new IdlePhase(),
-    baselineSuccess: false,
-    bugInjectionSuccess: false,
-    fixAttempts: new Map(),
-  };
+  private state: GameState = this.createIdleState();
 
   getCurrentState(): GameState {
     return this.state;
   }
 
-  startRound(roundNumber: number, author: ParticipantId): void {
+  apply(event: GameStateEvent): void {
+    switch (event.type) {
+      case 'ROUND_STARTED':
+        return this.onRoundStarted(event);
+      case 'BASELINE_SUCCEEDED':
+        return this.onBaselineSucceeded();
+      case 'BASELINE_FAILED':
+        return this.onBaselineFailed();
+      case 'BUG_INJECTION_ATTEMPTED':
+        return this.onBugInjectionAttempted(event);
+      case 'BUG_INJECTION_CLOSED':
+        return this.onBugInjectionClosed();
+      case 'FIX_ATTEMPTED':
+        return this.onFixAttempted(event);
+      case 'ROUND_FINISHED':
+        return this.onRoundFinished();
+    }
+  }
+
+  getNextExpectedStep(): NextStep {
+    return this.state.phaseHandler.getNextExpectedStep();
+  }
+
+  getActiveBug(bugAuthor?: ParticipantId): BugState {
+    if (bugAuthor) {
+      const bug = this.state.bugs.get(bugAuthor.getValue());
+      if (!bug) {
+        throw new GameError(`No bug from ${bugAuthor.getValue()} in this round`);
+      }
+      return bug;
+    }
+
+    const bugs = Array.from(this.state.bugs.values());
+    if (bugs.length === 0) {
+      throw new GameError('No bug has been injected in this round');
+    }
+    if (bugs.length > 1) {
+      throw new GameError('Bug author must be specified when a round has several bugs');
+    }
+    return bugs[0] as BugState;
+  }
+
+  private onRoundStarted(event: GameStateEventOf<'ROUND_STARTED'>): void {
     if (this.state.phase !== 'IDLE') {
       throw new GameError('Cannot start round while another is active');
     }
 
     this.state = {
+      ...this.createIdleState(),
       phase: 'BASELINE',
-      phaseHandler: new BaselinePhase(author),
-      roundNumber,
-      baselineAuthor: author,
-      baselineSuccess: false,
-      bugInjectionSuccess: false,
-      fixAttempts: new Map(),
+      phaseHandler: new BaselinePhase(event.baselineAuthor),
+      roundMode: event.roundMode,
+      roundNumber: event.roundNumber,
+      baselineAuthor: event.baselineAuthor,
     };
   }
 
-  recordBaselineSuccess(): void {
+  private onBaselineSucceeded(): void {
     if (this.state.phase !== 'BASELINE') {
       throw new GameError('Not in baseline phase');
     }
@@ -58,7 +94,7 @@ export class GameStateManager {
     };
   }
 
-  recordBaselineFailure(): void {
+  private onBaselineFailed(): void {
     if (this.state.phase !== 'BASELINE') {
       throw new GameError('Not in baseline phase');
     }
@@ -71,84 +107,102 @@ export class GameStateManager {
     };
   }
 
-  recordBugInjectionSuccess(author: ParticipantId): void {
+  private onBugInjectionAttempted(event: GameStateEventOf<'BUG_INJECTION_ATTEMPTED'>): void {
+    const { author, success } = event;
     if (this.state.phase !== 'BUG_INJECTION') {
       throw new GameError('Not in bug injection phase');
     }
-    if (!this.state.baselineAuthor) {
-      throw new GameError('Invalid state: baseline author not set');
+    if (this.state.bugInjectionAttempts.has(author.getValue())) {
+      throw new GameError('Participant already attempted a bug injection this round');
     }
 
-    this.state = {
-      ...this.state,
-      phase: 'FIX_ATTEMPTS',
-      phaseHandler: new FixAttemptsPhase(this.state.baselineAuthor, author, this.state.fixAttempts),
-      bugAuthor: author,
-      bugInjectionSuccess: true,
-    };
+    const bugInjectionAttempts = new Map(this.state.bugInjectionAttempts);
+    bugInjectionAttempts.set(author.getValue(), success);
+    this.state = { ...this.state, bugInjectionAttempts };
+
+    if (success) {
+      const bugs = new Map(this.state.bugs);
+      bugs.set(author.getValue(), { author, fixAttempts: new Map() });
+      this.state = { ...this.state, bugs, bugInjectionSuccess: true };
+    }
+
+    // A single-bug round moves on as soon as its one bug injection attempt is in
+    if (this.state.roundMode === 'single-bug') {
+      this.onBugInjectionClosed();
+    }
   }
 
-  recordBugInjectionFailure(): void {
+  private onBugInjectionClosed(): void {
     if (this.state.phase !== 'BUG_INJECTION') {
       throw new GameError('Not in bug injection phase');
     }
+    if (!this.state.baselineAuthor) {
+      throw new GameError('Invalid state: baseline author not set');
+    }
+    if (this.state.bugInjectionAttempts.size === 0) {
+      throw new GameError('Cannot close bug injection before any attempt was made');
+    }
+
+    if (this.state.bugs.size === 0) {
+      this.state = {
+        ...this.state,
+        phase: 'ROUND_COMPLETE',
+        phaseHandler: new RoundCompletePhase(true, false),
+        bugInjectionSuccess: false,
+      };
+      return;
+    }
 
     this.state = {
       ...this.state,
-      phase: 'ROUND_COMPLETE',
-      phaseHandler: new RoundCompletePhase(true, false),
-      bugInjectionSuccess: false,
+      phase: 'FIX_ATTEMPTS',
+      phaseHandler: new FixAttemptsPhase(this.state.baselineAuthor, this.state.bugs),
     };
   }
 
-  recordFixAttempt(participant: ParticipantId, success: boolean): void {
+  private onFixAttempted(event: GameStateEventOf<'FIX_ATTEMPTED'>): void {
+    const { participant, bugAuthor, success } = event;
     if (this.state.phase !== 'FIX_ATTEMPTS') {
       throw new GameError('Not in fix attempts phase');
     }
-    if (!this.state.baselineAuthor || !this.state.bugAuthor) {
-      throw new GameError('Invalid state: baseline or bug author not set');
+    if (!this.state.baselineAuthor) {
+      throw new GameError('Invalid state: baseline author not set');
     }
 
-    const newFixAttempts = new Map(this.state.fixAttempts);
-    newFixAttempts.set(participant.getValue(), success);
+    const bug = this.state.bugs.get(bugAuthor.getValue());
+    if (!bug) {
+      throw new GameError(`No bug from ${bugAuthor.getValue()} in this round`);
+    }
+
+    const fixAttempts = new Map(bug.fixAttempts);
+    fixAttempts.set(participant.getValue(), success);
+    const bugs = new Map(this.state.bugs);
+    bugs.set(bugAuthor.getValue(), { ...bug, fixAttempts });
 
     this.state = {
       ...this.state,
-      phaseHandler: new FixAttemptsPhase(
-        this.state.baselineAuthor,
-        this.state.bugAuthor,
-        newFixAttempts
-      ),
-      fixAttempts: newFixAttempts,
+      phaseHandler: new FixAttemptsPhase(this.state.baselineAuthor, bugs),
+      bugs,
     };
   }
 
-  finishRound(): void {
+  private onRoundFinished(): void {
     if (this.state.phase !== 'FIX_ATTEMPTS' && this.state.phase !== 'ROUND_COMPLETE') {
       throw new GameError('Cannot finish incomplete round');
     }
 
-    this.state = {
-      ...this.state,
-      phase: 'ROUND_COMPLETE',
-      phaseHandler: new RoundCompletePhase(
-        this.state.baselineSuccess,
-        this.state.bugInjectionSuccess
-      ),
-    };
+    this.state = this.createIdleState();
   }
 
-  reset(): void {
-    this.state = {
+  private createIdleState(): GameState {
+    return {
       phase: 'IDLE',
       phaseHandler: new IdlePhase(),
+      roundMode: 'single-bug',
       baselineSuccess: false,
       bugInjectionSuccess: false,
-      fixAttempts: new Map(),
+      bugInjectionAttempts: new Map(),
+      bugs: new Map(),
     };
   }
-
-  getNextExpectedStep(): NextStep {
-    return this.state.phaseHandler.getNextExpectedStep();
-  }
 }
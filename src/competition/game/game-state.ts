@@ -4,13 +4,21 @@
 import { ParticipantId } from 'domain/competition-event/participant-id';
 import { GamePhase } from './game-phases';
 
+export type RoundMode = 'single-bug' | 'multi-bug';
+
+export interface BugState {
+  readonly author: ParticipantId;
+  readonly fixAttempts: ReadonlyMap<string, boolean>;
+}
+
 export interface GameState {
   readonly phase: 'IDLE' | 'BASELINE' | 'BUG_INJECTION' | 'FIX_ATTEMPTS' | 'ROUND_COMPLETE';
   readonly phaseHandler: GamePhase;
+  readonly roundMode: RoundMode;
   readonly roundNumber?: number;
   readonly baselineAuthor?: ParticipantId;
-  readonly bugAuthor?: ParticipantId;
+  readonly bugInjectionAttempts: ReadonlyMap<string, boolean>;
+  readonly bugs: ReadonlyMap<string, BugState>;
   readonly baselineSuccess: boolean;
   readonly bugInjectionSuccess: boolean;
-  readonly fixAttempts: ReadonlyMap<string, boolean>;
 }
@@ -2,6 +2,7 @@
 // Defines structure for participant scores and overall game statistics
 
 import { ScoreCard } from './score-card';
+import { ScoringRules } from './scoring-rules';
 
 export interface ParticipantScore {
   readonly participantId: string;
@@ -12,4 +13,6 @@ export interface ParticipantScore {
 export interface GameSummary {
   readonly participantScores: ParticipantScore[];
   readonly totalRounds: number;
+  // Scores are only comparable between games played under the same rules
+  readonly scoringRules: ScoringRules;
 }
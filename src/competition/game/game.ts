@@ -2,96 +2,187 @@
 // Provides clean API for competition phases while enforcing business rules
 
 import { ParticipantId } from 'domain/competition-event/participant-id';
+import { Duration } from 'domain/competition-event/duration';
+import { CompetitionEvent } from 'domain/competition-event/competition-event';
+import { EventType } from 'domain/competition-event/event-type';
 import { GameStateManager } from './game-state-manager';
+import { RoundMode } from './game-state';
 import { ParticipantValidator } from './participant-validator';
 import { ScoreKeeper } from './score-keeper';
 import { GameSummary } from './game-summary';
 import { NextStep } from './next-step';
+import {
+  DEFAULT_SCORING_RULES,
+  PhaseWeights,
+  ScoringRules,
+  getBaselineQualityBonus,
+  getFixSpeedBonus,
+  isTriviallyFixed,
+} from './scoring-rules';
 
 export class Game {
   private readonly stateManager = new GameStateManager();
   private readonly scoreKeeper = new ScoreKeeper();
   private completedRounds = 0;
 
+  constructor(private readonly rules: ScoringRules = DEFAULT_SCORING_RULES) {}
+
+  // Folds stored competition events into a game, e.g. to recompute scores under other rules
+  static fromEvents(
+    events: readonly CompetitionEvent[],
+    rules: ScoringRules = DEFAULT_SCORING_RULES
+  ): Game {
+    const game = new Game(rules);
+    const pendingFixAttempts: CompetitionEvent[] = [];
+
+    for (const event of events) {
+      if (event.getEventType() === EventType.FIX_ATTEMPT_COMPLETED) {
+        pendingFixAttempts.push(event);
+        continue;
+      }
+      if (event.getEventType() === EventType.ROUND_COMPLETED) {
+        game.settleFixAttempts(pendingFixAttempts.splice(0), true);
+      }
+      game.applyCompetitionEvent(event);
+    }
+
+    // A round cut short keeps whatever fix attempts had completed
+    if (pendingFixAttempts.length > 0) {
+      game.settleFixAttempts(pendingFixAttempts, false);
+    }
+    return game;
+  }
+
   registerParticipant(participant: ParticipantId): void {
     this.scoreKeeper.registerParticipant(participant);
   }
 
-  startRound(roundNumber: number, baselineAuthor: ParticipantId): void {
-    this.stateManager.startRound(roundNumber, baselineAuthor);
+  startRound(
+    roundNumber: number,
+    baselineAuthor: ParticipantId,
+    mode: RoundMode = 'single-bug'
+  ): void {
+    this.stateManager.apply({
+      type: 'ROUND_STARTED',
+      roundNumber,
+      baselineAuthor,
+      roundMode: mode,
+    });
   }
 
-  recordBaselineSuccess(participant: ParticipantId): void {
+  recordBaselineSuccess(participant: ParticipantId, qualityScore = 0): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateBaselineAuthor(participant, state);
-    this.stateManager.recordBaselineSuccess();
+    this.stateManager.apply({ type: 'BASELINE_SUCCEEDED' });
+    this.award(
+      participant,
+      this.rules.baselineSuccess + getBaselineQualityBonus(this.rules, qualityScore),
+      'baseline'
+    );
   }
 
   recordBaselineFailure(participant: ParticipantId): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateBaselineAuthor(participant, state);
 
-    this.scoreKeeper.adjustScore(participant, -1);
+    this.award(participant, this.rules.baselineFailure, 'baseline');
     this.scoreKeeper.incrementStat(participant, 'baselineFailures');
-    this.stateManager.recordBaselineFailure();
+    this.stateManager.apply({ type: 'BASELINE_FAILED' });
   }
 
   recordBugInjectionSuccess(participant: ParticipantId): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateNotBaselineAuthor(participant, state);
-    this.stateManager.recordBugInjectionSuccess(participant);
+    this.stateManager.apply({
+      type: 'BUG_INJECTION_ATTEMPTED',
+      author: participant,
+      success: true,
+    });
+    this.award(participant, this.rules.bugInjectionSuccess, 'bugInjection');
+    this.scoreKeeper.incrementStat(participant, 'bugsInjected');
   }
 
   recordBugInjectionFailure(participant: ParticipantId): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateNotBaselineAuthor(participant, state);
 
-    this.scoreKeeper.adjustScore(participant, -1);
+    this.stateManager.apply({
+      type: 'BUG_INJECTION_ATTEMPTED',
+      author: participant,
+      success: false,
+    });
+    this.award(participant, this.rules.bugInjectionFailure, 'bugInjection');
     this.scoreKeeper.incrementStat(participant, 'bugInjectionFailures');
-    this.stateManager.recordBugInjectionFailure();
   }
 
-  recordFixSuccess(participant: ParticipantId): void {
+  completeBugInjection(): void {
+    this.stateManager.apply({ type: 'BUG_INJECTION_CLOSED' });
+  }
+
+  recordFixSuccess(
+    participant: ParticipantId,
+    bugAuthor?: ParticipantId,
+    fixDuration: Duration = Duration.notMeasured()
+  ): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateNotBaselineAuthor(participant, state);
-    ParticipantValidator.validateNotBugAuthor(participant, state);
+    const bug = this.stateManager.getActiveBug(bugAuthor);
+    ParticipantValidator.validateNotBugAuthor(participant, bug.author);
 
-    // Only first successful fixer gets the point
-    const hasExistingSuccess = Array.from(state.fixAttempts.values()).some(success => success);
+    // Only first successful fixer of each bug gets the point
+    const hasExistingSuccess = Array.from(bug.fixAttempts.values()).some(success => success);
+    this.stateManager.apply({
+      type: 'FIX_ATTEMPTED',
+      participant,
+      bugAuthor: bug.author,
+      success: true,
+    });
     if (!hasExistingSuccess) {
-      this.scoreKeeper.adjustScore(participant, 1);
+      const fixSeconds = fixDuration.isMeasured() ? (fixDuration.getValue() as number) : undefined;
+      this.award(
+        participant,
+        this.rules.firstFix + getFixSpeedBonus(this.rules, fixSeconds),
+        'fixAttempt'
+      );
       this.scoreKeeper.incrementStat(participant, 'fixes');
-    }
 
-    this.stateManager.recordFixAttempt(participant, true);
+      if (isTriviallyFixed(this.rules, fixSeconds)) {
+        this.award(bug.author, this.rules.trivialBug, 'bugInjection');
+      }
+    }
   }
 
-  recordFixFailure(participant: ParticipantId): void {
+  recordFixFailure(participant: ParticipantId, bugAuthor?: ParticipantId): void {
     const state = this.stateManager.getCurrentState();
     ParticipantValidator.validateNotBaselineAuthor(participant, state);
-    ParticipantValidator.validateNotBugAuthor(participant, state);
+    const bug = this.stateManager.getActiveBug(bugAuthor);
+    ParticipantValidator.validateNotBugAuthor(participant, bug.author);
 
-    this.stateManager.recordFixAttempt(participant, false);
+    this.stateManager.apply({
+      type: 'FIX_ATTEMPTED',
+      participant,
+      bugAuthor: bug.author,
+      success: false,
+    });
   }
 
   finishRound(): void {
     const state = this.stateManager.getCurrentState();
+    this.stateManager.apply({ type: 'ROUND_FINISHED' });
 
-    // Award bug author points for failed fix attempts
-    if (state.bugInjectionSuccess && state.bugAuthor) {
-      const failedAttempts = Array.from(state.fixAttempts.values()).filter(
+    // Award each bug author points for failed attempts at fixing their bug
+    for (const bug of state.bugs.values()) {
+      const failedAttempts = Array.from(bug.fixAttempts.values()).filter(
         success => !success
       ).length;
 
       if (failedAttempts > 0) {
-        this.scoreKeeper.adjustScore(state.bugAuthor, failedAttempts);
-        this.scoreKeeper.incrementStat(state.bugAuthor, 'bugsSolved', failedAttempts);
+        this.award(bug.author, failedAttempts * this.rules.failedFixAttempt, 'bugInjection');
+        this.scoreKeeper.incrementStat(bug.author, 'bugsSolved', failedAttempts);
       }
     }
 
-    this.stateManager.finishRound();
     this.completedRounds++;
-    this.stateManager.reset();
   }
 
   getScore(participant: ParticipantId): number {
@@ -111,6 +202,7 @@ export class Game {
     return {
       participantScores,
       totalRounds: this.completedRounds,
+      scoringRules: this.rules,
     };
   }
 
@@ -122,4 +214,82 @@ export class Game {
   getNextExpectedStep(): NextStep {
     return this.stateManager.getNextExpectedStep();
   }
+
+  private applyCompetitionEvent(event: CompetitionEvent): void {
+    const data = event.getData();
+    const participant = event.getParticipantId();
+
+    switch (event.getEventType()) {
+      case EventType.COMPETITION_STARTED: {
+        const participants = (data.participants as { participantId: string }[] | undefined) ?? [];
+        participants.forEach(({ participantId }) =>
+          this.registerParticipant(ParticipantId.fromString(participantId))
+        );
+        break;
+      }
+      case EventType.ROUND_STARTED:
+        this.startRound(
+          event.getRoundId().getValue() as number,
+          ParticipantId.fromString(data.baselineAuthor as string),
+          data.roundMode === 'multi-bug' ? 'multi-bug' : 'single-bug'
+        );
+        break;
+      case EventType.BASELINE_COMPLETED:
+        if (event.isSuccess()) {
+          this.recordBaselineSuccess(participant, getQualityScore(data));
+        } else {
+          this.recordBaselineFailure(participant);
+        }
+        break;
+      case EventType.BUG_INJECTION_COMPLETED:
+        if (event.isSuccess()) {
+          this.recordBugInjectionSuccess(participant);
+        } else {
+          this.recordBugInjectionFailure(participant);
+        }
+        break;
+      case EventType.ROUND_COMPLETED:
+        this.finishRound();
+        break;
+    }
+  }
+
+  // Fix attempts are logged as their validation ends, but the first provider to finish is the
+  // one credited, so they are applied in order of the completion time recorded with them
+  private settleFixAttempts(attempts: CompetitionEvent[], roundCompleted: boolean): void {
+    const state = this.stateManager.getCurrentState();
+    if (state.phase === 'BUG_INJECTION' && (roundCompleted || attempts.length > 0)) {
+      this.completeBugInjection();
+    }
+
+    const completedAt = (event: CompetitionEvent) => {
+      const recorded = event.getData().completedAt;
+      return typeof recorded === 'string' ? Date.parse(recorded) : event.getTimestamp().getTime();
+    };
+    const ordered = [...attempts].sort((a, b) => completedAt(a) - completedAt(b));
+
+    for (const event of ordered) {
+      const bugAuthor = event.getData().bugAuthor;
+      const bug = typeof bugAuthor === 'string' ? ParticipantId.fromString(bugAuthor) : undefined;
+      if (event.isSuccess()) {
+        this.recordFixSuccess(event.getParticipantId(), bug, event.getDuration());
+      } else {
+        this.recordFixFailure(event.getParticipantId(), bug);
+      }
+    }
+  }
+
+  private award(participant: ParticipantId, points: number, phase: keyof PhaseWeights): void {
+    const weighted = Math.round(points * this.rules.phaseWeights[phase] * 100) / 100;
+    if (weighted !== 0) {
+      this.scoreKeeper.adjustScore(participant, weighted);
+    }
+  }
+}
+
+// Baselines recorded before quality was measured score as if they had none
+export function getQualityScore(data: Record<string, unknown>): number {
+  const validation = data.validation as { quality?: { score?: unknown } } | undefined;
+  const score = validation?.quality?.score;
+  return typeof score === 'number' ? score : 0;
 }
@@ -18,8 +18,8 @@ export class ParticipantValidator {
     }
   }
 
-  static validateNotBugAuthor(participant: ParticipantId, state: GameState): void {
-    if (state.bugAuthor && participant.getValue() === state.bugAuthor.getValue()) {
+  static validateNotBugAuthor(participant: ParticipantId, bugAuthor: ParticipantId): void {
+    if (participant.getValue() === bugAuthor.getValue()) {
       throw new GameError('Bug author cannot fix their own bug');
     }
   }
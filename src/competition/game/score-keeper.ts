@@ -42,6 +42,12 @@ export class ScoreKeeper {
   }
 
   private createEmptyScoreCard(): ScoreCard {
-    return { fixes: 0, bugsSolved: 0, baselineFailures: 0, bugInjectionFailures: 0 };
+    return {
+      fixes: 0,
+      bugsInjected: 0,
+      bugsSolved: 0,
+      baselineFailures: 0,
+      bugInjectionFailures: 0,
+    };
   }
 }
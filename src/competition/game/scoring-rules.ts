@@ -0,0 +1,62 @@
+// ABOUTME: Scoring rules deciding how many points each competition outcome is worth
+// Defaults reproduce the original fixed scoring; the active rules travel with the game summary
+
+export interface PhaseWeights {
+  readonly baseline: number;
+  readonly bugInjection: number;
+  readonly fixAttempt: number;
+}
+
+export interface ScoringRules {
+  readonly name: string;
+  readonly baselineSuccess: number;
+  readonly baselineFailure: number;
+  // Extra points for a passing baseline, scaled by its quality score from 0 to 1
+  readonly baselineQuality: number;
+  readonly bugInjectionSuccess: number;
+  readonly bugInjectionFailure: number;
+  // Awarded to the first participant to fix each bug
+  readonly firstFix: number;
+  // Extra points for the first fixer, shrinking linearly to zero over the speed window
+  readonly fixSpeedBonus: number;
+  readonly fixSpeedWindowSeconds: number;
+  // Awarded to a bug author for every failed attempt at fixing their bug
+  readonly failedFixAttempt: number;
+  // Awarded (usually negative) to a bug author whose bug is fixed within the trivial fix window
+  readonly trivialBug: number;
+  readonly trivialFixSeconds: number;
+  readonly phaseWeights: PhaseWeights;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  name: 'classic',
+  baselineSuccess: 0,
+  baselineFailure: -1,
+  baselineQuality: 0,
+  bugInjectionSuccess: 0,
+  bugInjectionFailure: -1,
+  firstFix: 1,
+  fixSpeedBonus: 0,
+  fixSpeedWindowSeconds: 180,
+  failedFixAttempt: 1,
+  trivialBug: 0,
+  trivialFixSeconds: 0,
+  phaseWeights: { baseline: 1, bugInjection: 1, fixAttempt: 1 },
+};
+
+export function getFixSpeedBonus(rules: ScoringRules, fixSeconds: number | undefined): number {
+  if (fixSeconds === undefined || rules.fixSpeedWindowSeconds <= 0) {
+    return 0;
+  }
+  const remaining = Math.max(0, 1 - fixSeconds / rules.fixSpeedWindowSeconds);
+  return Math.round(rules.fixSpeedBonus * remaining * 100) / 100;
+}
+
+export function getBaselineQualityBonus(rules: ScoringRules, qualityScore: number): number {
+  const score = Math.min(1, Math.max(0, qualityScore));
+  return Math.round(rules.baselineQuality * score * 100) / 100;
+}
+
+export function isTriviallyFixed(rules: ScoringRules, fixSeconds: number | undefined): boolean {
+  return fixSeconds !== undefined && fixSeconds <= rules.trivialFixSeconds;
+}
@@ -0,0 +1,99 @@
+// ABOUTME: Tests for ProviderExecutionService time limits and aborting providers that run past them
+// Providers with their own phase timeouts get those plus a margin instead of the fixed limits
+
+import { describe, it, expect } from 'vitest';
+import { setTimeout as delay } from 'timers/promises';
+import {
+  DEFAULT_EXECUTION_CONFIG,
+  ProviderExecutionService,
+} from './services/provider-execution-service';
+import { LLMProvider, ProviderPhaseTimeouts } from 'domain/llm-provider/llm-provider';
+import { MockProvider } from 'providers/mock-provider/mock-provider';
+import { ClaudeCodeProvider } from 'providers/claude-code-provider/claude-code-provider';
+import { DEFAULT_CLAUDE_CODE_CONFIG } from 'providers/claude-code-provider/claude-code-config';
+
+// Fix attempts that take `durationMs` unless aborted, recording when they noticed the abort
+class SlowProvider implements LLMProvider {
+  readonly name = 'slow-provider';
+  aborted = false;
+
+  constructor(
+    private readonly durationMs: number,
+    readonly phaseTimeouts?: ProviderPhaseTimeouts
+  ) {}
+
+  async createCodingExercise(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: 'created' };
+  }
+
+  async injectBug(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: 'injected' };
+  }
+
+  async fixAttempt(
+    _buggyDir: string,
+    _workspaceDir: string,
+    _prompt: string,
+    signal?: AbortSignal
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await delay(this.durationMs, undefined, signal ? { signal } : {});
+      return { success: true, message: 'fixed' };
+    } catch {
+      // Winding down takes a moment, which the runner has to wait for
+      await delay(20);
+      this.aborted = true;
+      return { success: false, message: 'stopped' };
+    }
+  }
+}
+
+const SHORT_LIMITS = {
+  baselineTimeoutMs: 50,
+  bugInjectionTimeoutMs: 50,
+  fixAttemptTimeoutMs: 50,
+  timeoutMarginMs: 50,
+  abortGraceMs: 1000,
+};
+
+describe('ProviderExecutionService', () => {
+  it('should give providers with their own phase timeouts those plus the margin', () => {
+    const service = new ProviderExecutionService();
+    const patient = new ClaudeCodeProvider({
+      ...DEFAULT_CLAUDE_CODE_CONFIG,
+      bugInjectionTimeoutMs: 240000,
+      fixAttemptTimeoutMs: 600000,
+    });
+
+    expect(service.getTimeoutMs(patient, 'bugInjectionTimeoutMs')).toBe(
+      240000 + DEFAULT_EXECUTION_CONFIG.timeoutMarginMs
+    );
+    expect(service.getTimeoutMs(patient, 'fixAttemptTimeoutMs')).toBe(
+      600000 + DEFAULT_EXECUTION_CONFIG.timeoutMarginMs
+    );
+    expect(service.getTimeoutMs(new MockProvider(), 'bugInjectionTimeoutMs')).toBe(180000);
+  });
+
+  it('should let a phase run past the fixed limit when the provider allows it', async () => {
+    const service = new ProviderExecutionService(SHORT_LIMITS);
+    const provider = new SlowProvider(150, {
+      baselineTimeoutMs: 300,
+      bugInjectionTimeoutMs: 300,
+      fixAttemptTimeoutMs: 300,
+    });
+
+    const result = await service.executeFixAttempt(provider, '/buggy', '/fix', 'Fix it');
+
+    expect(result._unsafeUnwrap().result).toEqual({ success: true, message: 'fixed' });
+  });
+
+  it('should abort a provider that runs past its limit and wait for it to stop', async () => {
+    const service = new ProviderExecutionService(SHORT_LIMITS);
+    const provider = new SlowProvider(5000);
+
+    const result = await service.executeFixAttempt(provider, '/buggy', '/fix', 'Fix it');
+
+    expect(result._unsafeUnwrapErr().message).toBe('Fix attempt exceeded time limit');
+    expect(provider.aborted).toBe(true);
+  });
+});
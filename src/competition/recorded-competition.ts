@@ -0,0 +1,180 @@
+// ABOUTME: Read model of a persisted competition, rebuilt from its events to resume an interrupted run
+// Holds the setup recorded at start and the outcome of every phase that had completed
+
+import { CompetitionEvent } from 'domain/competition-event/competition-event';
+import { Duration } from 'domain/competition-event/duration';
+import { EventType } from 'domain/competition-event/event-type';
+import { Phase } from 'domain/competition-event/phase';
+import { getQualityScore } from './game/game';
+import { RoundMode } from './game/game-state';
+import { DEFAULT_SCORING_RULES, ScoringRules } from './game/scoring-rules';
+import { parseScoringRules } from './services/scoring-rules-loader';
+import { parseChallengeSpecs } from './services/challenge-spec-loader';
+import { ChallengeSpec } from 'domain/competition-prompts/challenge-spec';
+import { SandboxConfig } from 'infrastructure/contract-validator/sandboxed-make-executor';
+import { DEFAULT_MAKE_LIMITS, MakeLimits } from 'infrastructure/contract-validator/make-executor';
+import { DependencyCacheConfig } from 'infrastructure/workspace/dependency-cache';
+
+export interface RecordedParticipant {
+  readonly participantId: string;
+  readonly provider: string;
+  readonly config?: Readonly<Record<string, unknown>> | undefined;
+}
+
+export interface RecordedRoundOrder {
+  readonly round: number;
+  readonly order: readonly string[];
+}
+
+export interface RecordedPhaseOutcome {
+  readonly success: boolean;
+  readonly duration: Duration;
+  readonly completedAt: Date;
+  // Quality score of a baseline, from its optional build, lint and coverage targets
+  readonly qualityScore: number;
+}
+
+const PHASE_COMPLETED_EVENTS: ReadonlySet<EventType> = new Set([
+  EventType.BASELINE_COMPLETED,
+  EventType.BUG_INJECTION_COMPLETED,
+  EventType.FIX_ATTEMPT_COMPLETED,
+]);
+
+export class RecordedCompetition {
+  private constructor(
+    readonly competitionId: string,
+    readonly totalRounds: number,
+    readonly roundMode: RoundMode,
+    readonly scoringRules: ScoringRules,
+    // Make targets of a sandboxed competition must never fall back to the host when resumed
+    readonly sandbox: SandboxConfig | null,
+    readonly validationRuns: number,
+    readonly makeLimits: MakeLimits,
+    readonly dependencyCache: DependencyCacheConfig | null,
+    readonly challenges: readonly ChallengeSpec[],
+    readonly participants: readonly RecordedParticipant[],
+    readonly workspaceDir: string,
+    readonly schedule: readonly RecordedRoundOrder[],
+    readonly completed: boolean,
+    private readonly startedRounds: ReadonlySet<number>,
+    private readonly completedRounds: ReadonlySet<number>,
+    private readonly outcomes: ReadonlyMap<string, RecordedPhaseOutcome>
+  ) {}
+
+  static fromEvents(events: readonly CompetitionEvent[]): RecordedCompetition {
+    const startEvent = events.find(e => e.getEventType() === EventType.COMPETITION_STARTED);
+    if (!startEvent) {
+      throw new Error('No COMPETITION_STARTED event found for this competition');
+    }
+    const competitionId = startEvent.getCompetitionId().getValue();
+    const data = startEvent.getData();
+
+    const { roleAssignment, workspaceDir } = data as {
+      roleAssignment?: { rounds?: RecordedRoundOrder[] };
+      workspaceDir?: unknown;
+    };
+    if (!roleAssignment?.rounds || typeof workspaceDir !== 'string') {
+      throw new Error(
+        `Competition ${competitionId} was recorded without a role schedule or workspace and cannot be resumed`
+      );
+    }
+
+    let scoringRules = DEFAULT_SCORING_RULES;
+    if (data.scoringRules !== undefined) {
+      const rulesResult = parseScoringRules(data.scoringRules);
+      if (rulesResult.isErr()) {
+        throw new Error(
+          `Competition ${competitionId} has invalid scoring rules: ${rulesResult.error.message}`
+        );
+      }
+      scoringRules = rulesResult.value;
+    }
+
+    let challenges: readonly ChallengeSpec[] = [];
+    if (Array.isArray(data.challenges) && data.challenges.length > 0) {
+      const challengesResult = parseChallengeSpecs(data.challenges);
+      if (challengesResult.isErr()) {
+        throw new Error(
+          `Competition ${competitionId} has invalid challenges: ${challengesResult.error.message}`
+        );
+      }
+      challenges = challengesResult.value;
+    }
+
+    const startedRounds = new Set<number>();
+    const completedRounds = new Set<number>();
+    const outcomes = new Map<string, RecordedPhaseOutcome>();
+
+    for (const event of events) {
+      const round = event.getRoundId().getValue();
+      if (typeof round !== 'number') continue;
+
+      if (event.getEventType() === EventType.ROUND_STARTED) {
+        startedRounds.add(round);
+      } else if (event.getEventType() === EventType.ROUND_COMPLETED) {
+        completedRounds.add(round);
+      } else if (PHASE_COMPLETED_EVENTS.has(event.getEventType()) && !event.isSystemEvent()) {
+        const eventData = event.getData();
+        const completedAt =
+          typeof eventData.completedAt === 'string'
+            ? new Date(eventData.completedAt)
+            : event.getTimestamp();
+        const bugAuthor = typeof eventData.bugAuthor === 'string' ? eventData.bugAuthor : undefined;
+        outcomes.set(
+          outcomeKey(event.getPhase(), round, event.getParticipantId().getValue(), bugAuthor),
+          {
+            success: event.isSuccess(),
+            duration: event.getDuration(),
+            completedAt,
+            qualityScore: getQualityScore(eventData),
+          }
+        );
+      }
+    }
+
+    return new RecordedCompetition(
+      competitionId,
+      typeof data.totalRounds === 'number' ? data.totalRounds : roleAssignment.rounds.length,
+      data.roundMode === 'multi-bug' ? 'multi-bug' : 'single-bug',
+      scoringRules,
+      (data.sandbox as SandboxConfig | null | undefined) ?? null,
+      typeof data.validationRuns === 'number' ? data.validationRuns : 1,
+      (data.makeLimits as MakeLimits | undefined) ?? DEFAULT_MAKE_LIMITS,
+      (data.dependencyCache as DependencyCacheConfig | null | undefined) ?? null,
+      challenges,
+      (data.participants as RecordedParticipant[] | undefined) ?? [],
+      workspaceDir,
+      roleAssignment.rounds,
+      events.some(e => e.getEventType() === EventType.COMPETITION_COMPLETED),
+      startedRounds,
+      completedRounds,
+      outcomes
+    );
+  }
+
+  isRoundStarted(round: number): boolean {
+    return this.startedRounds.has(round);
+  }
+
+  isRoundCompleted(round: number): boolean {
+    return this.completedRounds.has(round);
+  }
+
+  getNextRound(): number {
+    const next = this.schedule.find(({ round }) => !this.completedRounds.has(round));
+    return next ? next.round : this.totalRounds + 1;
+  }
+
+  getPhaseOutcome(
+    phase: Phase,
+    round: number,
+    participant: string,
+    bugAuthor?: string
+  ): RecordedPhaseOutcome | undefined {
+    return this.outcomes.get(outcomeKey(phase, round, participant, bugAuthor));
+  }
+}
+
+function outcomeKey(phase: Phase, round: number, participant: string, bugAuthor?: string): string {
+  return [phase, round, participant, bugAuthor ?? ''].join('|');
+}
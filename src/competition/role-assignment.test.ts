@@ -0,0 +1,125 @@
+// ABOUTME: Tests for role assignment strategies deciding baseline authors, bug injectors and fixers
+// Verifies role balance over full cycles, pairing balance for Latin squares and seeded reproducibility
+
+import { describe, it, expect } from 'vitest';
+import { ParticipantId } from 'domain/competition-event/participant-id';
+import { RoleAssignmentStrategy, planRoleSchedule } from './roles/role-assignment-strategy';
+import { RoundRobinAssignment } from './roles/round-robin-assignment';
+import { LatinSquareAssignment } from './roles/latin-square-assignment';
+import { SeededRandomAssignment } from './roles/seeded-random-assignment';
+import { createRoleAssignment } from './roles/create-role-assignment';
+
+const createParticipants = (count: number): ParticipantId[] =>
+  Array.from({ length: count }, (_, index) => ParticipantId.fromString(`agent-${index + 1}`));
+
+const orderOf = (strategy: RoleAssignmentStrategy, participants: ParticipantId[], round: number) =>
+  strategy.assignRound(participants, round).order.map(p => p.getValue());
+
+describe('Role Assignment', () => {
+  const strategies: RoleAssignmentStrategy[] = [
+    new RoundRobinAssignment(),
+    new LatinSquareAssignment(),
+    new SeededRandomAssignment(42),
+  ];
+
+  describe.each(strategies.map(strategy => [strategy.name, strategy] as const))(
+    '%s',
+    (_name, strategy) => {
+      it.each([3, 4, 5])('should balance every role over full cycles of %i participants', size => {
+        const participants = createParticipants(size);
+        const rounds = strategy.getCycleLength(size) * 2;
+
+        const schedule = planRoleSchedule(strategy, participants, rounds);
+
+        expect(schedule.balanced).toBe(true);
+        const expected = rounds / size;
+        for (const counts of Object.values(schedule.roleCounts)) {
+          expect(counts).toEqual({
+            baseline: expected,
+            bugInjection: expected,
+            fixAttempt: expected,
+          });
+        }
+      });
+
+      it('should include every participant exactly once in each round order', () => {
+        const participants = createParticipants(4);
+
+        for (let round = 1; round <= 8; round++) {
+          const order = orderOf(strategy, participants, round);
+          expect(new Set(order).size).toBe(4);
+        }
+      });
+    }
+  );
+
+  it('should report an unbalanced schedule when rounds stop mid-cycle', () => {
+    const schedule = planRoleSchedule(new RoundRobinAssignment(), createParticipants(3), 2);
+
+    expect(schedule.balanced).toBe(false);
+    expect(schedule.roleCounts['agent-3']).toEqual({
+      baseline: 0,
+      bugInjection: 1,
+      fixAttempt: 1,
+    });
+  });
+
+  it('should rotate round-robin roles one participant per round', () => {
+    const participants = createParticipants(3);
+
+    expect(orderOf(new RoundRobinAssignment(), participants, 1)).toEqual([
+      'agent-1',
+      'agent-2',
+      'agent-3',
+    ]);
+    expect(orderOf(new RoundRobinAssignment(), participants, 2)).toEqual([
+      'agent-2',
+      'agent-3',
+      'agent-1',
+    ]);
+  });
+
+  it('should let every participant play right after every other one equally often in a Latin square', () => {
+    const strategy = new LatinSquareAssignment();
+
+    for (const size of [3, 4, 5]) {
+      const participants = createParticipants(size);
+      const successions = new Map<string, number>();
+      for (let round = 1; round <= strategy.getCycleLength(size); round++) {
+        const order = orderOf(strategy, participants, round);
+        order.slice(1).forEach((participant, index) => {
+          const key = `${order[index]}->${participant}`;
+          successions.set(key, (successions.get(key) ?? 0) + 1);
+        });
+      }
+
+      expect(successions.size).toBe(size * (size - 1));
+      expect(new Set(successions.values()).size).toBe(1);
+    }
+  });
+
+  it('should reproduce the same random schedule for the same seed', () => {
+    const participants = createParticipants(4);
+    const rounds = Array.from({ length: 8 }, (_, index) => index + 1);
+
+    const first = rounds.map(round => orderOf(new SeededRandomAssignment(7), participants, round));
+    const second = rounds.map(round => orderOf(new SeededRandomAssignment(7), participants, round));
+    const other = rounds.map(round => orderOf(new SeededRandomAssignment(8), participants, round));
+
+    expect(first).toEqual(second);
+    expect(first).not.toEqual(other);
+  });
+
+  it('should report the seed of a random schedule, including a generated one', () => {
+    const participants = createParticipants(3);
+
+    expect(planRoleSchedule(new SeededRandomAssignment(7), participants, 3).seed).toBe(7);
+    expect(planRoleSchedule(new RoundRobinAssignment(), participants, 3).seed).toBeUndefined();
+
+    const generated = planRoleSchedule(createRoleAssignment('random'), participants, 3);
+    expect(generated.seed).toEqual(expect.any(Number));
+    expect(
+      planRoleSchedule(new SeededRandomAssignment(generated.seed as number), participants, 3).rounds
+    ).toEqual(generated.rounds);
+  });
+});
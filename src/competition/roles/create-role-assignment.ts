@@ -0,0 +1,24 @@
+// ABOUTME: Factory creating a role assignment strategy from its CLI name
+// Seeded strategies default to a time-based seed, which the planned schedule reports for reruns
+
+import { RoleAssignmentStrategy } from './role-assignment-strategy';
+import { RoundRobinAssignment } from './round-robin-assignment';
+import { LatinSquareAssignment } from './latin-square-assignment';
+import { SeededRandomAssignment } from './seeded-random-assignment';
+
+export const ROLE_ASSIGNMENT_STRATEGIES = ['round-robin', 'latin-square', 'random'] as const;
+export type RoleAssignmentName = (typeof ROLE_ASSIGNMENT_STRATEGIES)[number];
+
+export function createRoleAssignment(
+  name: RoleAssignmentName,
+  seed: number = Date.now()
+): RoleAssignmentStrategy {
+  switch (name) {
+    case 'round-robin':
+      return new RoundRobinAssignment();
+    case 'latin-square':
+      return new LatinSquareAssignment();
+    case 'random':
+      return new SeededRandomAssignment(seed);
+  }
+}
@@ -0,0 +1,34 @@
+// ABOUTME: Balanced Latin square (Williams design) role assignment
+// Besides equal role counts, every participant plays right after every other one equally often
+
+import { ParticipantId } from 'domain/competition-event/participant-id';
+import { RoleAssignmentStrategy, RoundRoles } from './role-assignment-strategy';
+
+export class LatinSquareAssignment implements RoleAssignmentStrategy {
+  readonly name = 'latin-square';
+
+  getCycleLength(participantCount: number): number {
+    // Odd orders need the mirrored square as well to balance who follows whom
+    return participantCount % 2 === 0 ? participantCount : participantCount * 2;
+  }
+
+  assignRound(participants: readonly ParticipantId[], roundNumber: number): RoundRoles {
+    const size = participants.length;
+    const rowIndex = (roundNumber - 1) % this.getCycleLength(size);
+    const row = this.createRow(size, rowIndex % size);
+    const indices = rowIndex < size ? row : [...row].reverse();
+
+    return {
+      round: roundNumber,
+      order: indices.map(index => participants[index] as ParticipantId),
+    };
+  }
+
+  private createRow(size: number, shift: number): number[] {
+    // First row interleaves from both ends: 0, 1, n-1, 2, n-2, ...
+    const firstRow = Array.from({ length: size }, (_, column) =>
+      column === 0 ? 0 : column % 2 === 1 ? (column + 1) / 2 : size - column / 2
+    );
+    return firstRow.map(index => (index + shift) % size);
+  }
+}
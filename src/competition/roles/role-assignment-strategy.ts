@@ -0,0 +1,75 @@
+// ABOUTME: Role assignment contract deciding who authors, breaks and fixes the baseline each round
+// Strategies return a per-round participant order that the game runner maps onto competition roles
+
+import { ParticipantId } from 'domain/competition-event/participant-id';
+
+export interface RoundRoles {
+  readonly round: number;
+  // Order of play: [baseline author, bug injector, fixer, ...everyone else]
+  readonly order: readonly ParticipantId[];
+}
+
+export interface RoleCounts {
+  baseline: number;
+  bugInjection: number;
+  fixAttempt: number;
+}
+
+export interface RoleSchedule {
+  readonly strategy: string;
+  readonly rounds: readonly RoundRoles[];
+  readonly roleCounts: Readonly<Record<string, RoleCounts>>;
+  readonly balanced: boolean;
+  // Set for seeded strategies, so the schedule can be planned again
+  readonly seed?: number | undefined;
+}
+
+export interface RoleAssignmentStrategy {
+  readonly name: string;
+  readonly seed?: number | undefined;
+
+  // Number of rounds after which every participant has played every role equally often
+  getCycleLength(participantCount: number): number;
+
+  assignRound(participants: readonly ParticipantId[], roundNumber: number): RoundRoles;
+}
+
+export function planRoleSchedule(
+  strategy: RoleAssignmentStrategy,
+  participants: readonly ParticipantId[],
+  totalRounds: number
+): RoleSchedule {
+  const rounds: RoundRoles[] = [];
+  for (let round = 1; round <= totalRounds; round++) {
+    rounds.push(strategy.assignRound(participants, round));
+  }
+
+  const roleCounts: Record<string, RoleCounts> = {};
+  for (const participant of participants) {
+    roleCounts[participant.getValue()] = { baseline: 0, bugInjection: 0, fixAttempt: 0 };
+  }
+  // Roles follow the first positions of each round's order of play
+  const roles: ReadonlyArray<keyof RoleCounts> = ['baseline', 'bugInjection', 'fixAttempt'];
+  for (const { order } of rounds) {
+    roles.forEach((role, position) => {
+      const counts = roleCounts[order[position]?.getValue() ?? ''];
+      if (counts) counts[role]++;
+    });
+  }
+
+  const counts = Object.values(roleCounts);
+  const balanced = roles.every(role => counts.every(count => count[role] === counts[0]?.[role]));
+
+  return {
+    strategy: strategy.name,
+    rounds,
+    roleCounts,
+    balanced,
+    ...(strategy.seed !== undefined && { seed: strategy.seed }),
+  };
+}
+
+export function rotate<T>(items: readonly T[], offset: number): T[] {
+  const shift = ((offset % items.length) + items.length) % items.length;
+  return [...items.slice(shift), ...items.slice(0, shift)];
+}
@@ -0,0 +1,17 @@
+// ABOUTME: Round-robin role assignment rotating the whole participant order by one each round
+// Every role shifts to the next participant, so roles even out after one full rotation
+
+import { ParticipantId } from 'domain/competition-event/participant-id';
+import { RoleAssignmentStrategy, RoundRoles, rotate } from './role-assignment-strategy';
+
+export class RoundRobinAssignment implements RoleAssignmentStrategy {
+  readonly name = 'round-robin';
+
+  getCycleLength(participantCount: number): number {
+    return participantCount;
+  }
+
+  assignRound(participants: readonly ParticipantId[], roundNumber: number): RoundRoles {
+    return { round: roundNumber, order: rotate(participants, roundNumber - 1) };
+  }
+}
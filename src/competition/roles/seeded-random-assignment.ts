@@ -0,0 +1,51 @@
+// ABOUTME: Seeded random role assignment shuffling a fresh Latin square for every block of rounds
+// The same seed always reproduces the same schedule, and each block still balances every role
+
+import { ParticipantId } from 'domain/competition-event/participant-id';
+import { RoleAssignmentStrategy, RoundRoles, rotate } from './role-assignment-strategy';
+
+export class SeededRandomAssignment implements RoleAssignmentStrategy {
+  readonly name = 'random';
+
+  constructor(readonly seed: number) {}
+
+  getCycleLength(participantCount: number): number {
+    return participantCount;
+  }
+
+  assignRound(participants: readonly ParticipantId[], roundNumber: number): RoundRoles {
+    const size = participants.length;
+    const block = Math.floor((roundNumber - 1) / size);
+    const random = createRandom(this.seed + block);
+
+    const shuffledParticipants = shuffle(participants, random);
+    const shuffledOffsets = shuffle(
+      Array.from({ length: size }, (_, offset) => offset),
+      random
+    );
+    const offset = shuffledOffsets[(roundNumber - 1) % size] as number;
+
+    return { round: roundNumber, order: rotate(shuffledParticipants, offset) };
+  }
+}
+
+// mulberry32: small deterministic generator, good enough for schedule shuffling
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: readonly T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j] as T, result[i] as T];
+  }
+  return result;
+}
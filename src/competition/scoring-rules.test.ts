@@ -0,0 +1,61 @@
+// ABOUTME: Tests for loading scoring rules from JSON files
+// Verifies defaults fill unspecified values and malformed rules are rejected with clear errors
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rm, writeFile } from 'fs/promises';
+import { DEFAULT_SCORING_RULES } from './game/scoring-rules';
+import { loadScoringRules, parseScoringRules } from './services/scoring-rules-loader';
+
+describe('Scoring Rules Loader', () => {
+  const rulesPath = join(tmpdir(), `scoring-rules-test-${Date.now()}.json`);
+
+  afterEach(async () => {
+    await rm(rulesPath, { force: true });
+  });
+
+  it('should fill unspecified rules from the defaults', async () => {
+    await writeFile(
+      rulesPath,
+      JSON.stringify({ name: 'generous', baselineSuccess: 1, phaseWeights: { fixAttempt: 2 } })
+    );
+
+    const result = await loadScoringRules(rulesPath);
+
+    expect(result._unsafeUnwrap()).toEqual({
+      ...DEFAULT_SCORING_RULES,
+      name: 'generous',
+      baselineSuccess: 1,
+      phaseWeights: { ...DEFAULT_SCORING_RULES.phaseWeights, fixAttempt: 2 },
+    });
+  });
+
+  it('should name unnamed rule sets custom', () => {
+    expect(parseScoringRules({})._unsafeUnwrap().name).toBe('custom');
+  });
+
+  it('should reject unknown rules', () => {
+    const result = parseScoringRules({ firstFixx: 2 });
+
+    expect(result._unsafeUnwrapErr().message).toBe('Unknown scoring rule "firstFixx"');
+  });
+
+  it('should reject non-numeric points and weights', () => {
+    expect(parseScoringRules({ firstFix: '2' })._unsafeUnwrapErr().message).toBe(
+      'Scoring rule "firstFix" must be a number'
+    );
+    expect(parseScoringRules({ phaseWeights: { baseline: null } })._unsafeUnwrapErr().message).toBe(
+      'Scoring rule "phaseWeights.baseline" must be a number'
+    );
+  });
+
+  it('should report unreadable and malformed files', async () => {
+    const missing = await loadScoringRules(join(tmpdir(), 'does-not-exist-rules.json'));
+    expect(missing._unsafeUnwrapErr().message).toContain('Failed to read scoring rules');
+
+    await writeFile(rulesPath, '{ not json');
+    const malformed = await loadScoringRules(rulesPath);
+    expect(malformed._unsafeUnwrapErr().message).toContain('Invalid JSON in scoring rules');
+  });
+});
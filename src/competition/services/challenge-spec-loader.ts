@@ -0,0 +1,108 @@
+// ABOUTME: Loads challenge specs from a JSON file holding one spec or a list played round by round
+// Rejects unknown keys and malformed values so a typo never silently drops a constraint
+
+import { Result, ok, err } from 'neverthrow';
+import { readFile } from 'fs/promises';
+import { ChallengeSpec } from 'domain/competition-prompts/challenge-spec';
+import { QUALITY_TARGETS, QualityTarget } from 'infrastructure/contract-validator/quality-report';
+
+const CHALLENGE_KEYS: ReadonlySet<string> = new Set([
+  'name',
+  'language',
+  'domain',
+  'maxSourceLines',
+  'features',
+  'requiredTargets',
+]);
+
+export async function loadChallengeSpecs(
+  filePath: string
+): Promise<Result<ChallengeSpec[], Error>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read challenges from ${filePath}: ${message}`));
+  }
+
+  try {
+    return parseChallengeSpecs(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid JSON in challenges ${filePath}: ${message}`));
+  }
+}
+
+export function parseChallengeSpecs(input: unknown): Result<ChallengeSpec[], Error> {
+  const entries = Array.isArray(input) ? input : [input];
+  if (entries.length === 0) {
+    return err(new Error('Challenges must list at least one challenge'));
+  }
+
+  const challenges: ChallengeSpec[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const challengeResult = parseChallengeSpec(entry, `challenge-${index + 1}`);
+    if (challengeResult.isErr()) {
+      return err(challengeResult.error);
+    }
+    challenges.push(challengeResult.value);
+  }
+  return ok(challenges);
+}
+
+function parseChallengeSpec(input: unknown, defaultName: string): Result<ChallengeSpec, Error> {
+  if (!isRecord(input)) {
+    return err(new Error('A challenge must be a JSON object'));
+  }
+  const unknownKey = Object.keys(input).find(key => !CHALLENGE_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return err(new Error(`Unknown challenge key "${unknownKey}"`));
+  }
+
+  const { name, language, domain, maxSourceLines, features, requiredTargets } = input;
+  for (const [key, value] of Object.entries({ name, language, domain })) {
+    if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+      return err(new Error(`Challenge "${key}" must be a non-empty string`));
+    }
+  }
+  if (
+    maxSourceLines !== undefined &&
+    (typeof maxSourceLines !== 'number' || !Number.isInteger(maxSourceLines) || maxSourceLines < 1)
+  ) {
+    return err(new Error('Challenge "maxSourceLines" must be a positive integer'));
+  }
+  if (features !== undefined && !isStringArray(features)) {
+    return err(new Error('Challenge "features" must be a list of strings'));
+  }
+  if (requiredTargets !== undefined && !isStringArray(requiredTargets)) {
+    return err(new Error('Challenge "requiredTargets" must be a list of strings'));
+  }
+  const unknownTarget = (requiredTargets ?? []).find(
+    target => !QUALITY_TARGETS.includes(target as QualityTarget)
+  );
+  if (unknownTarget !== undefined) {
+    return err(
+      new Error(
+        `Unknown required target "${unknownTarget}". Available targets: ${QUALITY_TARGETS.join(', ')}`
+      )
+    );
+  }
+
+  return ok({
+    name: (name as string | undefined) ?? defaultName,
+    ...(language !== undefined && { language: language as string }),
+    ...(domain !== undefined && { domain: domain as string }),
+    ...(maxSourceLines !== undefined && { maxSourceLines }),
+    features: features ?? [],
+    requiredTargets: requiredTargets ?? [],
+  });
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -24,13 +24,14 @@ export class CompetitionEventService {
     participantId: ParticipantId,
     data: Record<string, unknown>,
     success: boolean,
-    duration: Duration = Duration.notMeasured()
+    duration: Duration = Duration.notMeasured(),
+    roundId: RoundId = RoundId.notApplicable()
   ): Promise<Result<void, Error>> {
     const event = new CompetitionEvent(
       this.generateEventId(),
       new Date(),
       this.competitionId,
-      RoundId.notApplicable(),
+      roundId,
       participantId,
       eventType,
       phase,
@@ -50,13 +51,14 @@ export class CompetitionEventService {
   async logSystemEvent(
     eventType: EventType,
     phase: Phase,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    roundId: RoundId = RoundId.notApplicable()
   ): Promise<Result<void, Error>> {
     const event = new CompetitionEvent(
       this.generateEventId(),
       new Date(),
       this.competitionId,
-      RoundId.notApplicable(),
+      roundId,
       ParticipantId.system(),
       eventType,
       phase,
@@ -77,9 +79,18 @@ export class CompetitionEventService {
     eventType: EventType,
     phase: Phase,
     participantId: ParticipantId,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    roundId: RoundId = RoundId.notApplicable()
   ): Promise<Result<void, Error>> {
-    return this.logParticipantEvent(eventType, phase, participantId, data, true);
+    return this.logParticipantEvent(
+      eventType,
+      phase,
+      participantId,
+      data,
+      true,
+      Duration.notMeasured(),
+      roundId
+    );
   }
 
   async logPhaseComplete(
@@ -88,23 +99,41 @@ export class CompetitionEventService {
     participantId: ParticipantId,
     data: Record<string, unknown>,
     success: boolean,
-    duration: Duration
+    duration: Duration,
+    roundId: RoundId = RoundId.notApplicable()
   ): Promise<Result<void, Error>> {
-    return this.logParticipantEvent(eventType, phase, participantId, data, success, duration);
+    return this.logParticipantEvent(
+      eventType,
+      phase,
+      participantId,
+      data,
+      success,
+      duration,
+      roundId
+    );
   }
 
   async logError(
     eventType: EventType,
     phase: Phase,
     participantId: ParticipantId,
-    error: Error
+    error: Error,
+    roundId: RoundId = RoundId.notApplicable()
   ): Promise<Result<void, Error>> {
     const data = {
       error: error.message,
       stack: error.stack,
     };
 
-    return this.logParticipantEvent(eventType, phase, participantId, data, false);
+    return this.logParticipantEvent(
+      eventType,
+      phase,
+      participantId,
+      data,
+      false,
+      Duration.notMeasured(),
+      roundId
+    );
   }
 
   private generateEventId(): EventId {
@@ -1,7 +1,11 @@
 // ABOUTME: Provider execution service with configurable timeouts and duration tracking
 // Handles all LLM provider operations with consistent timeout and error handling
 
-import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import {
+  LLMProvider,
+  ProviderFailureReason,
+  ProviderPhaseTimeouts,
+} from 'domain/llm-provider/llm-provider';
 import { Duration } from 'domain/competition-event/duration';
 import { Result, ok, err } from 'neverthrow';
 import { setTimeout, clearTimeout } from 'timers';
@@ -9,23 +13,29 @@ import { setTimeout, clearTimeout } from 'timers';
 export interface ProviderResult {
   readonly success: boolean;
   readonly message: string;
+  readonly failureReason?: ProviderFailureReason | undefined;
 }
 
 export interface TimedProviderResult {
   readonly result: ProviderResult;
   readonly duration: Duration;
+  // When the provider returned, used to order concurrent attempts fairly
+  readonly completedAt: Date;
 }
 
-export interface ProviderExecutionConfig {
-  readonly baselineTimeoutMs: number;
-  readonly bugInjectionTimeoutMs: number;
-  readonly fixAttemptTimeoutMs: number;
+export interface ProviderExecutionConfig extends ProviderPhaseTimeouts {
+  // Extra time given on top of a provider's own phase timeouts, so it can stop itself and report
+  readonly timeoutMarginMs: number;
+  // How long a provider gets to wind down once its phase is aborted
+  readonly abortGraceMs: number;
 }
 
 export const DEFAULT_EXECUTION_CONFIG: ProviderExecutionConfig = {
   baselineTimeoutMs: 300000, // 5 minutes
   bugInjectionTimeoutMs: 180000, // 3 minutes
   fixAttemptTimeoutMs: 180000, // 3 minutes
+  timeoutMarginMs: 30000,
+  abortGraceMs: 10000,
 };
 
 export class ProviderExecutionService {
@@ -37,8 +47,8 @@ export class ProviderExecutionService {
     prompt: string
   ): Promise<Result<TimedProviderResult, Error>> {
     return this.executeWithTimeout(
-      async () => provider.createCodingExercise(workspaceDir, prompt),
-      this.config.baselineTimeoutMs,
+      signal => provider.createCodingExercise(workspaceDir, prompt, signal),
+      this.getTimeoutMs(provider, 'baselineTimeoutMs'),
       'Baseline creation exceeded time limit'
     );
   }
@@ -50,8 +60,8 @@ export class ProviderExecutionService {
     prompt: string
   ): Promise<Result<TimedProviderResult, Error>> {
     return this.executeWithTimeout(
-      async () => provider.injectBug(baselineDir, buggyDir, prompt),
-      this.config.bugInjectionTimeoutMs,
+      signal => provider.injectBug(baselineDir, buggyDir, prompt, signal),
+      this.getTimeoutMs(provider, 'bugInjectionTimeoutMs'),
       'Bug injection exceeded time limit'
     );
   }
@@ -63,46 +73,79 @@ export class ProviderExecutionService {
     prompt: string
   ): Promise<Result<TimedProviderResult, Error>> {
     return this.executeWithTimeout(
-      async () => provider.fixAttempt(buggyDir, fixDir, prompt),
-      this.config.fixAttemptTimeoutMs,
+      signal => provider.fixAttempt(buggyDir, fixDir, prompt, signal),
+      this.getTimeoutMs(provider, 'fixAttemptTimeoutMs'),
       'Fix attempt exceeded time limit'
     );
   }
 
+  // The time a provider is told it has: its own phase timeout, otherwise the fixed limit
+  getPromptedTimeLimitMs(provider: LLMProvider, phase: keyof ProviderPhaseTimeouts): number {
+    return provider.phaseTimeouts ? provider.phaseTimeouts[phase] : this.config[phase];
+  }
+
+  // A provider with its own phase timeouts gets those plus the margin, otherwise the fixed limit
+  getTimeoutMs(provider: LLMProvider, phase: keyof ProviderPhaseTimeouts): number {
+    return provider.phaseTimeouts
+      ? provider.phaseTimeouts[phase] + this.config.timeoutMarginMs
+      : this.config[phase];
+  }
+
   private async executeWithTimeout(
-    operation: () => Promise<ProviderResult>,
+    operation: (signal: AbortSignal) => Promise<ProviderResult>,
     timeoutMs: number,
     timeoutMessage: string
   ): Promise<Result<TimedProviderResult, Error>> {
     const startTime = Date.now();
+    const abortController = new AbortController();
 
     try {
-      const result = await this.withTimeout(operation(), timeoutMs, timeoutMessage);
-      const durationMs = Date.now() - startTime;
+      const result = await this.withTimeout(
+        operation(abortController.signal),
+        timeoutMs,
+        timeoutMessage,
+        abortController
+      );
+      const completedAt = new Date();
+      const durationMs = completedAt.getTime() - startTime;
       const duration = Duration.fromSeconds(Math.floor(durationMs / 1000));
 
-      return ok({ result, duration });
+      return ok({ result, duration, completedAt });
     } catch (error) {
       return err(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  // On timeout the provider is aborted and given a moment to stop, so it is no longer writing to
+  // the workspace when the runner goes on to diff and validate it
   private async withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
-    timeoutMessage: string
+    timeoutMessage: string,
+    abortController: AbortController
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
-        reject(new Error(timeoutMessage));
+        abortController.abort(new Error(timeoutMessage));
+        const graceId = setTimeout(
+          () => reject(new Error(timeoutMessage)),
+          this.config.abortGraceMs
+        );
+        const stopped = () => {
+          clearTimeout(graceId);
+          reject(new Error(timeoutMessage));
+        };
+        promise.then(stopped, stopped);
       }, timeoutMs);
 
       promise
         .then(result => {
+          if (abortController.signal.aborted) return;
           clearTimeout(timeoutId);
           resolve(result);
         })
         .catch(error => {
+          if (abortController.signal.aborted) return;
           clearTimeout(timeoutId);
           reject(error);
         });
@@ -0,0 +1,81 @@
+// ABOUTME: Loads scoring rules from a JSON file, filling unspecified values from the defaults
+// Rejects unknown keys and non-numeric points so a typo never silently falls back to a default
+
+import { Result, ok, err } from 'neverthrow';
+import { readFile } from 'fs/promises';
+import { DEFAULT_SCORING_RULES, ScoringRules } from 'competition/game/scoring-rules';
+
+export async function loadScoringRules(filePath: string): Promise<Result<ScoringRules, Error>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read scoring rules from ${filePath}: ${message}`));
+  }
+
+  try {
+    return parseScoringRules(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid JSON in scoring rules ${filePath}: ${message}`));
+  }
+}
+
+export function parseScoringRules(input: unknown): Result<ScoringRules, Error> {
+  if (!isRecord(input)) {
+    return err(new Error('Scoring rules must be a JSON object'));
+  }
+
+  const { name, phaseWeights, ...points } = input;
+  if (name !== undefined && typeof name !== 'string') {
+    return err(new Error('Scoring rule "name" must be a string'));
+  }
+
+  const { name: _name, phaseWeights: _phaseWeights, ...defaultPoints } = DEFAULT_SCORING_RULES;
+  const pointsResult = mergeNumbers('', points, defaultPoints);
+  if (pointsResult.isErr()) {
+    return err(pointsResult.error);
+  }
+
+  if (phaseWeights !== undefined && !isRecord(phaseWeights)) {
+    return err(new Error('Scoring rule "phaseWeights" must be an object'));
+  }
+  const weightsResult = mergeNumbers(
+    'phaseWeights.',
+    phaseWeights ?? {},
+    DEFAULT_SCORING_RULES.phaseWeights
+  );
+  if (weightsResult.isErr()) {
+    return err(weightsResult.error);
+  }
+
+  return ok({
+    ...pointsResult.value,
+    name: name ?? 'custom',
+    phaseWeights: weightsResult.value,
+  });
+}
+
+// Overrides the numbers in `defaults` with those in `values`, which may only use the same keys
+function mergeNumbers<T extends Readonly<Record<keyof T, number>>>(
+  prefix: string,
+  values: Record<string, unknown>,
+  defaults: T
+): Result<T, Error> {
+  const overrides: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (!Object.keys(defaults).includes(key)) {
+      return err(new Error(`Unknown scoring rule "${prefix}${key}"`));
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return err(new Error(`Scoring rule "${prefix}${key}" must be a number`));
+    }
+    overrides[key] = value;
+  }
+  return ok({ ...defaults, ...overrides });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
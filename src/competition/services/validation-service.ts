@@ -2,15 +2,71 @@
 // Encapsulates all validation logic with proper error handling and reporting
 
 import { MakefileValidator } from 'infrastructure/contract-validator/makefile-validator';
+import {
+  TestIntegrityValidator,
+  TestIntegrityViolation,
+} from 'infrastructure/contract-validator/test-integrity-validator';
+import { withOriginalTests } from 'infrastructure/contract-validator/original-test-suite';
+import { FileChange } from 'infrastructure/workspace/workspace-diff';
+import { QualityReport } from 'infrastructure/contract-validator/quality-report';
+import {
+  ChallengeCheck,
+  checkChallenge,
+} from 'infrastructure/contract-validator/challenge-validator';
+import { ToolchainProfile } from 'infrastructure/workspace/toolchain-detector';
+import { ChallengeSpec } from 'domain/competition-prompts/challenge-spec';
+import { TestReport } from 'infrastructure/test-results/test-report';
 import { Result, ok, err } from 'neverthrow';
 
 export interface ValidationResult {
   readonly success: boolean;
   readonly message: string;
+  readonly stdout?: string | undefined;
+  readonly stderr?: string | undefined;
+  readonly exitCode?: number | undefined;
+  // Set when a make target ran past its timeout and was killed
+  readonly timedOut?: boolean | undefined;
+  readonly tests?: TestReport | undefined;
+  // Set when the phase was rejected for what it changed, or by the original tests
+  readonly failureReason?: ValidationFailureReason | undefined;
+  readonly changes?: readonly FileChange[] | undefined;
+  // Fix attempts run both suites; only the original one decides the outcome
+  readonly ownTests?: ValidationResult | undefined;
+  readonly originalTests?: ValidationResult | undefined;
+  // Present when validation was repeated
+  readonly runs?: ValidationRuns | undefined;
+  // Outcome of the optional build, lint and coverage targets of an accepted baseline
+  readonly quality?: QualityReport | undefined;
+  // Outcome of the checks of the challenge spec the baseline was built for
+  readonly challenge?: ChallengeCheck | undefined;
+}
+
+export interface ValidationRuns {
+  readonly total: number;
+  readonly passed: number;
+}
+
+export type ValidationFailureReason =
+  | TestIntegrityViolation
+  | 'original-tests-failed'
+  | 'flaky'
+  | 'challenge-not-met';
+
+// Where the workspace under validation came from
+export interface PhaseOrigin {
+  // The workspace it was copied from, checked for test changes
+  readonly sourceDir?: string;
+  // The round's baseline, whose tests a fix must pass
+  readonly baselineDir?: string;
 }
 
 export class ValidationService {
-  constructor(private readonly makefileValidator: MakefileValidator = new MakefileValidator()) {}
+  constructor(
+    private readonly makefileValidator: MakefileValidator = new MakefileValidator(),
+    private readonly testIntegrityValidator: TestIntegrityValidator = new TestIntegrityValidator(),
+    // How often each phase's make check runs; any disagreement rejects the phase as flaky
+    private readonly validationRuns: number = 1
+  ) {}
 
   async validateBaselineSetup(workspaceDir: string): Promise<Result<ValidationResult, Error>> {
     try {
@@ -30,28 +86,188 @@ export class ValidationService {
     }
   }
 
-  async validateFixAttempt(workspaceDir: string): Promise<Result<ValidationResult, Error>> {
+  async validateFixAttempt(
+    workspaceDir: string,
+    baselineDir?: string
+  ): Promise<Result<ValidationResult, Error>> {
     try {
-      const result = await this.makefileValidator.validateTestOnly(workspaceDir);
-      return ok(result);
+      const ownTests = await this.makefileValidator.validateTestOnly(workspaceDir);
+      if (baselineDir === undefined) {
+        return ok(ownTests);
+      }
+
+      const originalTests = await withOriginalTests(baselineDir, workspaceDir, originalTestsDir =>
+        this.makefileValidator.validateTestOnly(originalTestsDir)
+      );
+      return ok({
+        success: originalTests.success,
+        message: originalTests.success
+          ? `Original baseline tests pass${ownTests.success ? '' : ", but the project's own tests fail"}`
+          : `Original baseline tests fail: ${originalTests.message}`,
+        stdout: originalTests.stdout,
+        stderr: originalTests.stderr,
+        exitCode: originalTests.exitCode,
+        timedOut: originalTests.timedOut,
+        tests: originalTests.tests,
+        ...(!originalTests.success && { failureReason: 'original-tests-failed' as const }),
+        ownTests,
+        originalTests,
+      });
     } catch (error) {
       return err(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  async validateTestIntegrity(
+    sourceDir: string,
+    workspaceDir: string
+  ): Promise<Result<ValidationResult, Error>> {
+    try {
+      const { success, message, changes, violation } = await this.testIntegrityValidator.validate(
+        sourceDir,
+        workspaceDir
+      );
+      return ok({ success, message, changes, ...(violation && { failureReason: violation }) });
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  // Phases working on a copy of another participant's workspace must leave its tests alone;
+  // make is only run once that holds
   async validatePhase(
     phase: 'baseline' | 'bug-injection' | 'fix-attempt',
-    workspaceDir: string
+    workspaceDir: string,
+    origin: PhaseOrigin = {}
+  ): Promise<Result<ValidationResult, Error>> {
+    const { sourceDir } = origin;
+    if (sourceDir !== undefined && phase !== 'baseline') {
+      const integrityResult = await this.validateTestIntegrity(sourceDir, workspaceDir);
+      if (integrityResult.isErr() || !integrityResult.value.success) {
+        return integrityResult;
+      }
+      const { changes } = integrityResult.value;
+      return (await this.validateMakeContract(phase, workspaceDir, origin)).map(result => ({
+        ...result,
+        changes,
+      }));
+    }
+    return this.validateMakeContract(phase, workspaceDir, origin);
+  }
+
+  private async validateMakeContract(
+    phase: 'baseline' | 'bug-injection' | 'fix-attempt',
+    workspaceDir: string,
+    origin: PhaseOrigin
   ): Promise<Result<ValidationResult, Error>> {
     switch (phase) {
-      case 'baseline':
-        return this.validateBaselineSetup(workspaceDir);
+      case 'baseline': {
+        const result = await this.validateRepeatedly(
+          () => this.validateBaselineSetup(workspaceDir),
+          () => this.validateBaselineTests(workspaceDir),
+          { rerunFailures: false }
+        );
+        if (result.isErr() || !result.value.success) {
+          return result;
+        }
+        const qualityResult = await this.assessBaselineQuality(workspaceDir);
+        return qualityResult.map(quality => ({ ...result.value, quality }));
+      }
       case 'bug-injection':
-        return this.validateBugInjection(workspaceDir);
+        return this.validateRepeatedly(() => this.validateBugInjection(workspaceDir));
       case 'fix-attempt':
-        return this.validateFixAttempt(workspaceDir);
+        return this.validateRepeatedly(() =>
+          this.validateFixAttempt(workspaceDir, origin.baselineDir)
+        );
       default:
         return err(new Error(`Unknown validation phase: ${phase}`));
     }
   }
+
+  // Setup only needs to succeed once, so a baseline is re-checked by running its tests again
+  private async validateBaselineTests(
+    workspaceDir: string
+  ): Promise<Result<ValidationResult, Error>> {
+    try {
+      const result = await this.makefileValidator.validateTestOnly(workspaceDir);
+      return ok(result);
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async assessBaselineQuality(workspaceDir: string): Promise<Result<QualityReport, Error>> {
+    try {
+      const quality = await this.makefileValidator.assessQuality(workspaceDir);
+      return ok(quality);
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  // Only a baseline that passed its own tests is held to the challenge of its round
+  enforceChallenge(
+    result: ValidationResult,
+    challenge: ChallengeSpec,
+    toolchain: ToolchainProfile | undefined
+  ): ValidationResult {
+    if (!result.success) {
+      return result;
+    }
+    const check = checkChallenge(challenge, toolchain, result.quality);
+    if (check.success) {
+      return { ...result, challenge: check };
+    }
+    return {
+      ...result,
+      success: false,
+      message: `Challenge '${check.name}' not met: ${check.violations.join('; ')}`,
+      failureReason: 'challenge-not-met',
+      challenge: check,
+    };
+  }
+
+  private async validateRepeatedly(
+    validate: () => Promise<Result<ValidationResult, Error>>,
+    revalidate: () => Promise<Result<ValidationResult, Error>> = validate,
+    { rerunFailures }: { rerunFailures: boolean } = { rerunFailures: true }
+  ): Promise<Result<ValidationResult, Error>> {
+    const firstResult = await validate();
+    if (firstResult.isErr() || this.validationRuns <= 1) {
+      return firstResult;
+    }
+    // A failed baseline is rejected either way, and re-running its tests after a failed
+    // setup says nothing about flakiness
+    if (!firstResult.value.success && !rerunFailures) {
+      return firstResult;
+    }
+
+    const results = [firstResult.value];
+    for (let run = 1; run < this.validationRuns; run++) {
+      const rerunResult = await revalidate();
+      if (rerunResult.isErr()) {
+        return rerunResult;
+      }
+      results.push(rerunResult.value);
+    }
+
+    const passed = results.filter(result => result.success).length;
+    const runs = { total: results.length, passed };
+    if (passed === 0 || passed === results.length) {
+      return ok({ ...firstResult.value, runs });
+    }
+
+    const failedRun = results.find(result => !result.success);
+    return ok({
+      success: false,
+      message: `Flaky: validation succeeded in ${passed} of ${results.length} runs`,
+      stdout: failedRun?.stdout,
+      stderr: failedRun?.stderr,
+      exitCode: failedRun?.exitCode,
+      timedOut: failedRun?.timedOut,
+      tests: failedRun?.tests,
+      failureReason: 'flaky',
+      runs,
+    });
+  }
 }
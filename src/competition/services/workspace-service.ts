@@ -1,7 +1,14 @@
 // ABOUTME: Workspace lifecycle service handling creation, cleanup and resource management
 // Encapsulates workspace operations with proper error handling and cleanup guarantees
 
-import { createWorkspace, cleanupWorkspace } from 'infrastructure/workspace/workspace';
+import {
+  createWorkspace,
+  cleanupWorkspace,
+  openNamedWorkspace,
+  isWorkspaceEmpty,
+} from 'infrastructure/workspace/workspace';
+import { WorkspacePatch, createWorkspacePatch } from 'infrastructure/workspace/workspace-diff';
+import { ToolchainProfile, detectToolchain } from 'infrastructure/workspace/toolchain-detector';
 import { Result, ok, err } from 'neverthrow';
 
 export interface WorkspaceContext {
@@ -49,6 +56,50 @@ export class WorkspaceService {
     }
   }
 
+  // Unlike withWorkspace, a failed operation keeps the directory, unless it is empty, so its
+  // work can be resumed
+  async withRetainedWorkspace<T>(
+    name: string,
+    operation: (workspaceDir: string) => Promise<T>
+  ): Promise<Result<T, Error>> {
+    let workspaceDir: string;
+    try {
+      workspaceDir = await openNamedWorkspace(name);
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    try {
+      const result = await operation(workspaceDir);
+      await cleanupWorkspace(workspaceDir);
+      return ok(result);
+    } catch (error) {
+      if (await isWorkspaceEmpty(workspaceDir)) {
+        await cleanupWorkspace(workspaceDir);
+      }
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async diffWorkspaces(
+    beforeDir: string,
+    afterDir: string
+  ): Promise<Result<WorkspacePatch, Error>> {
+    try {
+      return ok(await createWorkspacePatch(beforeDir, afterDir));
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async detectToolchain(workspaceDir: string): Promise<Result<ToolchainProfile, Error>> {
+    try {
+      return ok(await detectToolchain(workspaceDir));
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   async withMultipleWorkspaces<T>(
     prefixes: string[],
     operation: (workspaceDirs: string[]) => Promise<T>
@@ -0,0 +1,100 @@
+// ABOUTME: Tests for ValidationService repeating make checks to catch flaky phases
+// Uses a scripted MakefileValidator so every run's outcome is chosen by the test
+
+import { describe, it, expect } from 'vitest';
+import { ValidationService } from './services/validation-service';
+import {
+  MakefileValidator,
+  ValidationResult,
+} from 'infrastructure/contract-validator/makefile-validator';
+
+// Hands out the scripted outcomes in order, whichever check is asked for
+class ScriptedMakefileValidator extends MakefileValidator {
+  calls: string[] = [];
+
+  constructor(private readonly outcomes: boolean[]) {
+    super();
+  }
+
+  private next(check: string): Promise<ValidationResult> {
+    this.calls.push(check);
+    const success = this.outcomes.shift() ?? true;
+    return Promise.resolve({ success, message: `${check} ${success ? 'passed' : 'failed'}` });
+  }
+
+  override validateSetupAndTest(): Promise<ValidationResult> {
+    return this.next('setup-and-test');
+  }
+
+  override validateTestOnly(): Promise<ValidationResult> {
+    return this.next('test');
+  }
+
+  override expectTestFailure(): Promise<ValidationResult> {
+    return this.next('expect-failure');
+  }
+}
+
+const createService = (validator: MakefileValidator, runs: number) =>
+  new ValidationService(validator, undefined, runs);
+
+describe('ValidationService', () => {
+  it('should validate once by default', async () => {
+    const validator = new ScriptedMakefileValidator([true, false]);
+
+    const result = await createService(validator, 1).validatePhase('bug-injection', '/workspace');
+
+    expect(result._unsafeUnwrap()).toEqual({ success: true, message: 'expect-failure passed' });
+    expect(validator.calls).toEqual(['expect-failure']);
+  });
+
+  it('should accept a phase whose repeated runs agree and count them', async () => {
+    const validator = new ScriptedMakefileValidator([true, true, true]);
+
+    const result = await createService(validator, 3).validatePhase('bug-injection', '/workspace');
+
+    expect(result._unsafeUnwrap()).toMatchObject({ success: true, runs: { total: 3, passed: 3 } });
+  });
+
+  it('should reject a phase as flaky when its runs disagree', async () => {
+    const validator = new ScriptedMakefileValidator([true, false, true]);
+
+    const result = await createService(validator, 3).validatePhase('fix-attempt', '/workspace');
+
+    expect(result._unsafeUnwrap()).toMatchObject({
+      success: false,
+      failureReason: 'flaky',
+      message: 'Flaky: validation succeeded in 2 of 3 runs',
+      runs: { total: 3, passed: 2 },
+    });
+  });
+
+  it('should run baseline setup once and only repeat its tests', async () => {
+    const validator = new ScriptedMakefileValidator([true, true, true]);
+
+    await createService(validator, 3).validatePhase('baseline', '/workspace');
+
+    expect(validator.calls).toEqual(['setup-and-test', 'test', 'test']);
+  });
+
+  it('should assess the quality of an accepted baseline only', async () => {
+    const validator = new ScriptedMakefileValidator([true, false]);
+    const service = createService(validator, 1);
+
+    const accepted = await service.validatePhase('baseline', '/workspace');
+    const rejected = await service.validatePhase('baseline', '/workspace');
+
+    // Without a Makefile to read, no optional target runs and the score is zero
+    expect(accepted._unsafeUnwrap().quality).toEqual({ targets: [], score: 0 });
+    expect(rejected._unsafeUnwrap().quality).toBeUndefined();
+  });
+
+  it('should not repeat a baseline that already failed', async () => {
+    const validator = new ScriptedMakefileValidator([false, true, true]);
+
+    const result = await createService(validator, 3).validatePhase('baseline', '/workspace');
+
+    expect(result._unsafeUnwrap()).toEqual({ success: false, message: 'setup-and-test failed' });
+    expect(validator.calls).toEqual(['setup-and-test']);
+  });
+});
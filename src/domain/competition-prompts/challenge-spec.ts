@@ -0,0 +1,27 @@
+// ABOUTME: Challenge specs that constrain the baseline of a round to a language and problem domain
+// Rendered into the baseline prompt and checked against the workspace once the baseline is built
+
+export interface ChallengeSpec {
+  readonly name: string;
+  // Compared case-insensitively with the language the toolchain detector finds
+  readonly language?: string | undefined;
+  // What the application should do, such as 'an LRU cache library' or 'a JSON REST API'
+  readonly domain?: string | undefined;
+  // Non-blank lines of source code, tests not included
+  readonly maxSourceLines?: number | undefined;
+  // Described to the provider; only the make targets below can be checked
+  readonly features: readonly string[];
+  // Optional make targets (build, lint, coverage) the baseline must provide and pass
+  readonly requiredTargets: readonly string[];
+}
+
+// Round N plays the Nth spec, starting over once the list runs out
+export function getRoundChallenge(
+  challenges: readonly ChallengeSpec[],
+  round: number
+): ChallengeSpec | undefined {
+  if (challenges.length === 0) {
+    return undefined;
+  }
+  return challenges[(round - 1) % challenges.length];
+}
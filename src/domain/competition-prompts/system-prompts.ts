@@ -1,12 +1,16 @@
 // ABOUTME: System-level prompts for LLM coding competition phases
 // Technology-agnostic prompts focused on competitive challenge and standardized contract
 
+import { ChallengeSpec } from './challenge-spec';
+
 export interface SystemPromptConfig {
   readonly taskDescription: string;
   readonly competitiveChallenge: string;
   readonly contract: string;
   readonly requirements: string[];
   readonly validationProcess: string;
+  // How long the prompted participant has for the phase, stated in the prompt
+  readonly timeLimitMs: number;
 }
 
 export class SystemPrompts {
@@ -17,16 +21,25 @@ Your project MUST include a Makefile with these exact targets:
 - **make setup** - Install dependencies and prepare the project for execution
 - **make test** - Run all tests and return exit code 0 for success, non-zero for failure
 
+These targets are optional; when present they are run to measure project quality:
+
+- **make build** - Compile or package the project
+- **make lint** - Run static analysis and return exit code 0 when the code is clean
+- **make coverage** - Run the tests with coverage and print the total as a line \`COVERAGE: <percent>%\`
+
 The system will use only these commands to validate your work - no manual intervention allowed.
 `.trim();
 
+  static readonly FREE_CHOICE_REQUIREMENT =
+    'Choose any programming language and application type you prefer';
+
   static readonly BASELINE_CREATION: SystemPromptConfig = {
     taskDescription: `
 Create a software project that demonstrates your coding capabilities.
 
 **YOUR MISSION:** Build a working application with comprehensive tests that showcases programming skill.
 
-**TIME LIMIT:** You have exactly 5 minutes to complete this task. Work efficiently and focus on creating a functional project with tests that pass.
+Work efficiently and focus on creating a functional project with tests that pass.
 `.trim(),
 
     competitiveChallenge: `
@@ -44,7 +57,7 @@ Think strategically: what kind of code would challenge another LLM's ability to
     contract: SystemPrompts.MAKEFILE_CONTRACT,
 
     requirements: [
-      'Choose any programming language and application type you prefer',
+      SystemPrompts.FREE_CHOICE_REQUIREMENT,
       'Create a non-trivial application (avoid simple "hello world" programs)',
       'Include comprehensive unit tests with good coverage',
       'Add proper error handling and edge case management',
@@ -57,9 +70,11 @@ Think strategically: what kind of code would challenge another LLM's ability to
 **VALIDATION:**
 The system will run: \`make setup && make test\`
 Success requires both commands to complete with exit code 0.
-
-**TIMEOUT:** Task will be terminated if not completed within 5 minutes.
+A passing baseline is then scored on quality: \`make build\` and \`make lint\` passing and the percentage reported by \`make coverage\`.
 `.trim(),
+
+    // The runner's fixed limit; withTimeLimit states the participant's own
+    timeLimitMs: 300000,
   };
 
   static readonly BUG_INJECTION: SystemPromptConfig = {
@@ -68,7 +83,7 @@ Inject a subtle bug into the existing project that will challenge other LLMs to
 
 **YOUR MISSION:** Introduce a realistic programming error that requires skill to identify and resolve.
 
-**TIME LIMIT:** You have exactly 3 minutes to complete this task. Work efficiently and focus on introducing a meaningful bug.
+Work efficiently and focus on introducing a meaningful bug.
 `.trim(),
 
     competitiveChallenge: `
@@ -98,9 +113,10 @@ Strategic thinking: What kind of mistake would a skilled programmer make that re
 **VALIDATION:**
 The system will run: \`make test\`
 Success requires the command to FAIL (exit code != 0) with clear test failure output.
-
-**TIMEOUT:** Task will be terminated if not completed within 3 minutes.
+Any change to test files, or to the Makefile \`test\` target and anything it depends on, is rejected before tests run.
 `.trim(),
+
+    timeLimitMs: 180000,
   };
 
   static readonly FIX_ATTEMPT: SystemPromptConfig = {
@@ -109,7 +125,7 @@ Analyze the failing project and fix the bug to restore full functionality.
 
 **YOUR MISSION:** Demonstrate superior debugging skills by identifying and fixing the introduced error.
 
-**TIME LIMIT:** You have exactly 3 minutes to complete this task. Work efficiently to identify and fix the bug.
+Work efficiently to identify and fix the bug.
 `.trim(),
 
     competitiveChallenge: `
@@ -138,15 +154,84 @@ This tests your ability to understand complex codebases and apply precise fixes
 **VALIDATION:**
 The system will run: \`make test\`
 Success requires all tests to PASS (exit code 0) with no failures.
-
-**TIMEOUT:** Task will be terminated if not completed within 3 minutes.
+Your source is then tested again with the baseline's original tests and Makefile, which must also pass.
+Any change to test files, or to the Makefile \`test\` target and anything it depends on, is rejected before tests run.
 `.trim(),
+
+    timeLimitMs: 180000,
   };
 
+  static withTimeLimit(config: SystemPromptConfig, timeLimitMs: number): SystemPromptConfig {
+    return { ...config, timeLimitMs };
+  }
+
+  // Competitions without network access can only install what the local package caches hold
+  static withOfflineDependencies(
+    config: SystemPromptConfig,
+    ecosystems: readonly string[]
+  ): SystemPromptConfig {
+    const available =
+      ecosystems.length > 0
+        ? `Only these package ecosystems are available, from local caches:\n${ecosystems.map(ecosystem => `- ${ecosystem}`).join('\n')}`
+        : 'No package ecosystems are available, so rely on the standard library only.';
+    return {
+      ...config,
+      requirements: [
+        ...config.requirements,
+        'Only use dependencies that can be installed offline from the listed package caches',
+      ],
+      validationProcess: `${config.validationProcess}
+
+**OFFLINE:** \`make setup\` runs without network access; package managers are preconfigured to install from local caches.
+${available}`,
+    };
+  }
+
+  // A challenge takes away the free choice of language and application type
+  static withChallenge(config: SystemPromptConfig, challenge: ChallengeSpec): SystemPromptConfig {
+    const requirements = [
+      ...(challenge.language !== undefined ? [`Write the project in ${challenge.language}`] : []),
+      ...(challenge.domain !== undefined ? [`Build ${challenge.domain}`] : []),
+      ...(challenge.maxSourceLines !== undefined
+        ? [
+            `Keep the source code within ${challenge.maxSourceLines} non-blank lines (tests are not counted)`,
+          ]
+        : []),
+      ...challenge.features.map(feature => `Implement ${feature}`),
+      ...challenge.requiredTargets.map(target => `Provide a passing \`make ${target}\` target`),
+    ];
+    const checks = [
+      ...(challenge.language !== undefined ? ['the language of the code'] : []),
+      ...(challenge.maxSourceLines !== undefined ? ['the number of source lines'] : []),
+      ...(challenge.requiredTargets.length > 0 ? ['the required make targets'] : []),
+    ];
+    const replacesFreeChoice = challenge.language !== undefined || challenge.domain !== undefined;
+
+    return {
+      ...config,
+      requirements: [
+        ...requirements,
+        ...config.requirements.filter(
+          requirement =>
+            !replacesFreeChoice || requirement !== SystemPrompts.FREE_CHOICE_REQUIREMENT
+        ),
+      ],
+      validationProcess:
+        checks.length > 0
+          ? `${config.validationProcess}
+
+**CHALLENGE (${challenge.name}):** A passing project is rejected unless it meets the challenge; the system checks ${checks.join(', ')}.`
+          : config.validationProcess,
+    };
+  }
+
   static formatPrompt(config: SystemPromptConfig): string {
+    const timeLimit = describeTimeLimit(config.timeLimitMs);
     return `
 ${config.taskDescription}
 
+**TIME LIMIT:** You have exactly ${timeLimit} to complete this task.
+
 ${config.competitiveChallenge}
 
 ${config.contract}
@@ -156,7 +241,21 @@ ${config.requirements.map(req => `- ${req}`).join('\n')}
 
 ${config.validationProcess}
 
+**TIMEOUT:** Task will be terminated if not completed within ${timeLimit}.
+
 **BEGIN:** Start immediately. Create/modify files as needed and ensure the contract is fulfilled.
 `.trim();
   }
 }
+
+// '5 minutes', '1 minute 30 seconds' or '45 seconds'
+function describeTimeLimit(timeLimitMs: number): string {
+  const totalSeconds = Math.round(timeLimitMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  return [
+    ...(minutes > 0 ? [plural(minutes, 'minute')] : []),
+    ...(seconds > 0 || minutes === 0 ? [plural(seconds, 'second')] : []),
+  ].join(' ');
+}
@@ -1,23 +1,55 @@
 // ABOUTME: LLMProvider interface defining the contract for all LLM providers
 // System provides prompts, providers execute tasks using their specific implementation
 
+// Why a provider gave up on a phase, for providers that can tell
+export type ProviderFailureReason =
+  | 'workspace-error'
+  | 'timeout'
+  | 'max-turns'
+  | 'execution-error'
+  | 'agent-error'
+  | 'no-result'
+  | 'missing-make-targets';
+
+export interface ProviderPhaseResult {
+  readonly success: boolean;
+  readonly message: string;
+  readonly failureReason?: ProviderFailureReason | undefined;
+}
+
+// How long a provider lets each phase run before stopping it itself
+export interface ProviderPhaseTimeouts {
+  readonly baselineTimeoutMs: number;
+  readonly bugInjectionTimeoutMs: number;
+  readonly fixAttemptTimeoutMs: number;
+}
+
+// Every phase may be given a signal that aborts once the runner stops waiting for it; the provider
+// must then stop touching the workspace
 export interface LLMProvider {
   readonly name: string;
+  // Settings the provider was created with, recorded with the competition to recreate it on resume
+  readonly config?: object | undefined;
+  // Replaces the runner's own phase limits, so a participant can be given more time than those
+  readonly phaseTimeouts?: ProviderPhaseTimeouts | undefined;
 
   createCodingExercise(
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }>;
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult>;
 
   injectBug(
     baselineDir: string,
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }>;
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult>;
 
   fixAttempt(
     buggyDir: string,
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }>;
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult>;
 }
@@ -0,0 +1,50 @@
+// ABOUTME: Checks a built baseline against the challenge spec its round was played under
+// Uses the detected toolchain for language and size, and the quality report for required targets
+
+import { ChallengeSpec } from 'domain/competition-prompts/challenge-spec';
+import { ToolchainProfile } from 'infrastructure/workspace/toolchain-detector';
+import { QualityReport } from './quality-report';
+
+export interface ChallengeCheck {
+  readonly name: string;
+  readonly success: boolean;
+  readonly violations: readonly string[];
+}
+
+export function checkChallenge(
+  challenge: ChallengeSpec,
+  toolchain: ToolchainProfile | undefined,
+  quality: QualityReport | undefined
+): ChallengeCheck {
+  const violations: string[] = [];
+
+  if (challenge.language !== undefined) {
+    const language = toolchain?.language ?? null;
+    if (language === null) {
+      violations.push(`expected ${challenge.language}, but no language was detected`);
+    } else if (language.toLowerCase() !== challenge.language.toLowerCase()) {
+      violations.push(`expected ${challenge.language}, but the project is written in ${language}`);
+    }
+  }
+
+  if (challenge.maxSourceLines !== undefined) {
+    if (!toolchain) {
+      violations.push('source lines could not be counted');
+    } else if (toolchain.sourceLines > challenge.maxSourceLines) {
+      violations.push(
+        `${toolchain.sourceLines} source lines exceed the limit of ${challenge.maxSourceLines}`
+      );
+    }
+  }
+
+  for (const target of challenge.requiredTargets) {
+    const result = quality?.targets.find(candidate => candidate.target === target);
+    if (!result) {
+      violations.push(`'make ${target}' is required but not defined`);
+    } else if (!result.success) {
+      violations.push(`'make ${target}' is required but failed`);
+    }
+  }
+
+  return { name: challenge.name, success: violations.length === 0, violations };
+}
@@ -0,0 +1,52 @@
+// ABOUTME: Tests for running make targets on the host under per-target limits
+// Uses throwaway Makefiles with slow and noisy targets
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_MAKE_LIMITS, HostMakeExecutor } from './make-executor';
+import { MakefileValidator } from './makefile-validator';
+
+describe('HostMakeExecutor', () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await mkdtemp(join(tmpdir(), 'make-executor-test-'));
+    await writeFile(
+      join(workspaceDir, 'Makefile'),
+      'setup:\n\tsleep 1\ntest:\n\tsleep 30\nnoisy:\n\tseq 1 100000\n'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('should give each target its own timeout and flag the one that ran out', async () => {
+    const validator = new MakefileValidator(
+      new HostMakeExecutor({
+        ...DEFAULT_MAKE_LIMITS,
+        timeoutsMs: { setup: 5000 },
+        defaultTimeoutMs: 300,
+      })
+    );
+
+    const result = await validator.validateSetupAndTest(workspaceDir);
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.message).toBe("'make test' failed: 'make test' timed out after 0.3s");
+  });
+
+  it('should cap the captured output and mark where it was cut', async () => {
+    const executor = new HostMakeExecutor({ ...DEFAULT_MAKE_LIMITS, maxOutputBytes: 1000 });
+
+    const result = await executor.run(workspaceDir, 'noisy');
+
+    expect(result.success).toBe(true);
+    expect(result.outputTruncated).toBe(true);
+    expect(result.stdout).toContain('bytes of output truncated');
+    expect(result.stdout?.trimEnd().endsWith('100000')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+// ABOUTME: Make target executors used by the contract validator
+// The host executor runs make directly and is meant for trusted code such as the mock provider
+
+import { BoundedProcessResult, runBoundedProcess } from 'utils/bounded-process';
+import {
+  DependencyCacheConfig,
+  getDependencyCacheEnv,
+} from 'infrastructure/workspace/dependency-cache';
+
+export interface MakeResult {
+  readonly success: boolean;
+  readonly message: string;
+  readonly stdout?: string | undefined;
+  readonly stderr?: string | undefined;
+  readonly exitCode?: number | undefined;
+  // Set when the target ran past its timeout and was killed
+  readonly timedOut?: boolean | undefined;
+  // Set when stdout or stderr exceeded the output cap and was cut
+  readonly outputTruncated?: boolean | undefined;
+}
+
+export interface MakeExecutor {
+  readonly name: string;
+  run(workspaceDir: string, target: string): Promise<MakeResult>;
+}
+
+export interface MakeLimits {
+  // Per target; targets without an entry get the default
+  readonly timeoutsMs: Readonly<Record<string, number>>;
+  readonly defaultTimeoutMs: number;
+  // Bytes captured from each of stdout and stderr
+  readonly maxOutputBytes: number;
+}
+
+// Dependency installs routinely take minutes; everything else should be quick
+export const DEFAULT_MAKE_LIMITS: MakeLimits = {
+  timeoutsMs: { setup: 600000, test: 300000 },
+  defaultTimeoutMs: 60000,
+  maxOutputBytes: 1024 * 1024,
+};
+
+export function getTargetTimeoutMs(limits: MakeLimits, target: string): number {
+  return limits.timeoutsMs[target] ?? limits.defaultTimeoutMs;
+}
+
+export class HostMakeExecutor implements MakeExecutor {
+  readonly name = 'host';
+
+  constructor(
+    private readonly limits: MakeLimits = DEFAULT_MAKE_LIMITS,
+    private readonly dependencyCache: DependencyCacheConfig = {}
+  ) {}
+
+  async run(workspaceDir: string, target: string): Promise<MakeResult> {
+    const timeoutMs = getTargetTimeoutMs(this.limits, target);
+    const result = await runBoundedProcess('make', [target], {
+      cwd: workspaceDir,
+      timeoutMs,
+      maxOutputBytes: this.limits.maxOutputBytes,
+      env: { ...process.env, ...getDependencyCacheEnv(this.dependencyCache) },
+    });
+    const { stdout, stderr, timedOut, outputTruncated } = result;
+
+    if (result.exitCode === 0 && !timedOut) {
+      return {
+        success: true,
+        message: `'make ${target}' completed successfully`,
+        stdout,
+        stderr,
+        exitCode: 0,
+        ...(outputTruncated && { outputTruncated }),
+      };
+    }
+
+    return {
+      success: false,
+      message: describeFailure(target, timeoutMs, result),
+      stdout,
+      stderr,
+      exitCode: result.exitCode ?? 1,
+      ...(timedOut && { timedOut }),
+      ...(outputTruncated && { outputTruncated }),
+    };
+  }
+}
+
+export function describeFailure(
+  target: string,
+  timeoutMs: number,
+  result: Pick<BoundedProcessResult, 'exitCode' | 'signal' | 'timedOut' | 'error' | 'stderr'>
+): string {
+  if (result.timedOut) {
+    return `'make ${target}' timed out after ${timeoutMs / 1000}s`;
+  }
+  if (result.error) {
+    return `'make ${target}' could not be started: ${result.error.message}`;
+  }
+  if (result.signal) {
+    return `'make ${target}' was killed by ${result.signal}`;
+  }
+  // make's own complaint, such as a missing rule, ends up on the last line of stderr
+  const lastError = result.stderr.trimEnd().split('\n').pop()?.trim();
+  return `'make ${target}' failed with exit code ${result.exitCode}${lastError ? `: ${lastError}` : ''}`;
+}
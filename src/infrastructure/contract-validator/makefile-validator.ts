@@ -1,12 +1,20 @@
 // ABOUTME: Validates that projects follow the standardized Makefile contract
 // Executes 'make setup' and 'make test' to verify LLM provider compliance
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
 import { join } from 'path';
-
-const execAsync = promisify(exec);
+import { HostMakeExecutor, MakeExecutor } from './make-executor';
+import {
+  QUALITY_TARGETS,
+  QualityReport,
+  QualityTargetResult,
+  createQualityReport,
+  parseCoverage,
+} from './quality-report';
+import { extractMakeRule } from './test-integrity-validator';
+import { TestReport } from 'infrastructure/test-results/test-report';
+import { TestReportReader } from 'infrastructure/test-results/test-report-reader';
 
 export interface ValidationResult {
   readonly success: boolean;
@@ -14,9 +22,18 @@ export interface ValidationResult {
   readonly stdout?: string | undefined;
   readonly stderr?: string | undefined;
   readonly exitCode?: number | undefined;
+  // Set when a make target ran past its timeout and was killed
+  readonly timedOut?: boolean | undefined;
+  // Per-test results, when the test runner's report or output could be recognised
+  readonly tests?: TestReport | undefined;
 }
 
 export class MakefileValidator {
+  constructor(
+    private readonly executor: MakeExecutor = new HostMakeExecutor(),
+    private readonly testReportReader: TestReportReader = new TestReportReader()
+  ) {}
+
   async validateSetupAndTest(workspaceDir: string): Promise<ValidationResult> {
     const makefilePath = join(workspaceDir, 'Makefile');
 
@@ -36,10 +53,11 @@ export class MakefileValidator {
           stdout: setupResult.stdout,
           stderr: setupResult.stderr,
           exitCode: setupResult.exitCode,
+          timedOut: setupResult.timedOut,
         };
       }
 
-      const testResult = await this.executeMakeCommand(workspaceDir, 'test');
+      const testResult = await this.executeTests(workspaceDir);
       return {
         success: testResult.success,
         message: testResult.success
@@ -48,6 +66,8 @@ export class MakefileValidator {
         stdout: testResult.stdout,
         stderr: testResult.stderr,
         exitCode: testResult.exitCode,
+        timedOut: testResult.timedOut,
+        tests: testResult.tests,
       };
     } catch (error) {
       return {
@@ -68,7 +88,7 @@ export class MakefileValidator {
     }
 
     try {
-      const testResult = await this.executeMakeCommand(workspaceDir, 'test');
+      const testResult = await this.executeTests(workspaceDir);
       return {
         success: testResult.success,
         message: testResult.success
@@ -77,6 +97,8 @@ export class MakefileValidator {
         stdout: testResult.stdout,
         stderr: testResult.stderr,
         exitCode: testResult.exitCode,
+        timedOut: testResult.timedOut,
+        tests: testResult.tests,
       };
     } catch (error) {
       return {
@@ -87,6 +109,14 @@ export class MakefileValidator {
   }
 
   async expectTestFailure(workspaceDir: string): Promise<ValidationResult> {
+    // A missing Makefile also makes 'make test' fail, but that is not a bug injection
+    if (!existsSync(join(workspaceDir, 'Makefile'))) {
+      return {
+        success: false,
+        message: 'Missing required Makefile in project root',
+      };
+    }
+
     const testResult = await this.validateTestOnly(workspaceDir);
 
     if (testResult.success) {
@@ -95,6 +125,7 @@ export class MakefileValidator {
         message: 'Expected tests to fail after bug injection, but they passed',
         stdout: testResult.stdout,
         stderr: testResult.stderr,
+        tests: testResult.tests,
       };
     }
 
@@ -104,34 +135,52 @@ export class MakefileValidator {
       stdout: testResult.stdout,
       stderr: testResult.stderr,
       exitCode: testResult.exitCode,
+      timedOut: testResult.timedOut,
+      tests: testResult.tests,
     };
   }
 
+  // Runs whichever optional build, lint and coverage targets the Makefile defines; none of them
+  // decides whether the contract holds, they only measure the project's quality
+  async assessQuality(workspaceDir: string): Promise<QualityReport> {
+    let makefile: string;
+    try {
+      makefile = await readFile(join(workspaceDir, 'Makefile'), 'utf-8');
+    } catch {
+      return createQualityReport([], undefined);
+    }
+
+    const targets: QualityTargetResult[] = [];
+    let coverage: number | undefined;
+    for (const target of QUALITY_TARGETS) {
+      if (extractMakeRule(makefile, target) === null) continue;
+
+      const result = await this.executeMakeCommand(workspaceDir, target);
+      targets.push({
+        target,
+        success: result.success,
+        message: result.message,
+        exitCode: result.exitCode,
+        ...(result.timedOut && { timedOut: true }),
+      });
+      if (target === 'coverage' && result.success) {
+        coverage = parseCoverage(`${result.stdout ?? ''}\n${result.stderr ?? ''}`);
+      }
+    }
+    return createQualityReport(targets, coverage);
+  }
+
+  private async executeTests(workspaceDir: string): Promise<ValidationResult> {
+    const reportsBefore = await this.testReportReader.snapshot(workspaceDir);
+    const result = await this.executeMakeCommand(workspaceDir, 'test');
+    const tests = await this.testReportReader.read(workspaceDir, result, reportsBefore);
+    return { ...result, tests };
+  }
+
   private async executeMakeCommand(
     workspaceDir: string,
     target: string
   ): Promise<ValidationResult> {
-    try {
-      const { stdout, stderr } = await execAsync(`make ${target}`, {
-        cwd: workspaceDir,
-        timeout: 60000, // 1 minute timeout
-      });
-
-      return {
-        success: true,
-        message: `'make ${target}' completed successfully`,
-        stdout,
-        stderr,
-        exitCode: 0,
-      };
-    } catch (error: unknown) {
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : `'make ${target}' failed`,
-        stdout: (error as { stdout?: string }).stdout || '',
-        stderr: (error as { stderr?: string }).stderr || '',
-        exitCode: (error as { code?: number }).code || 1,
-      };
-    }
+    return this.executor.run(workspaceDir, target);
   }
 }
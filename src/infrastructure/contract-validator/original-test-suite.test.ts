@@ -0,0 +1,70 @@
+// ABOUTME: Tests for rebuilding a fixed workspace around the baseline's original tests
+// Covers which files are put back and that the temporary copy never outlives the run
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { withOriginalTests } from './original-test-suite';
+
+describe('withOriginalTests', () => {
+  let tempDir: string;
+  let baselineDir: string;
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'original-tests-test-'));
+    baselineDir = join(tempDir, 'baseline');
+    workspaceDir = join(tempDir, 'workspace');
+
+    await mkdir(join(baselineDir, 'src'), { recursive: true });
+    await writeFile(join(baselineDir, 'Makefile'), 'test:\n\tnpx vitest run\n');
+    await writeFile(join(baselineDir, 'src', 'calculator.ts'), 'export const add = (a, b) => a;');
+    await writeFile(join(baselineDir, 'calculator.test.ts'), 'expect(add(2, 3)).toBe(5);');
+    await cp(baselineDir, workspaceDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should put back the original tests and Makefile but keep the fixed source', async () => {
+    await writeFile(
+      join(workspaceDir, 'src', 'calculator.ts'),
+      'export const add = (a, b) => a + b;'
+    );
+    await writeFile(join(workspaceDir, 'calculator.test.ts'), 'expect(true).toBe(true);');
+    await writeFile(join(workspaceDir, 'Makefile'), 'test:\n\ttrue\n');
+    await writeFile(join(workspaceDir, 'extra.test.ts'), 'it.skip()');
+
+    const files = await withOriginalTests(baselineDir, workspaceDir, async dir => ({
+      source: await readFile(join(dir, 'src', 'calculator.ts'), 'utf-8'),
+      test: await readFile(join(dir, 'calculator.test.ts'), 'utf-8'),
+      makefile: await readFile(join(dir, 'Makefile'), 'utf-8'),
+      extraTest: existsSync(join(dir, 'extra.test.ts')),
+    }));
+
+    expect(files).toEqual({
+      source: 'export const add = (a, b) => a + b;',
+      test: 'expect(add(2, 3)).toBe(5);',
+      makefile: 'test:\n\tnpx vitest run\n',
+      extraTest: false,
+    });
+  });
+
+  it('should remove the temporary copy even when the run fails', async () => {
+    let copyDir = '';
+
+    await expect(
+      withOriginalTests(baselineDir, workspaceDir, async dir => {
+        copyDir = dir;
+        throw new Error('make failed');
+      })
+    ).rejects.toThrow('make failed');
+
+    expect(copyDir.startsWith(tmpdir())).toBe(true);
+    expect(existsSync(copyDir)).toBe(false);
+    expect(existsSync(`${workspaceDir}-original-tests`)).toBe(false);
+  });
+});
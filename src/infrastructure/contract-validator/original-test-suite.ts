@@ -0,0 +1,47 @@
+// ABOUTME: Rebuilds a fixed project around the baseline author's original tests and Makefile
+// Fixers are judged by the tests they were handed, not by whatever tests their workspace ends with
+
+import { copyFile, cp, mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { diffWorkspaces } from 'infrastructure/workspace/workspace-diff';
+
+// Copies the fixed workspace to targetDir, then puts back every test and build contract file
+// exactly as the baseline had it; source files keep the fixer's version
+export async function restoreOriginalTests(
+  baselineDir: string,
+  workspaceDir: string,
+  targetDir: string
+): Promise<string> {
+  await rm(targetDir, { recursive: true, force: true });
+  await cp(workspaceDir, targetDir, { recursive: true });
+
+  for (const change of await diffWorkspaces(baselineDir, targetDir)) {
+    if (change.category === 'source') continue;
+
+    const target = join(targetDir, change.path);
+    if (change.kind === 'added') {
+      await rm(target, { force: true });
+    } else {
+      await mkdir(dirname(target), { recursive: true });
+      await copyFile(join(baselineDir, change.path), target);
+    }
+  }
+
+  return targetDir;
+}
+
+// Runs `run` on a temporary copy of the fixed workspace with the original tests restored, and
+// removes the copy afterwards whatever happens
+export async function withOriginalTests<T>(
+  baselineDir: string,
+  workspaceDir: string,
+  run: (originalTestsDir: string) => Promise<T>
+): Promise<T> {
+  const targetDir = await mkdtemp(join(tmpdir(), 'original-tests-'));
+  try {
+    return await run(await restoreOriginalTests(baselineDir, workspaceDir, targetDir));
+  } finally {
+    await rm(targetDir, { recursive: true, force: true });
+  }
+}
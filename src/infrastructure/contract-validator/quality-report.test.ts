@@ -0,0 +1,109 @@
+// ABOUTME: Tests for quality scoring from the optional build, lint and coverage make targets
+// Uses a recording executor so each target's outcome is chosen by the test
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MakeExecutor, MakeResult } from './make-executor';
+import { MakefileValidator } from './makefile-validator';
+import { createQualityReport, parseCoverage } from './quality-report';
+
+class RecordingMakeExecutor implements MakeExecutor {
+  readonly name = 'recording';
+  readonly targets: string[] = [];
+
+  constructor(private readonly results: Record<string, MakeResult>) {}
+
+  async run(_workspaceDir: string, target: string): Promise<MakeResult> {
+    this.targets.push(target);
+    return this.results[target] ?? { success: true, message: `'make ${target}' completed` };
+  }
+}
+
+describe('parseCoverage', () => {
+  it('should read the last coverage line of the output', () => {
+    expect(parseCoverage('COVERAGE: 40%\nsrc/a.ts 80%\ncoverage: 87.5 %\nDone')).toBe(87.5);
+  });
+
+  it('should ignore missing and impossible percentages', () => {
+    expect(parseCoverage('All files | 90 |')).toBeUndefined();
+    expect(parseCoverage('COVERAGE: 120%')).toBeUndefined();
+  });
+});
+
+describe('createQualityReport', () => {
+  it('should give build, lint and coverage a third of the score each', () => {
+    const report = createQualityReport(
+      [
+        { target: 'build', success: true, message: 'ok' },
+        { target: 'lint', success: false, message: 'failed' },
+        { target: 'coverage', success: true, message: 'ok' },
+      ],
+      60
+    );
+
+    expect(report.score).toBe(0.53);
+    expect(report.coverage).toBe(60);
+  });
+});
+
+describe('MakefileValidator.assessQuality', () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await mkdtemp(join(tmpdir(), 'quality-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('should run only the optional targets the Makefile defines', async () => {
+    await writeFile(
+      join(workspaceDir, 'Makefile'),
+      'setup:\n\tnpm ci\ntest:\n\tnpm test\ncoverage:\n\tnpm run coverage\nlint: setup\n\tnpm run lint\n'
+    );
+    const executor = new RecordingMakeExecutor({
+      coverage: {
+        success: true,
+        message: "'make coverage' completed",
+        stdout: 'Tests: 12 passed\nCOVERAGE: 75%\n',
+      },
+    });
+
+    const report = await new MakefileValidator(executor).assessQuality(workspaceDir);
+
+    expect(executor.targets).toEqual(['lint', 'coverage']);
+    expect(report).toEqual({
+      targets: [
+        { target: 'lint', success: true, message: "'make lint' completed", exitCode: undefined },
+        {
+          target: 'coverage',
+          success: true,
+          message: "'make coverage' completed",
+          exitCode: undefined,
+        },
+      ],
+      coverage: 75,
+      score: 0.58,
+    });
+  });
+
+  it('should not trust the coverage of a failing coverage target', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), 'coverage:\n\tnpm run coverage\n');
+    const executor = new RecordingMakeExecutor({
+      coverage: {
+        success: false,
+        message: "'make coverage' failed",
+        stdout: 'COVERAGE: 99%',
+        exitCode: 2,
+      },
+    });
+
+    const report = await new MakefileValidator(executor).assessQuality(workspaceDir);
+
+    expect(report.coverage).toBeUndefined();
+    expect(report.score).toBe(0);
+  });
+});
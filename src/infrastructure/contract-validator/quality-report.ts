@@ -0,0 +1,52 @@
+// ABOUTME: Quality report built from the optional build, lint and coverage targets of a Makefile
+// Parses the coverage percentage 'make coverage' prints and scores a baseline between 0 and 1
+
+export type QualityTarget = 'build' | 'lint' | 'coverage';
+
+// In the order they run: a project has to build before it can be linted or measured
+export const QUALITY_TARGETS: readonly QualityTarget[] = ['build', 'lint', 'coverage'];
+
+export interface QualityTargetResult {
+  readonly target: QualityTarget;
+  readonly success: boolean;
+  readonly message: string;
+  readonly exitCode?: number | undefined;
+  readonly timedOut?: boolean | undefined;
+}
+
+export interface QualityReport {
+  // Only the optional targets the Makefile defines
+  readonly targets: readonly QualityTargetResult[];
+  // Percentage printed by a successful 'make coverage' as a 'COVERAGE: 87.5%' line
+  readonly coverage?: number | undefined;
+  // Build, lint and coverage each contribute a third; a missing target contributes nothing
+  readonly score: number;
+}
+
+const COVERAGE_LINE = /^\s*COVERAGE:\s*(\d+(?:\.\d+)?)\s*%\s*$/gim;
+
+// The last line wins, so tools that print per-file figures before the total still parse
+export function parseCoverage(output: string): number | undefined {
+  let coverage: number | undefined;
+  for (const match of output.matchAll(COVERAGE_LINE)) {
+    const value = Number(match[1]);
+    if (value <= 100) {
+      coverage = value;
+    }
+  }
+  return coverage;
+}
+
+export function createQualityReport(
+  targets: readonly QualityTargetResult[],
+  coverage: number | undefined
+): QualityReport {
+  const passed = (target: QualityTarget) =>
+    targets.some(result => result.target === target && result.success);
+  const points = (passed('build') ? 1 : 0) + (passed('lint') ? 1 : 0) + (coverage ?? 0) / 100;
+  return {
+    targets,
+    ...(coverage !== undefined && { coverage }),
+    score: Math.round((points / 3) * 100) / 100,
+  };
+}
@@ -0,0 +1,102 @@
+// ABOUTME: Tests for the container-sandboxed make executor
+// Uses a stand-in runtime script so no Docker or Podman installation is needed
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_SANDBOX_CONFIG, SandboxedMakeExecutor } from './sandboxed-make-executor';
+import { MakefileValidator } from './makefile-validator';
+
+describe('SandboxedMakeExecutor', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'sandbox-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  // Prints its arguments one per line and fails when the make target is 'test'
+  async function createFakeRuntime(): Promise<string> {
+    const runtimePath = join(tempDir, 'fake-docker');
+    await writeFile(
+      runtimePath,
+      '#!/bin/sh\nfor arg in "$@"; do echo "$arg"; done\n' +
+        'for last in "$@"; do :; done\n[ "$last" = "test" ] && exit 2\nexit 0\n'
+    );
+    await chmod(runtimePath, 0o755);
+    return runtimePath;
+  }
+
+  it('should isolate the container from the network and the host filesystem', () => {
+    const executor = new SandboxedMakeExecutor(DEFAULT_SANDBOX_CONFIG);
+
+    const args = executor.buildArgs('/tmp/workspace', 'setup', 'arena-make-1');
+
+    expect(args.slice(0, 2)).toEqual(['run', '--rm']);
+    expect(args).toContain('--network=none');
+    expect(args).toContain('--read-only');
+    expect(args).toContain('--cpus=1');
+    expect(args).toContain('--memory=1g');
+    expect(args).toContain('--volume=/tmp/workspace:/workspace:rw');
+    expect(args).toContain('--workdir=/workspace');
+    expect(args.slice(-3)).toEqual(['node:20-bookworm', 'make', 'setup']);
+  });
+
+  it('should mount dependency caches read-only and point package managers at them', () => {
+    const executor = new SandboxedMakeExecutor(DEFAULT_SANDBOX_CONFIG, undefined, {
+      npm: '/srv/npm-cache',
+      pip: '/srv/wheels',
+    });
+
+    const args = executor.buildArgs('/tmp/workspace', 'setup', 'arena-make-1');
+
+    expect(args).toContain('--volume=/srv/npm-cache:/cache/npm:ro');
+    expect(args).toContain('--volume=/srv/wheels:/cache/pip:ro');
+    expect(args).toContain('--env=npm_config_cache=/cache/npm');
+    expect(args).toContain('--env=npm_config_offline=true');
+    expect(args).toContain('--env=npm_config_logs_dir=/tmp/npm-logs');
+    expect(args).toContain('--env=PIP_FIND_LINKS=/cache/pip');
+    expect(args.slice(-3)).toEqual(['node:20-bookworm', 'make', 'setup']);
+  });
+
+  it('should be named after its runtime', () => {
+    const executor = new SandboxedMakeExecutor({ ...DEFAULT_SANDBOX_CONFIG, runtime: 'podman' });
+
+    expect(executor.name).toBe('sandbox:podman');
+  });
+
+  it('should report the exit code of make inside the container', async () => {
+    const executor = new SandboxedMakeExecutor({
+      ...DEFAULT_SANDBOX_CONFIG,
+      runtimeCommand: await createFakeRuntime(),
+    });
+
+    const setup = await executor.run(tempDir, 'setup');
+    const test = await executor.run(tempDir, 'test');
+
+    expect(setup.success).toBe(true);
+    expect(setup.stdout).toContain(`--volume=${tempDir}:/workspace:rw`);
+    expect(test.success).toBe(false);
+    expect(test.exitCode).toBe(2);
+  });
+
+  it('should drive the Makefile contract through the sandbox', async () => {
+    await writeFile(join(tempDir, 'Makefile'), 'setup:\n\ttrue\ntest:\n\ttrue\n');
+    const validator = new MakefileValidator(
+      new SandboxedMakeExecutor({
+        ...DEFAULT_SANDBOX_CONFIG,
+        runtimeCommand: await createFakeRuntime(),
+      })
+    );
+
+    const result = await validator.validateSetupAndTest(tempDir);
+
+    // The fake runtime fails 'make test', which proves the host make was never used
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("'make test' failed");
+  });
+});
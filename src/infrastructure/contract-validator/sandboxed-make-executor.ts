@@ -0,0 +1,159 @@
+// ABOUTME: Runs make targets inside a throwaway Docker or Podman container
+// LLM-written Makefiles get no network, a read-only root, resource limits and only their workspace
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { runBoundedProcess } from 'utils/bounded-process';
+import {
+  DependencyCacheConfig,
+  getCachedEcosystems,
+  getDependencyCacheEnv,
+} from 'infrastructure/workspace/dependency-cache';
+import {
+  DEFAULT_MAKE_LIMITS,
+  MakeExecutor,
+  MakeLimits,
+  MakeResult,
+  describeFailure,
+  getTargetTimeoutMs,
+} from './make-executor';
+
+const execFileAsync = promisify(execFile);
+
+export interface SandboxConfig {
+  readonly runtime: 'docker' | 'podman';
+  // Path or name of the runtime binary, for runtimes installed outside PATH
+  readonly runtimeCommand?: string;
+  readonly image: string;
+  readonly cpus: number;
+  readonly memory: string;
+  readonly pidsLimit: number;
+  readonly tmpfsSize: string;
+}
+
+export const DEFAULT_SANDBOX_CONFIG: SandboxConfig = {
+  runtime: 'docker',
+  image: 'node:20-bookworm',
+  cpus: 1,
+  memory: '1g',
+  pidsLimit: 256,
+  tmpfsSize: '256m',
+};
+
+const CONTAINER_WORKSPACE = '/workspace';
+const CONTAINER_CACHE_ROOT = '/cache';
+
+const NPM_READ_ONLY_CACHE_ENV: Record<string, string> = {
+  npm_config_logs_dir: '/tmp/npm-logs',
+  npm_config_update_notifier: 'false',
+};
+
+let containerCounter = 0;
+
+export class SandboxedMakeExecutor implements MakeExecutor {
+  readonly name: string;
+
+  constructor(
+    private readonly config: SandboxConfig = DEFAULT_SANDBOX_CONFIG,
+    private readonly limits: MakeLimits = DEFAULT_MAKE_LIMITS,
+    private readonly dependencyCache: DependencyCacheConfig = {}
+  ) {
+    this.name = `sandbox:${config.runtime}`;
+  }
+
+  buildArgs(workspaceDir: string, target: string, containerName: string): string[] {
+    const { cpus, memory, pidsLimit, tmpfsSize, image } = this.config;
+    const user =
+      typeof process.getuid === 'function'
+        ? [`--user=${process.getuid()}:${process.getgid?.()}`]
+        : [];
+
+    return [
+      'run',
+      '--rm',
+      `--name=${containerName}`,
+      '--network=none',
+      '--read-only',
+      `--tmpfs=/tmp:rw,exec,size=${tmpfsSize}`,
+      `--cpus=${cpus}`,
+      `--memory=${memory}`,
+      `--pids-limit=${pidsLimit}`,
+      '--security-opt=no-new-privileges',
+      '--cap-drop=ALL',
+      ...user,
+      '--env=HOME=/tmp',
+      `--volume=${workspaceDir}:${CONTAINER_WORKSPACE}:rw`,
+      ...this.buildCacheArgs(),
+      `--workdir=${CONTAINER_WORKSPACE}`,
+      image,
+      'make',
+      target,
+    ];
+  }
+
+  // Every cache is mounted read-only so one make run cannot plant packages for the next. An
+  // offline npm install only reads its cache once its logs go to /tmp and update checks are off
+  private buildCacheArgs(): string[] {
+    const ecosystems = getCachedEcosystems(this.dependencyCache);
+    const containerCache = Object.fromEntries(
+      ecosystems.map(ecosystem => [ecosystem, `${CONTAINER_CACHE_ROOT}/${ecosystem}`])
+    );
+    const env = {
+      ...getDependencyCacheEnv(containerCache),
+      ...(ecosystems.includes('npm') && NPM_READ_ONLY_CACHE_ENV),
+    };
+    return [
+      ...ecosystems.map(
+        ecosystem => `--volume=${this.dependencyCache[ecosystem]}:${containerCache[ecosystem]}:ro`
+      ),
+      ...Object.entries(env).map(([name, value]) => `--env=${name}=${value}`),
+    ];
+  }
+
+  async run(workspaceDir: string, target: string): Promise<MakeResult> {
+    const command = this.config.runtimeCommand ?? this.config.runtime;
+    const containerName = `arena-make-${process.pid}-${++containerCounter}`;
+    const timeoutMs = getTargetTimeoutMs(this.limits, target);
+
+    const result = await runBoundedProcess(
+      command,
+      this.buildArgs(workspaceDir, target, containerName),
+      { timeoutMs, maxOutputBytes: this.limits.maxOutputBytes }
+    );
+    const { stdout, stderr, timedOut, outputTruncated } = result;
+
+    if (result.exitCode === 0 && !timedOut) {
+      return {
+        success: true,
+        message: `'make ${target}' completed successfully in ${this.name}`,
+        stdout,
+        stderr,
+        exitCode: 0,
+        ...(outputTruncated && { outputTruncated }),
+      };
+    }
+
+    // Killing the client on timeout does not stop the container itself
+    if (timedOut) {
+      await this.removeContainer(command, containerName);
+    }
+
+    return {
+      success: false,
+      message: `${describeFailure(target, timeoutMs, result)} in ${this.name}`,
+      stdout,
+      stderr,
+      exitCode: result.exitCode ?? 1,
+      ...(timedOut && { timedOut }),
+      ...(outputTruncated && { outputTruncated }),
+    };
+  }
+
+  private async removeContainer(command: string, containerName: string): Promise<void> {
+    try {
+      await execFileAsync(command, ['rm', '--force', containerName]);
+    } catch {
+      // Container might already be gone
+    }
+  }
+}
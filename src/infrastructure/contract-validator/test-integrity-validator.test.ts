@@ -0,0 +1,185 @@
+// ABOUTME: Tests for the test integrity validator and the workspace diff it is built on
+// Covers change classification, Makefile rule and dependency extraction and the resulting verdicts
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { cp, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  extractMakeDependencies,
+  extractMakeRule,
+  TestIntegrityValidator,
+} from './test-integrity-validator';
+import { classifyPath, diffWorkspaces } from 'infrastructure/workspace/workspace-diff';
+
+const MAKEFILE = 'setup:\n\tnpm install\n\ntest: setup\n\tnpx vitest run\n\n.PHONY: setup test\n';
+
+describe('classifyPath', () => {
+  it.each([
+    ['calculator.test.ts', 'test'],
+    ['src/utils/math.spec.js', 'test'],
+    ['tests/test_math.py', 'test'],
+    ['pkg/math_test.go', 'test'],
+    ['src/__tests__/math.ts', 'test'],
+    ['Makefile', 'build-contract'],
+    ['src/calculator.ts', 'source'],
+    ['contest/main.py', 'source'],
+  ])('should classify %s as %s', (path, category) => {
+    expect(classifyPath(path)).toBe(category);
+  });
+});
+
+describe('extractMakeRule', () => {
+  it('should return the prerequisites and recipe of the target', () => {
+    expect(extractMakeRule(MAKEFILE, 'test')).toBe(': setup\nnpx vitest run');
+  });
+
+  it('should ignore comments, blank lines and indentation changes', () => {
+    const reformatted =
+      'setup:\n\tnpm ci\n# run the suite\ntest:   setup\n\n\t  npx vitest run  \n';
+
+    expect(extractMakeRule(reformatted, 'test')).toBe(extractMakeRule(MAKEFILE, 'test'));
+  });
+
+  it('should return null when the target is not defined', () => {
+    expect(extractMakeRule(MAKEFILE, 'lint')).toBeNull();
+  });
+});
+
+describe('extractMakeDependencies', () => {
+  it('should follow prerequisites and recursive make calls but not unrelated targets', () => {
+    const makefile =
+      'CC = gcc\ntest: build\n\t$(MAKE) check\nbuild:\n\t$(CC) main.c\ncheck:\n\t./a.out\nlint:\n\tcppcheck .\n';
+
+    expect(extractMakeDependencies(makefile, 'test')?.definition).toBe(
+      'CC = gcc\ntest: build\n$(MAKE) check\nbuild:\n$(CC) main.c\ncheck:\n./a.out'
+    );
+  });
+
+  it('should keep every rule when a prerequisite is computed by make', () => {
+    const makefile = 'OBJS = a.o\ntest: $(OBJS)\n\t./run\nlint:\n\tcppcheck .\n';
+
+    expect(extractMakeDependencies(makefile, 'test')?.definition).toContain('lint:');
+  });
+
+  it('should report included makefiles', () => {
+    const makefile = 'include config.mk\n-include local.mk\ntest:\n\t./run\n';
+
+    expect(extractMakeDependencies(makefile, 'test')?.includes).toEqual(['config.mk', 'local.mk']);
+  });
+});
+
+describe('TestIntegrityValidator', () => {
+  let tempDir: string;
+  let sourceDir: string;
+  let workspaceDir: string;
+  const validator = new TestIntegrityValidator();
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'integrity-test-'));
+    sourceDir = join(tempDir, 'source');
+    workspaceDir = join(tempDir, 'workspace');
+
+    await mkdir(join(sourceDir, 'src'), { recursive: true });
+    await mkdir(join(sourceDir, 'node_modules', 'dep'), { recursive: true });
+    await writeFile(join(sourceDir, 'Makefile'), MAKEFILE);
+    await writeFile(join(sourceDir, 'src', 'calculator.ts'), 'export const add = (a, b) => a + b;');
+    await writeFile(join(sourceDir, 'calculator.test.ts'), 'expect(add(2, 3)).toBe(5);');
+    await cp(sourceDir, workspaceDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should accept source-only changes and report them', async () => {
+    await writeFile(
+      join(workspaceDir, 'src', 'calculator.ts'),
+      'export const add = (a, b) => a - b;'
+    );
+    await writeFile(join(workspaceDir, 'node_modules', 'dep', 'index.js'), 'generated');
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual([
+      { path: 'src/calculator.ts', kind: 'modified', category: 'source' },
+    ]);
+  });
+
+  it('should reject changed, added or deleted test files', async () => {
+    await writeFile(join(workspaceDir, 'calculator.test.ts'), 'expect(add(2, 3)).toBe(-1);');
+    await writeFile(join(workspaceDir, 'src', 'extra.spec.ts'), 'it.skip()');
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result).toMatchObject({ success: false, violation: 'tests-modified' });
+    expect(result.message).toContain('calculator.test.ts, src/extra.spec.ts');
+
+    await rm(join(workspaceDir, 'calculator.test.ts'));
+    await rm(join(workspaceDir, 'src', 'extra.spec.ts'));
+    const deleted = await validator.validate(sourceDir, workspaceDir);
+    expect(deleted.changes).toEqual([
+      { path: 'calculator.test.ts', kind: 'deleted', category: 'test' },
+    ]);
+    expect(deleted.violation).toBe('tests-modified');
+  });
+
+  it('should reject a Makefile whose test target changed', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), MAKEFILE.replace('npx vitest run', 'exit 1'));
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result).toMatchObject({ success: false, violation: 'test-target-modified' });
+  });
+
+  it('should reject a Makefile whose test prerequisites changed', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), MAKEFILE.replace('npm install', 'true'));
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result).toMatchObject({ success: false, violation: 'test-target-modified' });
+  });
+
+  it('should reject a Makefile whose variables changed', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), `SHELL := /bin/true\n${MAKEFILE}`);
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result).toMatchObject({ success: false, violation: 'test-target-modified' });
+  });
+
+  it('should reject changes to included makefiles and makefiles read before the Makefile', async () => {
+    await writeFile(join(sourceDir, 'Makefile'), `include config.mk\n${MAKEFILE}`);
+    await writeFile(join(sourceDir, 'config.mk'), 'VITEST = npx vitest\n');
+    await cp(sourceDir, workspaceDir, { recursive: true });
+    await writeFile(join(workspaceDir, 'config.mk'), 'VITEST = true\n');
+
+    const included = await validator.validate(sourceDir, workspaceDir);
+    expect(included).toMatchObject({ success: false, violation: 'test-target-modified' });
+    expect(included.message).toContain('config.mk');
+
+    await cp(join(sourceDir, 'config.mk'), join(workspaceDir, 'config.mk'));
+    await writeFile(join(workspaceDir, 'GNUmakefile'), 'test:\n\ttrue\n');
+    const shadowing = await validator.validate(sourceDir, workspaceDir);
+    expect(shadowing).toMatchObject({ success: false, violation: 'test-target-modified' });
+    expect(shadowing.message).toContain('GNUmakefile');
+  });
+
+  it('should allow Makefile changes outside what the test target depends on', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), `${MAKEFILE}\nlint:\n\tnpx eslint src\n`);
+
+    const result = await validator.validate(sourceDir, workspaceDir);
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toEqual([
+      { path: 'Makefile', kind: 'modified', category: 'build-contract' },
+    ]);
+  });
+
+  it('should diff an empty workspace as every file deleted', async () => {
+    const changes = await diffWorkspaces(sourceDir, join(tempDir, 'missing'));
+
+    expect(changes.map(change => change.kind)).toEqual(['deleted', 'deleted', 'deleted']);
+  });
+});
@@ -0,0 +1,266 @@
+// ABOUTME: Rejects bug injections and fixes that change tests instead of source code
+// Diffs the workspace against the one it was copied from and inspects the Makefile test target
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { FileChange, diffWorkspaces } from 'infrastructure/workspace/workspace-diff';
+
+export type TestIntegrityViolation = 'tests-modified' | 'test-target-modified';
+
+export interface TestIntegrityResult {
+  readonly success: boolean;
+  readonly message: string;
+  readonly changes: readonly FileChange[];
+  readonly violation?: TestIntegrityViolation;
+}
+
+const MAKEFILE = 'Makefile';
+// make reads these before Makefile, so adding one replaces the whole contract
+const PREFERRED_MAKEFILES: readonly string[] = ['GNUmakefile', 'makefile'];
+
+export class TestIntegrityValidator {
+  async validate(sourceDir: string, workspaceDir: string): Promise<TestIntegrityResult> {
+    const changes = await diffWorkspaces(sourceDir, workspaceDir);
+
+    const testChanges = changes.filter(change => change.category === 'test');
+    if (testChanges.length > 0) {
+      return {
+        success: false,
+        message: `Test files must not be changed: ${testChanges.map(c => c.path).join(', ')}`,
+        changes,
+        violation: 'tests-modified',
+      };
+    }
+
+    const shadowing = changes.filter(change => PREFERRED_MAKEFILES.includes(change.path));
+    if (shadowing.length > 0) {
+      return {
+        success: false,
+        message: `make reads ${shadowing.map(c => c.path).join(', ')} before the Makefile, so it must not be changed`,
+        changes,
+        violation: 'test-target-modified',
+      };
+    }
+
+    const [original, updated] = await Promise.all([
+      readMakeDependencies(join(sourceDir, MAKEFILE), 'test'),
+      readMakeDependencies(join(workspaceDir, MAKEFILE), 'test'),
+    ]);
+    if (original?.definition !== updated?.definition) {
+      return {
+        success: false,
+        message:
+          "The Makefile 'test' target, its prerequisites and the variables and includes they rely on must not be changed",
+        changes,
+        violation: 'test-target-modified',
+      };
+    }
+
+    const includes = [...(original?.includes ?? []), ...(updated?.includes ?? [])];
+    const includeChanges = changes.filter(change => isIncluded(change.path, includes));
+    if (includeChanges.length > 0) {
+      return {
+        success: false,
+        message: `Files included by the Makefile must not be changed: ${includeChanges.map(c => c.path).join(', ')}`,
+        changes,
+        violation: 'test-target-modified',
+      };
+    }
+
+    return {
+      success: true,
+      message: `${changes.length} file(s) changed, no tests touched`,
+      changes,
+    };
+  }
+}
+
+async function readMakeDependencies(
+  makefilePath: string,
+  target: string
+): Promise<MakeDependencies | null> {
+  try {
+    return extractMakeDependencies(await readFile(makefilePath, 'utf-8'), target);
+  } catch {
+    return null;
+  }
+}
+
+// Includes built from variables or wildcards cannot be resolved, so any makefile fragment counts
+function isIncluded(path: string, includes: readonly string[]): boolean {
+  return includes.some(include =>
+    /[$*?[]/.test(include) ? path.endsWith('.mk') : include.replace(/^\.\//, '') === path
+  );
+}
+
+export interface MakeDependencies {
+  // Normalised text of everything that decides what 'make <target>' runs
+  readonly definition: string;
+  // Paths of the makefiles pulled in with include, as written
+  readonly includes: readonly string[];
+}
+
+interface MakeRule {
+  readonly targets: readonly string[];
+  // The separator and everything after it, such as ': setup'
+  readonly header: string;
+  readonly prerequisites: readonly string[];
+  readonly recipe: string[];
+}
+
+interface ParsedMakefile {
+  // Variable assignments and directives in file order; any of them can change any recipe
+  readonly definitions: string[];
+  readonly includes: string[];
+  readonly rules: MakeRule[];
+}
+
+const DIRECTIVE =
+  /^(?:-?include|sinclude|override|export|unexport|undefine|vpath|ifeq|ifneq|ifdef|ifndef|else|endif)(?:\s|$)/;
+const ASSIGNMENT = /^[^\s:#=]+\s*(?::{1,3}|\?|\+|!)?=/;
+const RULE_HEADER = /^([^\t#:=][^:=]*?)\s*(::?)(?!=)(.*)$/;
+
+// Returns the prerequisites and recipe of every rule for the target, whitespace-normalised,
+// or null when the Makefile does not define it
+export function extractMakeRule(makefile: string, target: string): string | null {
+  const rules = parseMakefile(makefile).rules.filter(rule => rule.targets.includes(target));
+  return rules.length > 0
+    ? rules.map(rule => [rule.header, ...rule.recipe].join('\n')).join('\n\n')
+    : null;
+}
+
+// Everything 'make <target>' depends on: the Makefile's variables and directives, then the rules
+// of the target, of every target reachable through prerequisites or recursive make calls, and of
+// pattern and special targets. Null when the Makefile does not define the target
+export function extractMakeDependencies(makefile: string, target: string): MakeDependencies | null {
+  const { definitions, includes, rules } = parseMakefile(makefile);
+  if (!rules.some(rule => rule.targets.includes(target))) {
+    return null;
+  }
+
+  const reached = new Set(
+    rules.filter(rule => rule.targets.some(name => name.includes('%') || name.startsWith('.')))
+  );
+  const visited = new Set<string>();
+  const pending = [target];
+  let unresolved = false;
+  while (pending.length > 0 && !unresolved) {
+    const name = pending.pop() ?? '';
+    if (visited.has(name)) continue;
+    visited.add(name);
+
+    for (const rule of rules.filter(candidate => candidate.targets.includes(name))) {
+      reached.add(rule);
+      const next = [...rule.prerequisites, ...recursiveMakeTargets(rule.recipe)];
+      // Targets computed by make cannot be followed here, so every rule counts
+      unresolved = next.some(dependency => dependency === null || dependency.includes('$'));
+      pending.push(...next.filter((dependency): dependency is string => dependency !== null));
+    }
+  }
+
+  const renderedRules = rules
+    .filter(rule => unresolved || reached.has(rule))
+    .map(rule => [`${rule.targets.join(' ')}${rule.header}`, ...rule.recipe].join('\n'));
+  return { definition: [...definitions, ...renderedRules].join('\n'), includes };
+}
+
+function parseMakefile(makefile: string): ParsedMakefile {
+  const parsed: ParsedMakefile = { definitions: [], includes: [], rules: [] };
+  let rule: MakeRule | null = null;
+  let inDefine = false;
+
+  for (const line of joinContinuationLines(makefile)) {
+    if (inDefine) {
+      parsed.definitions.push(normalise(line));
+      inDefine = !/^\s*endef\b/.test(line);
+      continue;
+    }
+    if (line.startsWith('\t') && rule !== null) {
+      rule.recipe.push(normalise(line));
+      continue;
+    }
+    const text = normalise(line.replace(/(^|[^\\])#.*$/, '$1'));
+    if (text === '') {
+      continue;
+    }
+
+    rule = null;
+    if (/^(?:override\s+)?define\s/.test(text)) {
+      inDefine = true;
+      parsed.definitions.push(text);
+      continue;
+    }
+    if (DIRECTIVE.test(text) || ASSIGNMENT.test(text)) {
+      parsed.definitions.push(text);
+      const include = /^(?:-?include|sinclude)\s+(.*)$/.exec(text);
+      parsed.includes.push(...(include?.[1] ?? '').split(' ').filter(path => path !== ''));
+      continue;
+    }
+
+    const header = RULE_HEADER.exec(text);
+    if (header) {
+      const rest = (header[3] ?? '').trim();
+      const dependencies = (rest.split(';')[0] ?? '').trim();
+      rule = {
+        targets: (header[1] ?? '').split(' '),
+        header: `${header[2]} ${rest}`.trimEnd(),
+        // Target-specific variables such as 'test: CI = 1' have no prerequisites
+        prerequisites: ASSIGNMENT.test(dependencies)
+          ? []
+          : dependencies.split(/[\s|]+/).filter(name => name !== ''),
+        recipe: [],
+      };
+      parsed.rules.push(rule);
+    }
+  }
+
+  return parsed;
+}
+
+// Lines ending in a backslash continue on the next one
+function joinContinuationLines(makefile: string): string[] {
+  const lines: string[] = [];
+  let pending = '';
+  for (const line of makefile.split(/\r?\n/)) {
+    if (line.endsWith('\\')) {
+      pending += `${line.slice(0, -1)} `;
+    } else {
+      lines.push(pending + line);
+      pending = '';
+    }
+  }
+  return pending === '' ? lines : [...lines, pending];
+}
+
+function normalise(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+const MAKE_CALL = /(?:\$\(MAKE\)|\$\{MAKE\}|(?:^|[\s;&|(])make(?![\w.-]))((?:\s+[^\s;&|)]+)*)/g;
+const OPTIONS_WITH_ARGUMENT: ReadonlySet<string> = new Set(['-C', '-I', '-o', '-W']);
+
+// Targets named by '$(MAKE) lint' style calls in a recipe; null stands for one that cannot be
+// told apart, such as the default goal or a call reading another makefile
+function recursiveMakeTargets(recipe: readonly string[]): (string | null)[] {
+  const targets: (string | null)[] = [];
+  for (const line of recipe) {
+    for (const call of line.replace(/^[@+-]+/, '').matchAll(MAKE_CALL)) {
+      const words = (call[1] ?? '').trim().split(' ');
+      const named: string[] = [];
+      for (let i = 0; i < words.length; i++) {
+        const word = words[i] ?? '';
+        if (word === '' || word.includes('=')) continue;
+        if (word === '-f' || word.startsWith('--file') || word.startsWith('--makefile')) {
+          return [null];
+        }
+        if (OPTIONS_WITH_ARGUMENT.has(word)) {
+          i++;
+        } else if (!word.startsWith('-')) {
+          named.push(word);
+        }
+      }
+      targets.push(...(named.length > 0 ? named : [null]));
+    }
+  }
+  return targets;
+}
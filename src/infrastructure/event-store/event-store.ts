@@ -98,7 +98,7 @@ export class EventStore {
     }
 
     try {
-      const query = 'SELECT * FROM events ORDER BY timestamp ASC';
+      const query = 'SELECT * FROM events ORDER BY timestamp ASC, rowid ASC';
       const rows = await this.all(query);
 
       const events: CompetitionEvent[] = rows.map(row => this.rowToCompetitionEvent(row));
@@ -117,7 +117,8 @@ export class EventStore {
     }
 
     try {
-      const query = 'SELECT * FROM events WHERE competition_id = ? ORDER BY timestamp ASC';
+      const query =
+        'SELECT * FROM events WHERE competition_id = ? ORDER BY timestamp ASC, rowid ASC';
       const rows = await this.all(query, [competitionId.getValue()]);
 
       const events: CompetitionEvent[] = rows.map(row => this.rowToCompetitionEvent(row));
@@ -136,7 +137,8 @@ export class EventStore {
     }
 
     try {
-      const query = 'SELECT * FROM events WHERE participant_id = ? ORDER BY timestamp ASC';
+      const query =
+        'SELECT * FROM events WHERE participant_id = ? ORDER BY timestamp ASC, rowid ASC';
       const rows = await this.all(query, [participantId.getValue()]);
 
       const events: CompetitionEvent[] = rows.map(row => this.rowToCompetitionEvent(row));
@@ -153,7 +155,7 @@ export class EventStore {
     }
 
     try {
-      const query = 'SELECT * FROM events WHERE event_type = ? ORDER BY timestamp ASC';
+      const query = 'SELECT * FROM events WHERE event_type = ? ORDER BY timestamp ASC, rowid ASC';
       const rows = await this.all(query, [eventType]);
 
       const events: CompetitionEvent[] = rows.map(row => this.rowToCompetitionEvent(row));
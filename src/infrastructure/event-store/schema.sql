@@ -1,7 +1,7 @@
 -- ABOUTME: Database schema for event storage in DuckDB
 -- Creates events table with indexes for efficient querying
 
-CREATE TABLE events (
+CREATE TABLE IF NOT EXISTS events (
   id TEXT PRIMARY KEY,
   timestamp TIMESTAMP NOT NULL,
   competition_id TEXT NOT NULL,
@@ -15,7 +15,7 @@ CREATE TABLE events (
 );
 
 -- Indexes for efficient querying
-CREATE INDEX idx_events_competition ON events(competition_id);
-CREATE INDEX idx_events_type ON events(event_type);
-CREATE INDEX idx_events_participant ON events(participant_id);
-CREATE INDEX idx_events_phase ON events(phase);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_events_competition ON events(competition_id);
+CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
+CREATE INDEX IF NOT EXISTS idx_events_participant ON events(participant_id);
+CREATE INDEX IF NOT EXISTS idx_events_phase ON events(phase);
\ No newline at end of file
@@ -0,0 +1,48 @@
+// ABOUTME: Parser for the event stream printed by go test -json
+// Uses each test's final pass, fail or skip action; subtests are reported as tests of their own
+
+import { TEST_NAME_SEPARATOR, TestCaseResult, TestResultParser, dedupeTests } from './test-report';
+
+interface GoTestEvent {
+  readonly Action?: unknown;
+  readonly Package?: unknown;
+  readonly Test?: unknown;
+}
+
+const FINAL_ACTIONS: Record<string, TestCaseResult['status']> = {
+  pass: 'passed',
+  fail: 'failed',
+  skip: 'skipped',
+};
+
+export class GoTestJsonParser implements TestResultParser {
+  readonly format = 'go-test-json';
+
+  parse(content: string): TestCaseResult[] | null {
+    const tests: TestCaseResult[] = [];
+    let sawEvents = false;
+
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.startsWith('{"')) continue;
+
+      let event: GoTestEvent;
+      try {
+        event = JSON.parse(line) as GoTestEvent;
+      } catch {
+        continue;
+      }
+      if (typeof event.Action !== 'string') continue;
+      sawEvents = true;
+
+      const status = FINAL_ACTIONS[event.Action];
+      if (status && typeof event.Test === 'string') {
+        const name =
+          typeof event.Package === 'string'
+            ? `${event.Package}${TEST_NAME_SEPARATOR}${event.Test}`
+            : event.Test;
+        tests.push({ name, status });
+      }
+    }
+    return sawEvents ? dedupeTests(tests) : null;
+  }
+}
@@ -0,0 +1,64 @@
+// ABOUTME: Parser for the JSON reporter shared by jest (--json) and vitest (--reporter=json)
+// Accepts the report on its own or embedded in other output
+
+import { TEST_NAME_SEPARATOR, TestCaseResult, TestResultParser, TestStatus } from './test-report';
+
+interface AssertionResult {
+  readonly title?: unknown;
+  readonly fullName?: unknown;
+  readonly ancestorTitles?: unknown;
+  readonly status?: unknown;
+}
+
+interface JsonReport {
+  readonly testResults?: ReadonlyArray<{ readonly assertionResults?: AssertionResult[] }>;
+}
+
+export class JestJsonParser implements TestResultParser {
+  readonly format = 'jest-json';
+
+  parse(content: string): TestCaseResult[] | null {
+    const report = extractReport(content);
+    if (!report || !Array.isArray(report.testResults)) {
+      return null;
+    }
+
+    return report.testResults.flatMap(file =>
+      Array.isArray(file.assertionResults)
+        ? file.assertionResults.map((assertion: AssertionResult) => ({
+            name: nameOf(assertion),
+            status: statusOf(assertion.status),
+          }))
+        : []
+    );
+  }
+}
+
+function extractReport(content: string): JsonReport | null {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  try {
+    return JSON.parse(content.slice(start, end + 1)) as JsonReport;
+  } catch {
+    return null;
+  }
+}
+
+function nameOf(assertion: AssertionResult): string {
+  const ancestors = Array.isArray(assertion.ancestorTitles)
+    ? assertion.ancestorTitles.filter((title): title is string => typeof title === 'string')
+    : [];
+  if (typeof assertion.title === 'string') {
+    return [...ancestors, assertion.title].join(TEST_NAME_SEPARATOR);
+  }
+  return typeof assertion.fullName === 'string' ? assertion.fullName : 'unnamed test';
+}
+
+function statusOf(status: unknown): TestStatus {
+  if (status === 'passed') return 'passed';
+  if (status === 'failed') return 'failed';
+  return 'skipped';
+}
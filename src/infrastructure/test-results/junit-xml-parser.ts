@@ -0,0 +1,61 @@
+// ABOUTME: Parser for JUnit XML reports as written by jest-junit, vitest, pytest, go-junit-report and most CI tools
+// Reads testcase elements with a light regex scan, which is enough for the flat structure of these files
+
+import { TEST_NAME_SEPARATOR, TestCaseResult, TestResultParser, TestStatus } from './test-report';
+
+const TESTCASE_PATTERN = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+export class JUnitXmlParser implements TestResultParser {
+  readonly format = 'junit-xml';
+
+  parse(content: string): TestCaseResult[] | null {
+    if (!/<testsuites?\b|<testcase\b/.test(content)) {
+      return null;
+    }
+
+    const tests: TestCaseResult[] = [];
+    for (const match of content.matchAll(TESTCASE_PATTERN)) {
+      const attributes = parseAttributes(match[1] ?? '');
+      const name = attributes.name;
+      if (!name) continue;
+
+      const classname = attributes.classname;
+      tests.push({
+        name: classname ? `${classname}${TEST_NAME_SEPARATOR}${name}` : name,
+        status: statusOf(match[2] ?? ''),
+      });
+    }
+    return tests;
+  }
+}
+
+function statusOf(body: string): TestStatus {
+  if (/<(failure|error)\b/.test(body)) return 'failed';
+  if (/<skipped\b/.test(body)) return 'skipped';
+  return 'passed';
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1] as string] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
@@ -0,0 +1,32 @@
+// ABOUTME: Parser for TAP (Test Anything Protocol) output from node --test, prove, bats and friends
+// Only output announcing itself with a version line or a plan is treated as TAP
+
+import { TestCaseResult, TestResultParser, dedupeTests } from './test-report';
+
+const TAP_MARKER_PATTERN = /^\s*(TAP version \d+|\d+\.\.\d+)/m;
+const TEST_LINE_PATTERN = /^\s*(not )?ok\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+).*)?$/i;
+
+export class TapParser implements TestResultParser {
+  readonly format = 'tap';
+
+  parse(content: string): TestCaseResult[] | null {
+    if (!TAP_MARKER_PATTERN.test(content)) {
+      return null;
+    }
+
+    const tests: TestCaseResult[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      const match = TEST_LINE_PATTERN.exec(line);
+      if (!match) continue;
+
+      const [, notOk, number, description, directive] = match;
+      // TODO tests are expected to fail and SKIP tests never ran, so neither counts either way
+      const skipped = /^(skip|todo)/i.test(directive ?? '');
+      tests.push({
+        name: description || `test ${number ?? tests.length + 1}`,
+        status: skipped ? 'skipped' : notOk ? 'failed' : 'passed',
+      });
+    }
+    return tests.length > 0 ? dedupeTests(tests) : null;
+  }
+}
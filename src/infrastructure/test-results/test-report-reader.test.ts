@@ -0,0 +1,159 @@
+// ABOUTME: Tests for the test output parsers and the reader choosing between report files and output
+// Samples mirror what each test runner actually prints, trimmed to a few tests
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JUnitXmlParser } from './junit-xml-parser';
+import { TapParser } from './tap-parser';
+import { JestJsonParser } from './jest-json-parser';
+import { PytestParser } from './pytest-parser';
+import { GoTestJsonParser } from './go-test-json-parser';
+import { TestReportReader } from './test-report-reader';
+
+const JUNIT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="calculator" tests="3">
+    <testcase classname="Calculator" name="adds &amp; carries" time="0.001"/>
+    <testcase classname="Calculator" name="subtracts">
+      <failure message="expected 2">AssertionError</failure>
+    </testcase>
+    <testcase classname="Calculator" name="divides"><skipped/></testcase>
+  </testsuite>
+</testsuites>`;
+
+const TAP = `TAP version 13
+1..3
+ok 1 - adds numbers
+not ok 2 - subtracts numbers
+  ---
+  message: expected 2
+  ...
+ok 3 - divides numbers # SKIP not implemented`;
+
+const JEST_JSON = JSON.stringify({
+  numFailedTests: 1,
+  testResults: [
+    {
+      name: '/workspace/calculator.test.ts',
+      assertionResults: [
+        { ancestorTitles: ['Calculator', 'add'], title: 'adds', status: 'passed' },
+        { ancestorTitles: ['Calculator'], title: 'subtracts', status: 'failed' },
+        { ancestorTitles: [], title: 'divides', status: 'pending' },
+      ],
+    },
+  ],
+});
+
+const PYTEST = `============================= test session starts ==============================
+tests/test_calc.py::test_add PASSED                                      [ 33%]
+tests/test_calc.py::test_subtract FAILED                                 [ 66%]
+tests/test_calc.py::test_divide SKIPPED (no divider)                     [100%]
+=========================== short test summary info ============================
+FAILED tests/test_calc.py::test_subtract - assert 1 == 2`;
+
+const GO_TEST_JSON = [
+  '{"Action":"run","Package":"calc","Test":"TestAdd"}',
+  '{"Action":"output","Package":"calc","Test":"TestAdd","Output":"=== RUN   TestAdd\\n"}',
+  '{"Action":"pass","Package":"calc","Test":"TestAdd","Elapsed":0}',
+  '{"Action":"fail","Package":"calc","Test":"TestSub","Elapsed":0}',
+  '{"Action":"skip","Package":"calc","Test":"TestDiv","Elapsed":0}',
+  '{"Action":"fail","Package":"calc","Elapsed":0.01}',
+].join('\n');
+
+describe('test output parsers', () => {
+  it('should read testcases from JUnit XML', () => {
+    expect(new JUnitXmlParser().parse(JUNIT_XML)).toEqual([
+      { name: 'Calculator > adds & carries', status: 'passed' },
+      { name: 'Calculator > subtracts', status: 'failed' },
+      { name: 'Calculator > divides', status: 'skipped' },
+    ]);
+  });
+
+  it('should read test points from TAP', () => {
+    expect(new TapParser().parse(TAP)).toEqual([
+      { name: 'adds numbers', status: 'passed' },
+      { name: 'subtracts numbers', status: 'failed' },
+      { name: 'divides numbers', status: 'skipped' },
+    ]);
+  });
+
+  it('should read assertion results from jest and vitest JSON', () => {
+    expect(new JestJsonParser().parse(`> vitest run\n${JEST_JSON}\n`)).toEqual([
+      { name: 'Calculator > add > adds', status: 'passed' },
+      { name: 'Calculator > subtracts', status: 'failed' },
+      { name: 'divides', status: 'skipped' },
+    ]);
+  });
+
+  it('should read verbose pytest output', () => {
+    expect(new PytestParser().parse(PYTEST)).toEqual([
+      { name: 'tests/test_calc.py::test_add', status: 'passed' },
+      { name: 'tests/test_calc.py::test_subtract', status: 'failed' },
+      { name: 'tests/test_calc.py::test_divide', status: 'skipped' },
+    ]);
+  });
+
+  it('should read go test -json events', () => {
+    expect(new GoTestJsonParser().parse(GO_TEST_JSON)).toEqual([
+      { name: 'calc > TestAdd', status: 'passed' },
+      { name: 'calc > TestSub', status: 'failed' },
+      { name: 'calc > TestDiv', status: 'skipped' },
+    ]);
+  });
+
+  it('should not claim output in a different format', () => {
+    expect(new TapParser().parse(PYTEST)).toBeNull();
+    expect(new JUnitXmlParser().parse(TAP)).toBeNull();
+    expect(new JestJsonParser().parse(PYTEST)).toBeNull();
+    expect(new PytestParser().parse(JEST_JSON)).toBeNull();
+    expect(new GoTestJsonParser().parse(TAP)).toBeNull();
+  });
+});
+
+describe('TestReportReader', () => {
+  const reader = new TestReportReader();
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await mkdtemp(join(tmpdir(), 'test-report-'));
+  });
+
+  afterEach(async () => {
+    await rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('should prefer a report file written during the run over the output', async () => {
+    const before = await reader.snapshot(workspaceDir);
+    await mkdir(join(workspaceDir, 'reports'));
+    await writeFile(join(workspaceDir, 'reports', 'junit.xml'), JUNIT_XML);
+
+    const report = await reader.read(workspaceDir, { stdout: TAP }, before);
+
+    expect(report).toMatchObject({
+      format: 'junit-xml',
+      source: 'reports/junit.xml',
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+    });
+  });
+
+  it('should ignore report files left over from before the run', async () => {
+    await writeFile(join(workspaceDir, 'junit.xml'), JUNIT_XML);
+    const before = await reader.snapshot(workspaceDir);
+
+    const report = await reader.read(workspaceDir, { stdout: PYTEST }, before);
+
+    expect(report).toMatchObject({ format: 'pytest', source: 'stdout', failed: 1 });
+  });
+
+  it('should fall back to stderr and give up on unrecognised output', async () => {
+    expect(
+      await reader.read(workspaceDir, { stdout: 'make: done', stderr: GO_TEST_JSON })
+    ).toMatchObject({ format: 'go-test-json', source: 'stderr' });
+    expect(await reader.read(workspaceDir, { stdout: 'All good' })).toBeUndefined();
+  });
+});
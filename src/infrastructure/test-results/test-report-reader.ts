@@ -0,0 +1,107 @@
+// ABOUTME: Finds per-test results for a make test run in fresh report files or the run's output
+// Report files are preferred since they are unambiguous; output is tried stream by stream otherwise
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { isIgnoredDirectory } from 'infrastructure/workspace/workspace-diff';
+import { GoTestJsonParser } from './go-test-json-parser';
+import { JestJsonParser } from './jest-json-parser';
+import { JUnitXmlParser } from './junit-xml-parser';
+import { PytestParser } from './pytest-parser';
+import { TapParser } from './tap-parser';
+import { TestReport, TestResultParser, createTestReport } from './test-report';
+
+export interface TestRunOutput {
+  readonly stdout?: string | undefined;
+  readonly stderr?: string | undefined;
+}
+
+// Modification times of the report files present before a run, keyed by workspace-relative path
+export type ReportFileSnapshot = ReadonlyMap<string, number>;
+
+const REPORT_FILE_PATTERN =
+  /^(junit|TEST-|test[-_]?results?|test[-_]?report|report|results|vitest|jest).*\.(xml|json|tap)$|\.tap$/i;
+const MAX_REPORT_DEPTH = 2;
+
+// Structured formats first: a JSON or go test stream also contains lines that look like TAP
+export const DEFAULT_TEST_RESULT_PARSERS: readonly TestResultParser[] = [
+  new JUnitXmlParser(),
+  new JestJsonParser(),
+  new GoTestJsonParser(),
+  new TapParser(),
+  new PytestParser(),
+];
+
+export class TestReportReader {
+  constructor(
+    private readonly parsers: readonly TestResultParser[] = DEFAULT_TEST_RESULT_PARSERS
+  ) {}
+
+  async snapshot(workspaceDir: string): Promise<ReportFileSnapshot> {
+    return findReportFiles(workspaceDir);
+  }
+
+  // Only report files the run created or rewrote count, so a report copied over from the
+  // workspace this one started from is never mistaken for the current results
+  async read(
+    workspaceDir: string,
+    output: TestRunOutput,
+    before: ReportFileSnapshot = new Map()
+  ): Promise<TestReport | undefined> {
+    const after = await findReportFiles(workspaceDir);
+    const written = [...after.keys()].filter(path => after.get(path) !== before.get(path));
+
+    for (const path of written.sort()) {
+      const report = this.parse(await readFile(join(workspaceDir, path), 'utf-8'), path);
+      if (report) return report;
+    }
+
+    for (const [source, content] of [
+      ['stdout', output.stdout],
+      ['stderr', output.stderr],
+    ] as const) {
+      const report = content ? this.parse(content, source) : undefined;
+      if (report) return report;
+    }
+
+    return undefined;
+  }
+
+  parse(content: string, source: string): TestReport | undefined {
+    for (const parser of this.parsers) {
+      const tests = parser.parse(content);
+      if (tests && tests.length > 0) {
+        return createTestReport(parser.format, source, tests);
+      }
+    }
+    return undefined;
+  }
+}
+
+async function findReportFiles(
+  rootDir: string,
+  relativeDir = '',
+  depth = 0
+): Promise<Map<string, number>> {
+  const files = new Map<string, number>();
+  let entries;
+  try {
+    entries = await readdir(join(rootDir, relativeDir), { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (depth < MAX_REPORT_DEPTH && !isIgnoredDirectory(entry.name)) {
+        for (const [nested, mtimeMs] of await findReportFiles(rootDir, path, depth + 1)) {
+          files.set(nested, mtimeMs);
+        }
+      }
+    } else if (entry.isFile() && REPORT_FILE_PATTERN.test(entry.name)) {
+      files.set(path, (await stat(join(rootDir, path))).mtimeMs);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,56 @@
+// ABOUTME: Structured per-test results read from a test runner's report or output
+// Shared types for the reporter-specific parsers and the reader that picks between them
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export type TestReportFormat = 'junit-xml' | 'tap' | 'jest-json' | 'pytest' | 'go-test-json';
+
+export interface TestCaseResult {
+  readonly name: string;
+  readonly status: TestStatus;
+}
+
+export interface TestReport {
+  readonly format: TestReportFormat;
+  // Workspace-relative report file, or the output stream the results were read from
+  readonly source: string;
+  readonly total: number;
+  readonly passed: number;
+  readonly failed: number;
+  readonly skipped: number;
+  readonly tests: readonly TestCaseResult[];
+}
+
+export interface TestResultParser {
+  readonly format: TestReportFormat;
+  // Returns null when the content is not in this parser's format
+  parse(content: string): TestCaseResult[] | null;
+}
+
+// Name segments (suite, describe blocks, test) are joined the way vitest prints full names
+export const TEST_NAME_SEPARATOR = ' > ';
+
+export function createTestReport(
+  format: TestReportFormat,
+  source: string,
+  tests: readonly TestCaseResult[]
+): TestReport {
+  return {
+    format,
+    source,
+    total: tests.length,
+    passed: tests.filter(test => test.status === 'passed').length,
+    failed: tests.filter(test => test.status === 'failed').length,
+    skipped: tests.filter(test => test.status === 'skipped').length,
+    tests,
+  };
+}
+
+// Later results for the same test replace earlier ones, e.g. from a rerun or a summary section
+export function dedupeTests(tests: readonly TestCaseResult[]): TestCaseResult[] {
+  const byName = new Map<string, TestCaseResult>();
+  for (const test of tests) {
+    byName.set(test.name, test);
+  }
+  return [...byName.values()];
+}
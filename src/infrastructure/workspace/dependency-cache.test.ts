@@ -0,0 +1,67 @@
+// ABOUTME: Tests for configuring package managers to install from local caches
+// Checks the environment each ecosystem gets and that missing cache directories are reported
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findMissingCacheDirectories,
+  getCachedEcosystems,
+  getDependencyCacheEnv,
+} from './dependency-cache';
+import { HostMakeExecutor } from 'infrastructure/contract-validator/make-executor';
+
+describe('dependency cache', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'dependency-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should point each cached ecosystem at its cache and keep it offline', () => {
+    const env = getDependencyCacheEnv({ npm: '/cache/npm', go: '/cache/go' });
+
+    expect(env).toEqual({
+      npm_config_cache: '/cache/npm',
+      npm_config_offline: 'true',
+      npm_config_audit: 'false',
+      npm_config_fund: 'false',
+      GOMODCACHE: '/cache/go',
+      GOPROXY: 'off',
+      GOSUMDB: 'off',
+    });
+    expect(getCachedEcosystems({ pip: '/cache/pip', npm: '/cache/npm' })).toEqual(['npm', 'pip']);
+  });
+
+  it('should report cache directories that do not exist', async () => {
+    const file = join(cacheDir, 'not-a-directory');
+    await writeFile(file, '');
+
+    const missing = await findMissingCacheDirectories({
+      npm: cacheDir,
+      pip: join(cacheDir, 'missing'),
+      go: file,
+    });
+
+    expect(missing).toEqual([join(cacheDir, 'missing'), file]);
+  });
+
+  it('should configure make targets run on the host', async () => {
+    await writeFile(
+      join(cacheDir, 'Makefile'),
+      'setup:\n\t@echo "$$PIP_FIND_LINKS $$PIP_NO_INDEX"\n'
+    );
+
+    const result = await new HostMakeExecutor(undefined, { pip: '/wheels' }).run(
+      cacheDir,
+      'setup'
+    );
+
+    expect(result.stdout).toBe('/wheels 1\n');
+  });
+});
@@ -0,0 +1,61 @@
+// ABOUTME: Pre-populated package caches that let make setup install dependencies without a network
+// Points npm, pip and Go at local caches through environment variables and keeps them offline
+
+import { stat } from 'fs/promises';
+
+export type DependencyEcosystem = 'npm' | 'pip' | 'go';
+
+export const DEPENDENCY_ECOSYSTEMS: readonly DependencyEcosystem[] = ['npm', 'pip', 'go'];
+
+// Host directories: an npm cache, a directory of pip wheels and a Go module cache
+export type DependencyCacheConfig = Readonly<Partial<Record<DependencyEcosystem, string>>>;
+
+const ECOSYSTEM_DESCRIPTIONS: Record<DependencyEcosystem, string> = {
+  npm: 'npm (Node.js packages from the local npm cache)',
+  pip: 'pip (Python wheels from a local wheelhouse)',
+  go: 'Go modules (from the local module cache)',
+};
+
+export function getCachedEcosystems(config: DependencyCacheConfig): DependencyEcosystem[] {
+  return DEPENDENCY_ECOSYSTEMS.filter(ecosystem => config[ecosystem] !== undefined);
+}
+
+export function describeEcosystem(ecosystem: DependencyEcosystem): string {
+  return ECOSYSTEM_DESCRIPTIONS[ecosystem];
+}
+
+// Package managers of ecosystems without a cache are left alone, so they fail on their own terms
+export function getDependencyCacheEnv(config: DependencyCacheConfig): Record<string, string> {
+  const env: Record<string, string> = {};
+  if (config.npm !== undefined) {
+    env.npm_config_cache = config.npm;
+    env.npm_config_offline = 'true';
+    env.npm_config_audit = 'false';
+    env.npm_config_fund = 'false';
+  }
+  if (config.pip !== undefined) {
+    env.PIP_NO_INDEX = '1';
+    env.PIP_FIND_LINKS = config.pip;
+  }
+  if (config.go !== undefined) {
+    env.GOMODCACHE = config.go;
+    env.GOPROXY = 'off';
+    env.GOSUMDB = 'off';
+  }
+  return env;
+}
+
+export async function findMissingCacheDirectories(
+  config: DependencyCacheConfig
+): Promise<string[]> {
+  const missing: string[] = [];
+  for (const ecosystem of getCachedEcosystems(config)) {
+    const dir = config[ecosystem] as string;
+    try {
+      if (!(await stat(dir)).isDirectory()) missing.push(dir);
+    } catch {
+      missing.push(dir);
+    }
+  }
+  return missing;
+}
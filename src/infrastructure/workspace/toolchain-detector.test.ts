@@ -0,0 +1,94 @@
+// ABOUTME: Tests for detecting the language, framework and test runner of a workspace
+// Builds small projects in temporary directories for each ecosystem
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { detectToolchain } from './toolchain-detector';
+
+describe('detectToolchain', () => {
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await mkdtemp(join(tmpdir(), 'toolchain-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(files: Record<string, string>): Promise<void> {
+    for (const [path, content] of Object.entries(files)) {
+      await mkdir(dirname(join(workspaceDir, path)), { recursive: true });
+      await writeFile(join(workspaceDir, path), content);
+    }
+  }
+
+  it('should detect a TypeScript project and count its source and test lines', async () => {
+    await writeFiles({
+      'package.json': JSON.stringify({
+        dependencies: { express: '^4.0.0' },
+        devDependencies: { vitest: '^1.0.0', typescript: '^5.0.0' },
+      }),
+      'src/server.ts': 'import express from "express";\n\nexport const app = express();\n',
+      'src/server.test.ts': 'import { app } from "./server";\ntest("app", () => {});\n',
+      'node_modules/express/index.js': 'module.exports = {};\n',
+    });
+
+    expect(await detectToolchain(workspaceDir)).toEqual({
+      language: 'TypeScript',
+      framework: 'express',
+      testRunner: 'vitest',
+      manifests: ['package.json'],
+      sourceLines: 2,
+      testLines: 2,
+      linesByLanguage: { TypeScript: 4 },
+    });
+  });
+
+  it('should detect a Python project tested with pytest', async () => {
+    await writeFiles({
+      'pyproject.toml': '[project]\ndependencies = ["fastapi>=0.100"]\n[tool.pytest.ini_options]\n',
+      'app/main.py': 'from fastapi import FastAPI\napp = FastAPI()\n',
+      'tests/test_main.py': 'def test_app():\n    assert True\n',
+    });
+
+    expect(await detectToolchain(workspaceDir)).toMatchObject({
+      language: 'Python',
+      framework: 'fastapi',
+      testRunner: 'pytest',
+      manifests: ['pyproject.toml'],
+    });
+  });
+
+  it("should fall back to the ecosystem's own test runner", async () => {
+    await writeFiles({
+      'go.mod': 'module example.com/calc\n\ngo 1.22\n',
+      'calc.go': 'package calc\n\nfunc Add(a, b int) int { return a + b }\n',
+      'calc_test.go': 'package calc\n',
+    });
+
+    expect(await detectToolchain(workspaceDir)).toMatchObject({
+      language: 'Go',
+      framework: null,
+      testRunner: 'go test',
+      sourceLines: 2,
+      testLines: 1,
+    });
+  });
+
+  it('should report nothing for a workspace without code', async () => {
+    await writeFiles({ 'README.md': '# Nothing here\n' });
+
+    expect(await detectToolchain(workspaceDir)).toEqual({
+      language: null,
+      framework: null,
+      testRunner: null,
+      manifests: [],
+      sourceLines: 0,
+      testLines: 0,
+      linesByLanguage: {},
+    });
+  });
+});
@@ -0,0 +1,256 @@
+// ABOUTME: Detects the language, framework and test runner a workspace was built with
+// Reads the manifests at the workspace root and counts non-blank lines of source and test code
+
+import { readFile, stat } from 'fs/promises';
+import { extname, join } from 'path';
+import { classifyPath, listWorkspaceFiles } from './workspace-diff';
+
+export interface ToolchainProfile {
+  // The language with the most lines of code, or the one its manifests declare
+  readonly language: string | null;
+  readonly framework: string | null;
+  readonly testRunner: string | null;
+  // Manifests found at the workspace root, such as package.json or go.mod
+  readonly manifests: readonly string[];
+  readonly sourceLines: number;
+  readonly testLines: number;
+  readonly linesByLanguage: Readonly<Record<string, number>>;
+}
+
+const LANGUAGES_BY_EXTENSION: Readonly<Record<string, string>> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.rb': 'Ruby',
+  '.c': 'C',
+  '.h': 'C',
+  '.cpp': 'C++',
+  '.cc': 'C++',
+  '.hpp': 'C++',
+  '.cs': 'C#',
+  '.php': 'PHP',
+  '.swift': 'Swift',
+  '.scala': 'Scala',
+  '.ex': 'Elixir',
+  '.exs': 'Elixir',
+  '.hs': 'Haskell',
+};
+
+// Generated or vendored files this large are not what the participant wrote
+const MAX_COUNTED_FILE_BYTES = 1024 * 1024;
+
+interface Ecosystem {
+  readonly language: string;
+  readonly manifests: readonly string[];
+  // First match wins, so more specific names come before the ones they build on
+  readonly frameworks: readonly (readonly [pattern: RegExp, name: string])[];
+  readonly testRunners: readonly (readonly [pattern: RegExp, name: string])[];
+  // Used when the manifests name no test runner
+  readonly defaultTestRunner: string | null;
+}
+
+const ECOSYSTEMS: readonly Ecosystem[] = [
+  {
+    language: 'JavaScript',
+    manifests: ['package.json'],
+    frameworks: [
+      [/"next"\s*:/, 'next'],
+      [/"@nestjs\/core"\s*:/, 'nestjs'],
+      [/"@angular\/core"\s*:/, 'angular'],
+      [/"react"\s*:/, 'react'],
+      [/"vue"\s*:/, 'vue'],
+      [/"svelte"\s*:/, 'svelte'],
+      [/"express"\s*:/, 'express'],
+      [/"fastify"\s*:/, 'fastify'],
+      [/"koa"\s*:/, 'koa'],
+      [/"hono"\s*:/, 'hono'],
+    ],
+    testRunners: [
+      [/"vitest"\s*:/, 'vitest'],
+      [/"jest"\s*:/, 'jest'],
+      [/"mocha"\s*:/, 'mocha'],
+      [/"ava"\s*:/, 'ava'],
+      [/"jasmine"\s*:/, 'jasmine'],
+      [/node --test/, 'node:test'],
+    ],
+    defaultTestRunner: null,
+  },
+  {
+    language: 'Python',
+    manifests: [
+      'pyproject.toml',
+      'setup.py',
+      'setup.cfg',
+      'requirements.txt',
+      'requirements-dev.txt',
+      'Pipfile',
+      'pytest.ini',
+      'tox.ini',
+    ],
+    frameworks: [
+      [/\bdjango\b/i, 'django'],
+      [/\bfastapi\b/i, 'fastapi'],
+      [/\bflask\b/i, 'flask'],
+    ],
+    testRunners: [[/\bpytest\b/i, 'pytest']],
+    defaultTestRunner: 'unittest',
+  },
+  {
+    language: 'Go',
+    manifests: ['go.mod'],
+    frameworks: [
+      [/github\.com\/gin-gonic\/gin\b/, 'gin'],
+      [/github\.com\/labstack\/echo\b/, 'echo'],
+      [/github\.com\/gofiber\/fiber\b/, 'fiber'],
+      [/github\.com\/go-chi\/chi\b/, 'chi'],
+    ],
+    testRunners: [],
+    defaultTestRunner: 'go test',
+  },
+  {
+    language: 'Rust',
+    manifests: ['Cargo.toml'],
+    frameworks: [
+      [/^\s*actix-web\s*=/m, 'actix-web'],
+      [/^\s*axum\s*=/m, 'axum'],
+      [/^\s*rocket\s*=/m, 'rocket'],
+      [/^\s*warp\s*=/m, 'warp'],
+    ],
+    testRunners: [],
+    defaultTestRunner: 'cargo test',
+  },
+  {
+    language: 'Java',
+    manifests: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+    frameworks: [[/spring-boot/, 'spring-boot']],
+    testRunners: [
+      [/junit/i, 'junit'],
+      [/testng/i, 'testng'],
+    ],
+    defaultTestRunner: null,
+  },
+  {
+    language: 'Ruby',
+    manifests: ['Gemfile'],
+    frameworks: [
+      [/['"]rails['"]/, 'rails'],
+      [/['"]sinatra['"]/, 'sinatra'],
+    ],
+    testRunners: [
+      [/['"]rspec['"]/, 'rspec'],
+      [/['"]minitest['"]/, 'minitest'],
+    ],
+    defaultTestRunner: null,
+  },
+];
+
+export async function detectToolchain(workspaceDir: string): Promise<ToolchainProfile> {
+  const files = [...(await listWorkspaceFiles(workspaceDir))].sort();
+
+  const linesByLanguage: Record<string, number> = {};
+  let sourceLines = 0;
+  let testLines = 0;
+  for (const path of files) {
+    const language = LANGUAGES_BY_EXTENSION[extname(path).toLowerCase()];
+    if (!language) continue;
+
+    const lines = await countLines(join(workspaceDir, path));
+    linesByLanguage[language] = (linesByLanguage[language] ?? 0) + lines;
+    if (classifyPath(path) === 'test') {
+      testLines += lines;
+    } else {
+      sourceLines += lines;
+    }
+  }
+
+  const rootFiles = new Set(files.filter(path => !path.includes('/')));
+  const manifests = ECOSYSTEMS.flatMap(ecosystem =>
+    ecosystem.manifests.filter(manifest => rootFiles.has(manifest))
+  );
+  const language = pickLanguage(linesByLanguage, manifests, rootFiles);
+  const ecosystem = ECOSYSTEMS.find(candidate => candidate.language === languageFamily(language));
+
+  let framework: string | null = null;
+  let testRunner: string | null = null;
+  if (ecosystem) {
+    const manifestText = await readManifests(
+      workspaceDir,
+      ecosystem.manifests.filter(manifest => rootFiles.has(manifest))
+    );
+    framework = findMatch(ecosystem.frameworks, manifestText);
+    testRunner =
+      findMatch(ecosystem.testRunners, manifestText) ??
+      (ecosystem.language === 'Python' && rootFiles.has('conftest.py') ? 'pytest' : null) ??
+      (hasTests(files, ecosystem) ? ecosystem.defaultTestRunner : null);
+  }
+
+  return { language, framework, testRunner, manifests, sourceLines, testLines, linesByLanguage };
+}
+
+function pickLanguage(
+  linesByLanguage: Readonly<Record<string, number>>,
+  manifests: readonly string[],
+  rootFiles: ReadonlySet<string>
+): string | null {
+  const [mostWritten] = Object.entries(linesByLanguage).sort(
+    ([a, linesA], [b, linesB]) => linesB - linesA || a.localeCompare(b)
+  );
+  if (mostWritten) {
+    return mostWritten[0];
+  }
+
+  const declared = ECOSYSTEMS.find(ecosystem =>
+    ecosystem.manifests.some(manifest => manifests.includes(manifest))
+  );
+  if (declared?.language === 'JavaScript' && rootFiles.has('tsconfig.json')) {
+    return 'TypeScript';
+  }
+  return declared?.language ?? null;
+}
+
+function hasTests(files: readonly string[], ecosystem: Ecosystem): boolean {
+  return files.some(path => {
+    const language = LANGUAGES_BY_EXTENSION[extname(path).toLowerCase()];
+    return languageFamily(language) === ecosystem.language && classifyPath(path) === 'test';
+  });
+}
+
+// TypeScript projects share JavaScript's manifests and tooling
+function languageFamily(language: string | null | undefined): string | null | undefined {
+  return language === 'TypeScript' ? 'JavaScript' : language;
+}
+
+function findMatch(
+  candidates: Ecosystem['frameworks'] | Ecosystem['testRunners'],
+  text: string
+): string | null {
+  return candidates.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+async function readManifests(workspaceDir: string, manifests: readonly string[]): Promise<string> {
+  const contents = await Promise.all(
+    manifests.map(manifest => readFile(join(workspaceDir, manifest), 'utf-8').catch(() => ''))
+  );
+  return contents.join('\n');
+}
+
+async function countLines(filePath: string): Promise<number> {
+  try {
+    if ((await stat(filePath)).size > MAX_COUNTED_FILE_BYTES) return 0;
+    const content = await readFile(filePath, 'utf-8');
+    return content.split('\n').filter(line => line.trim() !== '').length;
+  } catch {
+    return 0;
+  }
+}
+
@@ -0,0 +1,187 @@
+// ABOUTME: Compares two workspace directories file by file, classifies every change and renders it
+// Tells tests and the Makefile contract apart from source and produces a reviewable unified diff
+
+import { readdir, readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { createUnifiedDiff } from 'utils/unified-diff';
+
+export type FileCategory = 'test' | 'build-contract' | 'source';
+
+export type FileChangeKind = 'added' | 'modified' | 'deleted';
+
+export interface FileChange {
+  readonly path: string;
+  readonly kind: FileChangeKind;
+  readonly category: FileCategory;
+}
+
+export interface FileDiff extends FileChange {
+  readonly linesAdded: number;
+  readonly linesRemoved: number;
+  readonly binary: boolean;
+}
+
+export interface WorkspacePatch {
+  readonly filesAdded: number;
+  readonly filesRemoved: number;
+  readonly filesChanged: number;
+  readonly linesAdded: number;
+  readonly linesRemoved: number;
+  readonly files: readonly FileDiff[];
+  readonly patch: string;
+  readonly truncated: boolean;
+}
+
+// Keeps a rewritten dependency lockfile or a generated blob from bloating the event store
+const MAX_DIFFABLE_FILE_BYTES = 1024 * 1024;
+const MAX_PATCH_LENGTH = 200_000;
+const TRUNCATION_MARKER = '\n[... patch truncated ...]\n';
+
+// Dependencies and generated output are not part of what a provider authored
+const IGNORED_DIRECTORIES: ReadonlySet<string> = new Set([
+  '.git',
+  'node_modules',
+  'dist',
+  'coverage',
+  '__pycache__',
+  '.pytest_cache',
+  '.venv',
+  'venv',
+]);
+
+const BUILD_CONTRACT_FILES: ReadonlySet<string> = new Set(['Makefile', 'makefile', 'GNUmakefile']);
+
+const TEST_PATH_PATTERNS: readonly RegExp[] = [
+  /(^|\/)(test|tests|__tests__|spec|specs)\//,
+  /\.(test|spec)\.[^/]+$/,
+  /_test\.(go|py)$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /(^|\/)conftest\.py$/,
+  /Tests?\.(java|kt|cs)$/,
+];
+
+export function isIgnoredDirectory(name: string): boolean {
+  return IGNORED_DIRECTORIES.has(name);
+}
+
+export function classifyPath(path: string): FileCategory {
+  if (BUILD_CONTRACT_FILES.has(basename(path))) {
+    return 'build-contract';
+  }
+  if (TEST_PATH_PATTERNS.some(pattern => pattern.test(path))) {
+    return 'test';
+  }
+  return 'source';
+}
+
+// Paths are relative to the workspace root and use forward slashes, sorted for stable output
+export async function diffWorkspaces(beforeDir: string, afterDir: string): Promise<FileChange[]> {
+  const [before, after] = await Promise.all([listWorkspaceFiles(beforeDir), listWorkspaceFiles(afterDir)]);
+  const paths = [...new Set([...before, ...after])].sort();
+
+  const changes: FileChange[] = [];
+  for (const path of paths) {
+    const kind = await compareFile(beforeDir, afterDir, path, before, after);
+    if (kind) {
+      changes.push({ path, kind, category: classifyPath(path) });
+    }
+  }
+  return changes;
+}
+
+export async function createWorkspacePatch(
+  beforeDir: string,
+  afterDir: string
+): Promise<WorkspacePatch> {
+  const files: FileDiff[] = [];
+  const patches: string[] = [];
+
+  for (const change of await diffWorkspaces(beforeDir, afterDir)) {
+    const [original, updated] = await Promise.all([
+      change.kind === 'added' ? Buffer.alloc(0) : readFile(join(beforeDir, change.path)),
+      change.kind === 'deleted' ? Buffer.alloc(0) : readFile(join(afterDir, change.path)),
+    ]);
+    const oldLabel = change.kind === 'added' ? '/dev/null' : `a/${change.path}`;
+    const newLabel = change.kind === 'deleted' ? '/dev/null' : `b/${change.path}`;
+
+    if (!isDiffable(original) || !isDiffable(updated)) {
+      files.push({ ...change, linesAdded: 0, linesRemoved: 0, binary: true });
+      patches.push(`Binary files ${oldLabel} and ${newLabel} differ\n`);
+      continue;
+    }
+
+    const diff = createUnifiedDiff(
+      oldLabel,
+      newLabel,
+      original.toString('utf-8'),
+      updated.toString('utf-8')
+    );
+    files.push({
+      ...change,
+      linesAdded: diff.linesAdded,
+      linesRemoved: diff.linesRemoved,
+      binary: false,
+    });
+    patches.push(diff.patch);
+  }
+
+  const patch = patches.join('');
+  const truncated = patch.length > MAX_PATCH_LENGTH;
+
+  return {
+    filesAdded: files.filter(file => file.kind === 'added').length,
+    filesRemoved: files.filter(file => file.kind === 'deleted').length,
+    filesChanged: files.filter(file => file.kind === 'modified').length,
+    linesAdded: files.reduce((total, file) => total + file.linesAdded, 0),
+    linesRemoved: files.reduce((total, file) => total + file.linesRemoved, 0),
+    files,
+    patch: truncated ? `${patch.slice(0, MAX_PATCH_LENGTH)}${TRUNCATION_MARKER}` : patch,
+    truncated,
+  };
+}
+
+function isDiffable(content: Buffer): boolean {
+  return content.length <= MAX_DIFFABLE_FILE_BYTES && !content.includes(0);
+}
+
+async function compareFile(
+  beforeDir: string,
+  afterDir: string,
+  path: string,
+  before: ReadonlySet<string>,
+  after: ReadonlySet<string>
+): Promise<FileChangeKind | null> {
+  if (!before.has(path)) return 'added';
+  if (!after.has(path)) return 'deleted';
+
+  const [original, updated] = await Promise.all([
+    readFile(join(beforeDir, path)),
+    readFile(join(afterDir, path)),
+  ]);
+  return original.equals(updated) ? null : 'modified';
+}
+
+// Relative paths of every file outside the ignored directories
+export async function listWorkspaceFiles(rootDir: string, relativeDir = ''): Promise<Set<string>> {
+  const files = new Set<string>();
+  let entries;
+  try {
+    entries = await readdir(join(rootDir, relativeDir), { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  for (const entry of entries) {
+    const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!isIgnoredDirectory(entry.name)) {
+        for (const nested of await listWorkspaceFiles(rootDir, path)) {
+          files.add(nested);
+        }
+      }
+    } else if (entry.isFile()) {
+      files.add(path);
+    }
+  }
+  return files;
+}
@@ -1,7 +1,7 @@
 // ABOUTME: Workspace utilities for creating and managing isolated directories
 // Handles temp directory creation and cleanup for competition phases
 
-import { mkdir, rm } from 'fs/promises';
+import { mkdir, readdir, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
@@ -11,6 +11,17 @@ export async function createWorkspace(name: string): Promise<string> {
   return workspaceDir;
 }
 
+// Named workspaces have a stable path so an interrupted run can pick up where it left off
+export function getNamedWorkspacePath(name: string): string {
+  return join(tmpdir(), `ai-coding-arena-${name}`);
+}
+
+export async function openNamedWorkspace(name: string): Promise<string> {
+  const workspaceDir = getNamedWorkspacePath(name);
+  await mkdir(workspaceDir, { recursive: true });
+  return workspaceDir;
+}
+
 export async function cleanupWorkspace(dir: string): Promise<void> {
   try {
     await rm(dir, { recursive: true, force: true });
@@ -18,3 +29,11 @@ export async function cleanupWorkspace(dir: string): Promise<void> {
     // Workspace might already be gone
   }
 }
+
+export async function isWorkspaceEmpty(dir: string): Promise<boolean> {
+  try {
+    return (await readdir(dir)).length === 0;
+  } catch {
+    return true;
+  }
+}
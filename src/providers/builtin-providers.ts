@@ -0,0 +1,123 @@
+// ABOUTME: Registrations of the providers that ship with the arena
+// Plugins add their own providers to the same registry without changes here
+
+import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import { MockProvider } from './mock-provider/mock-provider';
+import { ClaudeCodeProvider } from './claude-code-provider/claude-code-provider';
+import {
+  loadClaudeCodeConfig,
+  parseClaudeCodeConfig,
+  parseClaudeCodeOptions,
+} from './claude-code-provider/claude-code-config';
+import { OpenAICompatibleProvider } from './openai-compatible-provider/openai-compatible-provider';
+import {
+  getOpenAICompatibleConfig,
+  loadOpenAICompatibleConfig,
+  parseOpenAICompatibleConfig,
+  parseOpenAICompatibleOptions,
+} from './openai-compatible-provider/openai-compatible-config';
+import { ExternalCommandProvider } from './external-command-provider/external-command-provider';
+import {
+  loadExternalCommandConfig,
+  parseExternalCommandConfig,
+  restoreExternalCommandEnv,
+} from './external-command-provider/external-command-config';
+import { ProviderOptions, ProviderRegistration, ProviderRegistry } from './provider-registry';
+
+export const BUILTIN_PROVIDERS: readonly ProviderRegistration[] = [
+  {
+    name: 'mock-provider',
+    aliases: ['mock'],
+    description: 'Simulated provider for testing and development',
+    create: withoutArgument('mock-provider', () => new MockProvider()),
+  },
+  {
+    name: 'claude-code',
+    aliases: ['claude'],
+    description:
+      'Claude Code SDK agent (configured through the environment, e.g. AWS Bedrock); options as claude-code:model=X,maxTurns=N or claude-code:@<options.json>',
+    create: createClaudeCodeProvider,
+  },
+  {
+    name: 'openai-compatible',
+    aliases: ['openai'],
+    description:
+      'Any OpenAI-compatible chat completions endpoint (OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODEL); options as openai:model=X,baseUrl=URL or openai:@<options.json>',
+    create: createOpenAICompatibleProvider,
+  },
+  {
+    name: 'command',
+    aliases: [],
+    description: 'External coding agent described by a JSON file, as command:<agent.json>',
+    create: createExternalCommandProvider,
+  },
+];
+
+// Options come after the colon as key=value pairs or as '@' and the path of a JSON file, or as a
+// resumed competition's recorded config
+async function createClaudeCodeProvider(options: ProviderOptions): Promise<ClaudeCodeProvider> {
+  const { argument } = options;
+  const configResult =
+    typeof argument !== 'string'
+      ? parseClaudeCodeConfig(options)
+      : argument.startsWith('@')
+        ? await loadClaudeCodeConfig(argument.slice(1))
+        : parseClaudeCodeOptions(argument);
+  if (configResult.isErr()) {
+    throw configResult.error;
+  }
+  return new ClaudeCodeProvider(configResult.value);
+}
+
+// Options fall back to the environment, which also supplies the API key on resume
+async function createOpenAICompatibleProvider(
+  options: ProviderOptions
+): Promise<OpenAICompatibleProvider> {
+  const base = getOpenAICompatibleConfig(process.env);
+  const { argument } = options;
+  const configResult =
+    typeof argument !== 'string'
+      ? parseOpenAICompatibleConfig(options, base)
+      : argument.startsWith('@')
+        ? await loadOpenAICompatibleConfig(argument.slice(1), base)
+        : parseOpenAICompatibleOptions(argument, base);
+  if (configResult.isErr()) {
+    throw configResult.error;
+  }
+  return new OpenAICompatibleProvider(configResult.value);
+}
+
+// Providers without options refuse an argument rather than silently dropping it
+function withoutArgument(name: string, create: () => LLMProvider): ProviderRegistration['create'] {
+  return options => {
+    if (options.argument !== undefined) {
+      throw new Error(`Provider ${name} takes no options, but got "${options.argument}"`);
+    }
+    return create();
+  };
+}
+
+// Started from a config file, or from the config a resumed competition recorded, whose redacted
+// env values come from the arena's own environment
+async function createExternalCommandProvider(
+  options: ProviderOptions
+): Promise<ExternalCommandProvider> {
+  const configResult =
+    typeof options.argument === 'string'
+      ? await loadExternalCommandConfig(options.argument)
+      : parseExternalCommandConfig(options).andThen(config =>
+          restoreExternalCommandEnv(config, process.env)
+        );
+  if (configResult.isErr()) {
+    throw configResult.error;
+  }
+  return new ExternalCommandProvider(configResult.value);
+}
+
+export function createDefaultProviderRegistry(): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  for (const registration of BUILTIN_PROVIDERS) {
+    registry.register(registration);
+  }
+  return registry;
+}
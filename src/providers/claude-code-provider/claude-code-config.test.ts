@@ -0,0 +1,91 @@
+// ABOUTME: Tests for parsing per-participant Claude Code options from provider specs and files
+// Creating the provider does not contact the SDK, so the registry is exercised directly too
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDefaultProviderRegistry } from 'providers/builtin-providers';
+import {
+  DEFAULT_CLAUDE_CODE_CONFIG,
+  loadClaudeCodeConfig,
+  parseClaudeCodeConfig,
+  parseClaudeCodeOptions,
+} from './claude-code-config';
+
+describe('Claude Code config', () => {
+  it('should read key=value options from a provider spec over the defaults', () => {
+    const result = parseClaudeCodeOptions(
+      'model=eu.anthropic.claude-opus-4-20250514-v1:0,maxTurns=60,allowedTools=Read+Write'
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({
+      ...DEFAULT_CLAUDE_CODE_CONFIG,
+      model: 'eu.anthropic.claude-opus-4-20250514-v1:0',
+      maxTurns: 60,
+      allowedTools: ['Read', 'Write'],
+    });
+  });
+
+  it('should read options from a JSON file', async () => {
+    const configDir = await mkdtemp(join(tmpdir(), 'claude-code-config-'));
+    try {
+      const configPath = join(configDir, 'opus.json');
+      await writeFile(configPath, JSON.stringify({ fixAttemptTimeoutMs: 600000 }));
+
+      const result = await loadClaudeCodeConfig(configPath);
+
+      expect(result._unsafeUnwrap()).toEqual({
+        ...DEFAULT_CLAUDE_CODE_CONFIG,
+        fixAttemptTimeoutMs: 600000,
+      });
+    } finally {
+      await rm(configDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject unknown keys and bad values', () => {
+    expect(parseClaudeCodeOptions('turns=60')._unsafeUnwrapErr().message).toBe(
+      'Unknown Claude Code option "turns"'
+    );
+    expect(parseClaudeCodeOptions('maxTurns=lots')._unsafeUnwrapErr().message).toBe(
+      'Claude Code option "maxTurns" must be a positive integer'
+    );
+    expect(parseClaudeCodeOptions('opus')._unsafeUnwrapErr().message).toBe(
+      'Claude Code option "opus" must be written as key=value'
+    );
+    expect(parseClaudeCodeConfig({ allowedTools: 'Read' })._unsafeUnwrapErr().message).toBe(
+      'Claude Code option "allowedTools" must be a list of tool names'
+    );
+  });
+
+  it('should give each participant its own effective config through the registry', async () => {
+    const registry = createDefaultProviderRegistry();
+
+    const tuned = (await registry.create('claude', { argument: 'maxTurns=60' }))._unsafeUnwrap();
+    const plain = (await registry.create('claude-code'))._unsafeUnwrap();
+    const resumed = (await registry.create('claude-code', { ...tuned.config }))._unsafeUnwrap();
+
+    expect(tuned.config).toEqual({ ...DEFAULT_CLAUDE_CODE_CONFIG, maxTurns: 60 });
+    expect(plain.config).toEqual(DEFAULT_CLAUDE_CODE_CONFIG);
+    expect(resumed.config).toEqual(tuned.config);
+  });
+
+  it('should read an options file named after an @, even when its path contains =', async () => {
+    const configDir = await mkdtemp(join(tmpdir(), 'claude-code-config-'));
+    try {
+      const configPath = join(configDir, 'turns=60.json');
+      await writeFile(configPath, JSON.stringify({ maxTurns: 60 }));
+      const registry = createDefaultProviderRegistry();
+
+      const provider = await registry.create('claude-code', { argument: `@${configPath}` });
+
+      expect(provider._unsafeUnwrap().config).toEqual({
+        ...DEFAULT_CLAUDE_CODE_CONFIG,
+        maxTurns: 60,
+      });
+    } finally {
+      await rm(configDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,125 @@
+// ABOUTME: Per-participant Claude Code settings: model, turn limit, tools and phase timeouts
+// Read from a JSON file or from 'key=value' pairs in the provider spec, rejecting unknown keys
+
+import { Result, ok, err } from 'neverthrow';
+import { readFile } from 'fs/promises';
+
+export interface ClaudeCodeConfig {
+  readonly model: string;
+  readonly maxTurns: number;
+  readonly allowedTools: readonly string[];
+  readonly disallowedTools: readonly string[];
+  readonly baselineTimeoutMs: number;
+  readonly bugInjectionTimeoutMs: number;
+  readonly fixAttemptTimeoutMs: number;
+  // Whether a phase the SDK reports as successful must also leave a Makefile naming 'setup' and
+  // 'test' targets behind; the targets are not run
+  readonly makeTargetCheck: boolean;
+}
+
+export const DEFAULT_CLAUDE_CODE_CONFIG: ClaudeCodeConfig = {
+  model: 'eu.anthropic.claude-sonnet-4-20250514-v1:0',
+  maxTurns: 30,
+  allowedTools: ['Read', 'Write', 'Edit', 'Glob', 'LS'],
+  disallowedTools: ['Task', 'WebFetch', 'Bash'],
+  baselineTimeoutMs: 180000,
+  bugInjectionTimeoutMs: 300000,
+  fixAttemptTimeoutMs: 180000,
+  makeTargetCheck: true,
+};
+
+const NUMBER_KEYS = [
+  'maxTurns',
+  'baselineTimeoutMs',
+  'bugInjectionTimeoutMs',
+  'fixAttemptTimeoutMs',
+];
+const LIST_KEYS = ['allowedTools', 'disallowedTools'];
+const CONFIG_KEYS: ReadonlySet<string> = new Set([
+  'model',
+  'makeTargetCheck',
+  ...NUMBER_KEYS,
+  ...LIST_KEYS,
+]);
+
+export async function loadClaudeCodeConfig(
+  filePath: string
+): Promise<Result<ClaudeCodeConfig, Error>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read Claude Code options from ${filePath}: ${message}`));
+  }
+
+  try {
+    return parseClaudeCodeConfig(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid JSON in Claude Code options ${filePath}: ${message}`));
+  }
+}
+
+// 'model=opus,maxTurns=60,allowedTools=Read+Write' as written after 'claude-code:' in a provider
+// spec; list entries are joined with '+' because ',' already separates the pairs
+export function parseClaudeCodeOptions(text: string): Result<ClaudeCodeConfig, Error> {
+  const input: Record<string, unknown> = {};
+  for (const pair of text.split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return err(new Error(`Claude Code option "${pair}" must be written as key=value`));
+    }
+    const key = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (NUMBER_KEYS.includes(key)) {
+      input[key] = value === '' ? NaN : Number(value);
+    } else if (key === 'makeTargetCheck') {
+      input[key] = value === 'true' ? true : value === 'false' ? false : value;
+    } else if (LIST_KEYS.includes(key)) {
+      input[key] = value === '' ? [] : value.split('+').map(tool => tool.trim());
+    } else {
+      input[key] = value;
+    }
+  }
+  return parseClaudeCodeConfig(input);
+}
+
+export function parseClaudeCodeConfig(input: unknown): Result<ClaudeCodeConfig, Error> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return err(new Error('Claude Code options must be a JSON object'));
+  }
+  const options = input as Record<string, unknown>;
+  const unknownKey = Object.keys(options).find(key => !CONFIG_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return err(new Error(`Unknown Claude Code option "${unknownKey}"`));
+  }
+
+  const { model, makeTargetCheck } = options;
+  if (model !== undefined && (typeof model !== 'string' || model.trim() === '')) {
+    return err(new Error('Claude Code option "model" must be a non-empty string'));
+  }
+  if (makeTargetCheck !== undefined && typeof makeTargetCheck !== 'boolean') {
+    return err(new Error('Claude Code option "makeTargetCheck" must be true or false'));
+  }
+  for (const key of NUMBER_KEYS) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      !(typeof value === 'number' && Number.isInteger(value) && value > 0)
+    ) {
+      return err(new Error(`Claude Code option "${key}" must be a positive integer`));
+    }
+  }
+  for (const key of LIST_KEYS) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every(tool => typeof tool === 'string' && tool !== ''))
+    ) {
+      return err(new Error(`Claude Code option "${key}" must be a list of tool names`));
+    }
+  }
+
+  return ok({ ...DEFAULT_CLAUDE_CODE_CONFIG, ...options } as ClaudeCodeConfig);
+}
@@ -0,0 +1,174 @@
+// ABOUTME: Tests for how ClaudeCodeProvider judges a phase from the SDK's result message
+// Conversations are replayed through an injected query, so no Claude Code CLI is needed
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Options, SDKMessage } from '@anthropic-ai/claude-code';
+import { ClaudeCodeProvider, ClaudeCodeQuery, evaluateResultMessage } from './claude-code-provider';
+import { DEFAULT_CLAUDE_CODE_CONFIG } from './claude-code-config';
+
+const CONTRACT_MAKEFILE = 'setup:\n\tnpm install\n\ntest:\n\tnpm test\n';
+
+function resultMessage(
+  subtype: 'success' | 'error_max_turns' | 'error_during_execution',
+  overrides: { is_error?: boolean; result?: string; num_turns?: number } = {}
+): SDKMessage {
+  return {
+    type: 'result',
+    subtype,
+    duration_ms: 1000,
+    duration_api_ms: 800,
+    is_error: subtype !== 'success',
+    num_turns: 4,
+    result: 'Done.',
+    session_id: 'session-1',
+    total_cost_usd: 0.01,
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  } as SDKMessage;
+}
+
+function assistantText(text: string): SDKMessage {
+  return {
+    type: 'assistant',
+    message: { content: [{ type: 'text', text }] },
+    parent_tool_use_id: null,
+    session_id: 'session-1',
+  } as unknown as SDKMessage;
+}
+
+describe('ClaudeCodeProvider', () => {
+  let workspaceDir: string;
+  let queriedOptions: Options[];
+
+  const replay = (...messages: SDKMessage[]): ClaudeCodeQuery =>
+    async function* ({ options }) {
+      queriedOptions.push(options ?? {});
+      yield* messages;
+    };
+
+  beforeEach(async () => {
+    workspaceDir = await mkdtemp(join(tmpdir(), 'claude-code-provider-'));
+    queriedOptions = [];
+  });
+
+  afterEach(async () => {
+    await rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it('should succeed on a successful result message once the Makefile targets are in place', async () => {
+    await writeFile(join(workspaceDir, 'Makefile'), CONTRACT_MAKEFILE);
+    const provider = new ClaudeCodeProvider(
+      { ...DEFAULT_CLAUDE_CODE_CONFIG, model: 'opus', maxTurns: 60 },
+      replay(assistantText('The tests fail, nothing was written'), resultMessage('success'))
+    );
+
+    const result = await provider.createCodingExercise(workspaceDir, 'Build a parser');
+
+    expect(result).toEqual({
+      success: true,
+      message: 'Claude Code baseline creation completed successfully after 4 turns',
+    });
+    expect(queriedOptions).toEqual([
+      expect.objectContaining({ model: 'opus', maxTurns: 60, cwd: workspaceDir }),
+    ]);
+  });
+
+  it('should fail with missing-make-targets when the Makefile is missing or incomplete', async () => {
+    const provider = new ClaudeCodeProvider(
+      DEFAULT_CLAUDE_CODE_CONFIG,
+      replay(assistantText('Created the Makefile and all tests pass'), resultMessage('success'))
+    );
+
+    expect(await provider.createCodingExercise(workspaceDir, 'Build')).toEqual({
+      success: false,
+      message: 'Claude Code baseline creation left no Makefile in the workspace',
+      failureReason: 'missing-make-targets',
+    });
+
+    await writeFile(join(workspaceDir, 'Makefile'), 'setup:\n\tnpm install\n');
+    expect(await provider.createCodingExercise(workspaceDir, 'Build')).toEqual({
+      success: false,
+      message: "Claude Code baseline creation left a Makefile without a 'test' target",
+      failureReason: 'missing-make-targets',
+    });
+
+    const unchecked = new ClaudeCodeProvider(
+      { ...DEFAULT_CLAUDE_CODE_CONFIG, makeTargetCheck: false },
+      replay(resultMessage('success'))
+    );
+    expect((await unchecked.createCodingExercise(workspaceDir, 'Build')).success).toBe(true);
+  });
+
+  it('should stop the conversation when the runner aborts the phase', async () => {
+    const runnerAbort = new AbortController();
+    let conversationAborted = false;
+    const provider = new ClaudeCodeProvider(DEFAULT_CLAUDE_CODE_CONFIG, async function* ({
+      abortController,
+    }) {
+      yield assistantText('Working on it');
+      runnerAbort.abort();
+      conversationAborted = abortController?.signal.aborted ?? false;
+      throw new Error('Claude Code process aborted by user');
+    });
+
+    const result = await provider.createCodingExercise(workspaceDir, 'Build', runnerAbort.signal);
+
+    expect(conversationAborted).toBe(true);
+    expect(result).toEqual({
+      success: false,
+      message: 'Claude Code baseline creation was stopped by the runner',
+      failureReason: 'timeout',
+    });
+  });
+
+  it('should fail with workspace-error when the source cannot be copied', async () => {
+    const provider = new ClaudeCodeProvider(DEFAULT_CLAUDE_CODE_CONFIG, replay());
+
+    const result = await provider.fixAttempt(
+      join(workspaceDir, 'missing'),
+      join(workspaceDir, 'fix'),
+      'Fix it'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('workspace-error');
+    expect(queriedOptions).toEqual([]);
+  });
+});
+
+describe('evaluateResultMessage', () => {
+  it('should report why the SDK ended the conversation unsuccessfully', () => {
+    expect(evaluateResultMessage([resultMessage('error_max_turns')], 'fix attempt', 30)).toEqual({
+      success: false,
+      message: 'Claude Code fix attempt stopped at the limit of 30 turns',
+      failureReason: 'max-turns',
+    });
+    expect(
+      evaluateResultMessage([resultMessage('error_during_execution')], 'fix attempt', 30)
+    ).toEqual({
+      success: false,
+      message: 'Claude Code fix attempt failed during execution after 4 turns',
+      failureReason: 'execution-error',
+    });
+    expect(
+      evaluateResultMessage(
+        [resultMessage('success', { is_error: true, result: 'API Error: 529 overloaded\nretry' })],
+        'bug injection',
+        30
+      )
+    ).toEqual({
+      success: false,
+      message:
+        'Claude Code bug injection reported an error after 4 turns: API Error: 529 overloaded',
+      failureReason: 'agent-error',
+    });
+    expect(evaluateResultMessage([assistantText('All tests pass')], 'bug injection', 30)).toEqual({
+      success: false,
+      message: 'Claude Code bug injection ended without a result message',
+      failureReason: 'no-result',
+    });
+  });
+});
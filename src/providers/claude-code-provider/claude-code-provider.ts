@@ -1,16 +1,36 @@
 // ABOUTME: Real Claude Code provider implementation using TypeScript SDK
 // Competition-focused prompts that encourage deep thinking and strategic bug creation/fixing
 
-import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import {
+  LLMProvider,
+  ProviderFailureReason,
+  ProviderPhaseResult,
+  ProviderPhaseTimeouts,
+} from 'domain/llm-provider/llm-provider';
 import {
   query,
+  type Options,
   type SDKMessage,
   type SDKAssistantMessage,
+  type SDKResultMessage,
   type SDKUserMessage,
 } from '@anthropic-ai/claude-code';
-import { cp } from 'fs/promises';
+import { cp, readFile } from 'fs/promises';
+import { join } from 'path';
 import { setTimeout as nodeSetTimeout, clearTimeout } from 'timers';
 import { DebugLogger } from 'utils/debug-logger';
+import { extractMakeRule } from 'infrastructure/contract-validator/test-integrity-validator';
+import { ClaudeCodeConfig, DEFAULT_CLAUDE_CODE_CONFIG } from './claude-code-config';
+
+// The SDK's query, injectable so tests can replay a conversation without the CLI
+export type ClaudeCodeQuery = (props: {
+  prompt: string;
+  abortController?: AbortController;
+  options?: Options;
+}) => AsyncIterable<SDKMessage>;
+
+// Targets every phase has to leave behind for the arena to validate the workspace
+const REQUIRED_MAKE_TARGETS = ['setup', 'test'];
 
 // Type guards for discriminated unions
 function isUserOrAssistantMessage(msg: SDKMessage): msg is SDKUserMessage | SDKAssistantMessage {
@@ -45,15 +65,31 @@ function asStreamingToolMessage(msg: SDKMessage): {
 
 export class ClaudeCodeProvider implements LLMProvider {
   readonly name = 'claude-code';
-  private static readonly MAX_TURNS = 30;
+
+  constructor(
+    readonly config: ClaudeCodeConfig = DEFAULT_CLAUDE_CODE_CONFIG,
+    private readonly runQuery: ClaudeCodeQuery = query
+  ) {}
+
+  get phaseTimeouts(): ProviderPhaseTimeouts {
+    const { baselineTimeoutMs, bugInjectionTimeoutMs, fixAttemptTimeoutMs } = this.config;
+    return { baselineTimeoutMs, bugInjectionTimeoutMs, fixAttemptTimeoutMs };
+  }
 
   async createCodingExercise(
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }> {
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
     DebugLogger.logPhaseStart('BASELINE_CREATION', `Creating baseline project in ${workspaceDir}`);
 
-    const result = await this.executeQuery(workspaceDir, prompt, 'baseline creation');
+    const result = await this.executeQuery(
+      workspaceDir,
+      prompt,
+      'baseline creation',
+      this.config.baselineTimeoutMs,
+      signal
+    );
     DebugLogger.logPhaseEnd('BASELINE_CREATION', result.success, result.message);
     return result;
   }
@@ -61,8 +97,9 @@ export class ClaudeCodeProvider implements LLMProvider {
   async injectBug(
     baselineDir: string,
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }> {
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
     DebugLogger.logPhaseStart(
       'BUG_INJECTION',
       `Copying baseline from ${baselineDir} to ${workspaceDir}`
@@ -77,11 +114,18 @@ export class ClaudeCodeProvider implements LLMProvider {
       return {
         success: false,
         message: errorMsg,
+        failureReason: 'workspace-error',
       };
     }
 
     DebugLogger.logProgress('BUG_INJECTION', 'Starting bug injection with Claude Code');
-    const result = await this.executeQuery(workspaceDir, prompt, 'bug injection', 300000);
+    const result = await this.executeQuery(
+      workspaceDir,
+      prompt,
+      'bug injection',
+      this.config.bugInjectionTimeoutMs,
+      signal
+    );
     DebugLogger.logPhaseEnd('BUG_INJECTION', result.success, result.message);
     return result;
   }
@@ -89,8 +133,9 @@ export class ClaudeCodeProvider implements LLMProvider {
   async fixAttempt(
     buggyDir: string,
     workspaceDir: string,
-    prompt: string
-  ): Promise<{ success: boolean; message: string }> {
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
     DebugLogger.logPhaseStart(
       'FIX_ATTEMPT',
       `Copying buggy code from ${buggyDir} to ${workspaceDir}`
@@ -105,11 +150,18 @@ export class ClaudeCodeProvider implements LLMProvider {
       return {
         success: false,
         message: errorMsg,
+        failureReason: 'workspace-error',
       };
     }
 
     DebugLogger.logProgress('FIX_ATTEMPT', 'Starting bug fix with Claude Code');
-    const result = await this.executeQuery(workspaceDir, prompt, 'fix attempt');
+    const result = await this.executeQuery(
+      workspaceDir,
+      prompt,
+      'fix attempt',
+      this.config.fixAttemptTimeoutMs,
+      signal
+    );
     DebugLogger.logPhaseEnd('FIX_ATTEMPT', result.success, result.message);
     return result;
   }
@@ -118,8 +170,9 @@ export class ClaudeCodeProvider implements LLMProvider {
     workspaceDir: string,
     prompt: string,
     phase: string,
-    timeoutInMs = 180000
-  ): Promise<{ success: boolean; message: string }> {
+    timeoutInMs: number,
+    signal: AbortSignal | undefined
+  ): Promise<ProviderPhaseResult> {
     const phaseUpper = phase.toUpperCase().replace(' ', '_');
 
     try {
@@ -129,24 +182,34 @@ export class ClaudeCodeProvider implements LLMProvider {
       const timeout = nodeSetTimeout(() => {
         abortController.abort();
       }, timeoutInMs);
+      // The runner gave up on the phase, so the conversation has to stop writing to the workspace
+      const stopConversation = () => {
+        clearTimeout(timeout);
+        abortController.abort();
+      };
+      if (signal?.aborted) {
+        stopConversation();
+      }
+      signal?.addEventListener('abort', stopConversation, { once: true });
 
       DebugLogger.logProgress(phaseUpper, 'Starting Claude Code conversation', {
         workspaceDir,
-        maxTurns: ClaudeCodeProvider.MAX_TURNS,
+        model: this.config.model,
+        maxTurns: this.config.maxTurns,
         timeoutMs: timeoutInMs,
       });
 
       try {
         let messageCount = 0;
-        for await (const message of query({
+        for await (const message of this.runQuery({
           prompt: `${prompt}\n\nIMPORTANT CONSTRAINTS:\n- You are working in a sandboxed workspace directory: ${workspaceDir}\n- You MUST stay within this directory - never access files outside of it\n- All file paths must be relative to the current working directory\n- Do not use absolute paths or .. to navigate outside the workspace\n- Only work with files that exist within the workspace directory`,
           abortController,
           options: {
-            maxTurns: ClaudeCodeProvider.MAX_TURNS, // Allow more turns for deep analysis and complex baseline creation
+            maxTurns: this.config.maxTurns,
             cwd: workspaceDir,
-            allowedTools: ['Read', 'Write', 'Edit', 'Glob', 'LS'],
-            disallowedTools: ['Task', 'WebFetch', 'Bash'],
-            model: 'eu.anthropic.claude-sonnet-4-20250514-v1:0',
+            allowedTools: [...this.config.allowedTools],
+            disallowedTools: [...this.config.disallowedTools],
+            model: this.config.model,
           },
         })) {
           messages.push(message);
@@ -245,25 +308,31 @@ export class ClaudeCodeProvider implements LLMProvider {
 
         DebugLogger.logProgress(phaseUpper, `Conversation completed with ${messageCount} messages`);
 
-        const success = this.determineSuccess(messages, phase);
+        const sdkOutcome = evaluateResultMessage(messages, phase, this.config.maxTurns);
+        const outcome =
+          sdkOutcome.success && this.config.makeTargetCheck
+            ? ((await checkMakeTargets(workspaceDir, phase)) ?? sdkOutcome)
+            : sdkOutcome;
 
-        DebugLogger.logProgress(phaseUpper, `Success determination: ${success}`, {
+        DebugLogger.logProgress(phaseUpper, `Success determination: ${outcome.success}`, {
           totalMessages: messageCount,
           phase,
+          ...(outcome.failureReason && { failureReason: outcome.failureReason }),
         });
 
-        return {
-          success,
-          message: success
-            ? `Claude Code ${phase} completed successfully`
-            : `Claude Code ${phase} completed but may have issues. Messages: ${messages
-                .slice(-2)
-                .map(m => JSON.stringify(m))
-                .join(', ')}`,
-        };
+        return outcome;
       } catch (error) {
         clearTimeout(timeout);
 
+        if (signal?.aborted) {
+          DebugLogger.logProgress(phaseUpper, 'Conversation stopped by the runner');
+          return {
+            success: false,
+            message: `Claude Code ${phase} was stopped by the runner`,
+            failureReason: 'timeout',
+          };
+        }
+
         if (abortController.signal.aborted) {
           const timeoutInMinutes = Math.round(timeoutInMs / 60000);
           DebugLogger.logProgress(
@@ -273,6 +342,7 @@ export class ClaudeCodeProvider implements LLMProvider {
           return {
             success: false,
             message: `Claude Code ${phase} timed out after ${timeoutInMinutes} minutes`,
+            failureReason: 'timeout',
           };
         }
 
@@ -280,50 +350,75 @@ export class ClaudeCodeProvider implements LLMProvider {
           error: error instanceof Error ? error.message : String(error),
         });
         throw error;
+      } finally {
+        signal?.removeEventListener('abort', stopConversation);
       }
     } catch (error) {
       return {
         success: false,
         message: `Claude Code ${phase} failed: ${error instanceof Error ? error.message : String(error)}`,
+        failureReason: 'execution-error',
       };
     }
   }
+}
 
-  private determineSuccess(messages: SDKMessage[], phase: string): boolean {
-    const allMessages = messages
-      .map(msg => JSON.stringify(msg))
-      .join(' ')
-      .toLowerCase();
-
-    switch (phase) {
-      case 'baseline creation':
-        return (
-          allMessages.includes('makefile') &&
-          allMessages.includes('setup') &&
-          allMessages.includes('test') &&
-          (allMessages.includes('created') || allMessages.includes('written'))
-        );
-
-      case 'bug injection':
-        return (
-          allMessages.includes('test') &&
-          (allMessages.includes('fail') ||
-            allMessages.includes('failing') ||
-            allMessages.includes('broken') ||
-            allMessages.includes('bug'))
-        );
-
-      case 'fix attempt':
-        return (
-          allMessages.includes('test') &&
-          (allMessages.includes('pass') ||
-            allMessages.includes('passing') ||
-            allMessages.includes('fixed') ||
-            allMessages.includes('fix'))
-        );
-
-      default:
-        return messages.length > 0;
-    }
+// The SDK ends every conversation with a result message saying how it ended; without one the
+// conversation broke off
+export function evaluateResultMessage(
+  messages: readonly SDKMessage[],
+  phase: string,
+  maxTurns: number
+): ProviderPhaseResult {
+  const result = [...messages]
+    .reverse()
+    .find((message): message is SDKResultMessage => message.type === 'result');
+  if (!result) {
+    return failure('no-result', `Claude Code ${phase} ended without a result message`);
+  }
+
+  const turns = `${result.num_turns} turn${result.num_turns === 1 ? '' : 's'}`;
+  if (result.subtype !== 'success') {
+    return result.subtype === 'error_max_turns'
+      ? failure('max-turns', `Claude Code ${phase} stopped at the limit of ${maxTurns} turns`)
+      : failure('execution-error', `Claude Code ${phase} failed during execution after ${turns}`);
   }
+  if (result.is_error) {
+    const detail = result.result.trim().split('\n')[0]?.slice(0, 200);
+    return failure(
+      'agent-error',
+      `Claude Code ${phase} reported an error after ${turns}${detail ? `: ${detail}` : ''}`
+    );
+  }
+  return { success: true, message: `Claude Code ${phase} completed successfully after ${turns}` };
+}
+
+// Only checks that the Makefile names the 'setup' and 'test' targets; it does not run them, so
+// whether they work and the tests pass is left to the arena's validation
+async function checkMakeTargets(
+  workspaceDir: string,
+  phase: string
+): Promise<ProviderPhaseResult | undefined> {
+  let makefile: string;
+  try {
+    makefile = await readFile(join(workspaceDir, 'Makefile'), 'utf-8');
+  } catch {
+    return failure(
+      'missing-make-targets',
+      `Claude Code ${phase} left no Makefile in the workspace`
+    );
+  }
+  const missing = REQUIRED_MAKE_TARGETS.filter(
+    target => extractMakeRule(makefile, target) === null
+  );
+  if (missing.length > 0) {
+    const targets = missing.map(target => `'${target}'`).join(' and ');
+    const noun = missing.length === 1 ? `a ${targets} target` : `${targets} targets`;
+    return failure('missing-make-targets', `Claude Code ${phase} left a Makefile without ${noun}`);
+  }
+  return undefined;
+}
+
+function failure(failureReason: ProviderFailureReason, message: string): ProviderPhaseResult {
+  return { success: false, message, failureReason };
 }
@@ -0,0 +1,155 @@
+// ABOUTME: Configuration of an external coding agent command, loaded from a JSON file
+// Rejects unknown keys and malformed values so a typo never silently changes how the agent runs
+
+import { Result, ok, err } from 'neverthrow';
+import { readFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+
+export type PromptMode = 'stdin' | 'file';
+
+export interface ExternalCommandConfig {
+  // Provider name used for participant ids and leaderboards
+  readonly name: string;
+  readonly command: string;
+  // May contain {workspace}, {promptFile} and {phase}, replaced before every run
+  readonly args: readonly string[];
+  // 'file' writes the prompt to a temporary file outside the workspace instead of stdin
+  readonly promptMode: PromptMode;
+  readonly timeoutMs: number;
+  // Bytes kept from each of stdout and stderr
+  readonly maxOutputBytes: number;
+  // Added to the arena's own environment
+  readonly env: Readonly<Record<string, string>>;
+}
+
+export const DEFAULT_EXTERNAL_COMMAND_CONFIG: Omit<ExternalCommandConfig, 'name' | 'command'> = {
+  args: [],
+  promptMode: 'stdin',
+  timeoutMs: 300000,
+  maxOutputBytes: 1024 * 1024,
+  env: {},
+};
+
+// Stands in for env values when the config is recorded, since they are where API keys end up
+export const REDACTED_ENV_VALUE = '[redacted]';
+
+// Names end up in workspace directory names, so they are kept to safe characters
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const CONFIG_KEYS: ReadonlySet<string> = new Set([
+  'name',
+  'command',
+  'args',
+  'promptMode',
+  'timeoutMs',
+  'maxOutputBytes',
+  'env',
+]);
+
+export async function loadExternalCommandConfig(
+  filePath: string
+): Promise<Result<ExternalCommandConfig, Error>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read agent command from ${filePath}: ${message}`));
+  }
+
+  let configResult: Result<ExternalCommandConfig, Error>;
+  try {
+    configResult = parseExternalCommandConfig(JSON.parse(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid JSON in agent command ${filePath}: ${message}`));
+  }
+
+  // The command runs from inside the workspace, so a relative path is taken from the file instead
+  return configResult.map(config =>
+    config.command.includes('/')
+      ? { ...config, command: resolve(dirname(filePath), config.command) }
+      : config
+  );
+}
+
+export function parseExternalCommandConfig(input: unknown): Result<ExternalCommandConfig, Error> {
+  if (!isRecord(input)) {
+    return err(new Error('An agent command must be a JSON object'));
+  }
+  const unknownKey = Object.keys(input).find(key => !CONFIG_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return err(new Error(`Unknown agent command key "${unknownKey}"`));
+  }
+
+  const { name, command, args, promptMode, timeoutMs, maxOutputBytes, env } = input;
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    return err(new Error('Agent command "name" must consist of letters, digits, "-" and "_" only'));
+  }
+  if (typeof command !== 'string' || command.trim() === '') {
+    return err(new Error('Agent command "command" must be a non-empty string'));
+  }
+  if (args !== undefined && !(Array.isArray(args) && args.every(arg => typeof arg === 'string'))) {
+    return err(new Error('Agent command "args" must be a list of strings'));
+  }
+  if (promptMode !== undefined && promptMode !== 'stdin' && promptMode !== 'file') {
+    return err(new Error('Agent command "promptMode" must be "stdin" or "file"'));
+  }
+  for (const [key, value] of Object.entries({ timeoutMs, maxOutputBytes })) {
+    if (
+      value !== undefined &&
+      !(typeof value === 'number' && Number.isInteger(value) && value > 0)
+    ) {
+      return err(new Error(`Agent command "${key}" must be a positive integer`));
+    }
+  }
+  if (
+    env !== undefined &&
+    !(isRecord(env) && Object.values(env).every(value => typeof value === 'string'))
+  ) {
+    return err(new Error('Agent command "env" must map names to strings'));
+  }
+
+  return ok({
+    ...DEFAULT_EXTERNAL_COMMAND_CONFIG,
+    name,
+    command,
+    ...(args !== undefined && { args }),
+    ...(promptMode !== undefined && { promptMode }),
+    ...(timeoutMs !== undefined && { timeoutMs: timeoutMs as number }),
+    ...(maxOutputBytes !== undefined && { maxOutputBytes: maxOutputBytes as number }),
+    ...(env !== undefined && { env: env as Record<string, string> }),
+  });
+}
+
+// The config as recorded with the competition: env names are kept, their values are not
+export function redactExternalCommandConfig(config: ExternalCommandConfig): ExternalCommandConfig {
+  return {
+    ...config,
+    env: Object.fromEntries(Object.keys(config.env).map(key => [key, REDACTED_ENV_VALUE])),
+  };
+}
+
+// A recorded config gets its redacted env values back from the arena's own environment
+export function restoreExternalCommandEnv(
+  config: ExternalCommandConfig,
+  environment: typeof process.env
+): Result<ExternalCommandConfig, Error> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.env)) {
+    const restored = value === REDACTED_ENV_VALUE ? environment[key] : value;
+    if (restored === undefined) {
+      return err(
+        new Error(
+          `Agent command "${config.name}" needs ${key}, which is not recorded; set it in the environment`
+        )
+      );
+    }
+    env[key] = restored;
+  }
+  return ok({ ...config, env });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
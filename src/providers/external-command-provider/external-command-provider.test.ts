@@ -0,0 +1,207 @@
+// ABOUTME: Tests for the external command provider running small shell script agents
+// Covers prompt delivery on stdin and in a file, result parsing and failing or hanging agents
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout } from 'timers';
+import { ExternalCommandProvider, parseAgentResult } from './external-command-provider';
+import {
+  DEFAULT_EXTERNAL_COMMAND_CONFIG,
+  ExternalCommandConfig,
+  REDACTED_ENV_VALUE,
+  loadExternalCommandConfig,
+  parseExternalCommandConfig,
+  restoreExternalCommandEnv,
+} from './external-command-config';
+
+describe('ExternalCommandProvider', () => {
+  let rootDir: string;
+  let workspaceDir: string;
+
+  const createAgent = async (
+    script: string,
+    overrides: Partial<ExternalCommandConfig> = {}
+  ): Promise<ExternalCommandProvider> => {
+    const scriptPath = join(rootDir, 'agent.sh');
+    await writeFile(scriptPath, `#!/bin/sh\n${script}\n`);
+    await chmod(scriptPath, 0o755);
+    return new ExternalCommandProvider({
+      ...DEFAULT_EXTERNAL_COMMAND_CONFIG,
+      name: 'script-agent',
+      command: scriptPath,
+      ...overrides,
+    });
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'external-command-test-'));
+    workspaceDir = join(rootDir, 'workspace');
+    await mkdir(workspaceDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should pass the prompt on stdin and run in the workspace', async () => {
+    const agent = await createAgent(
+      [
+        'cat > prompt.txt',
+        'echo "$ARENA_PHASE" > phase.txt',
+        'echo "working..."',
+        'echo \'{"success": true, "message": "wrote the project"}\'',
+      ].join('\n')
+    );
+
+    const result = await agent.createCodingExercise(workspaceDir, 'Build a parser');
+
+    expect(result).toEqual({
+      success: true,
+      message: 'script-agent baseline creation: wrote the project',
+    });
+    expect(await readFile(join(workspaceDir, 'prompt.txt'), 'utf-8')).toBe('Build a parser');
+    expect(await readFile(join(workspaceDir, 'phase.txt'), 'utf-8')).toBe('baseline\n');
+  });
+
+  it('should write the prompt to a file outside the workspace in file mode', async () => {
+    const buggyDir = join(rootDir, 'buggy');
+    await mkdir(buggyDir);
+    await writeFile(join(buggyDir, 'calc.py'), 'bug\n');
+    const agent = await createAgent(
+      [
+        'cp "$1" prompt-copy.txt',
+        'echo "$2" > args.txt',
+        'test "$1" = "$ARENA_PROMPT_FILE" || exit 3',
+        'echo \'{"success": false, "message": "could not find the bug"}\'',
+      ].join('\n'),
+      { promptMode: 'file', args: ['{promptFile}', '{phase} in {workspace}'] }
+    );
+
+    const result = await agent.fixAttempt(buggyDir, workspaceDir, 'Fix it');
+
+    expect(result).toEqual({
+      success: false,
+      message: 'script-agent fix attempt: could not find the bug',
+    });
+    expect(await readFile(join(workspaceDir, 'calc.py'), 'utf-8')).toBe('bug\n');
+    expect(await readFile(join(workspaceDir, 'prompt-copy.txt'), 'utf-8')).toBe('Fix it');
+    expect(await readFile(join(workspaceDir, 'args.txt'), 'utf-8')).toBe(
+      `fix-attempt in ${workspaceDir}\n`
+    );
+  });
+
+  it('should fail when the agent exits non-zero or prints no result', async () => {
+    const crashing = await createAgent('echo "model unavailable" >&2\nexit 2');
+    expect(await crashing.createCodingExercise(workspaceDir, 'Build')).toEqual({
+      success: false,
+      message: 'script-agent baseline creation exited with code 2: model unavailable',
+    });
+
+    const silent = await createAgent('echo "done"');
+    expect(await silent.createCodingExercise(workspaceDir, 'Build')).toEqual({
+      success: false,
+      message:
+        'script-agent baseline creation printed no JSON result with a boolean "success" on stdout',
+    });
+  });
+
+  it('should kill an agent that runs past its timeout', async () => {
+    const agent = await createAgent('sleep 30', { timeoutMs: 200 });
+
+    const result = await agent.createCodingExercise(workspaceDir, 'Build');
+
+    expect(result).toEqual({
+      success: false,
+      message: 'script-agent baseline creation timed out after 0.2s',
+    });
+  });
+
+  it('should kill the agent when the runner aborts the phase', async () => {
+    const agent = await createAgent('sleep 30');
+    const runnerAbort = new AbortController();
+    setTimeout(() => runnerAbort.abort(), 100);
+
+    const result = await agent.createCodingExercise(workspaceDir, 'Build', runnerAbort.signal);
+
+    expect(result).toEqual({
+      success: false,
+      message: 'script-agent baseline creation was stopped by the runner',
+    });
+  });
+
+  it('should expose its timeout as phase timeouts and record no env values', async () => {
+    const agent = await createAgent('exit 0', { timeoutMs: 600000, env: { API_KEY: 'secret' } });
+
+    expect(agent.phaseTimeouts).toEqual({
+      baselineTimeoutMs: 600000,
+      bugInjectionTimeoutMs: 600000,
+      fixAttemptTimeoutMs: 600000,
+    });
+    expect(agent.config.env).toEqual({ API_KEY: REDACTED_ENV_VALUE });
+    expect(JSON.stringify(agent.config)).not.toContain('secret');
+  });
+
+  it('should read the last JSON line with a boolean success as the result', () => {
+    expect(parseAgentResult('{"step": 1}\n{"success": true}\n{"tokens": 10}\n')).toEqual({
+      success: true,
+      message: 'succeeded',
+    });
+    expect(parseAgentResult('{"success": "yes"}')).toBeUndefined();
+  });
+});
+
+describe('External command config', () => {
+  it('should fill defaults and resolve a relative command from the config file', async () => {
+    const configDir = await mkdtemp(join(tmpdir(), 'external-command-config-'));
+    try {
+      const configPath = join(configDir, 'agent.json');
+      await writeFile(
+        configPath,
+        JSON.stringify({ name: 'aider', command: './run-aider.sh', promptMode: 'file' })
+      );
+
+      const result = await loadExternalCommandConfig(configPath);
+
+      expect(result._unsafeUnwrap()).toEqual({
+        ...DEFAULT_EXTERNAL_COMMAND_CONFIG,
+        name: 'aider',
+        command: join(configDir, 'run-aider.sh'),
+        promptMode: 'file',
+      });
+    } finally {
+      await rm(configDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should restore redacted env values from the environment on resume', () => {
+    const recorded = {
+      ...DEFAULT_EXTERNAL_COMMAND_CONFIG,
+      name: 'aider',
+      command: 'aider',
+      env: { API_KEY: REDACTED_ENV_VALUE },
+    };
+
+    expect(restoreExternalCommandEnv(recorded, { API_KEY: 'secret' })._unsafeUnwrap().env).toEqual({
+      API_KEY: 'secret',
+    });
+    expect(restoreExternalCommandEnv(recorded, {})._unsafeUnwrapErr().message).toBe(
+      'Agent command "aider" needs API_KEY, which is not recorded; set it in the environment'
+    );
+  });
+
+  it('should reject unsafe names, unknown keys and bad values', () => {
+    expect(
+      parseExternalCommandConfig({ name: '../x', command: 'a' })._unsafeUnwrapErr().message
+    ).toBe('Agent command "name" must consist of letters, digits, "-" and "_" only');
+    expect(
+      parseExternalCommandConfig({ name: 'a', command: 'a', prompt: 'stdin' })._unsafeUnwrapErr()
+        .message
+    ).toBe('Unknown agent command key "prompt"');
+    expect(
+      parseExternalCommandConfig({ name: 'a', command: 'a', timeoutMs: -1 })._unsafeUnwrapErr()
+        .message
+    ).toBe('Agent command "timeoutMs" must be a positive integer');
+  });
+});
@@ -0,0 +1,204 @@
+// ABOUTME: Provider that runs an arbitrary coding agent executable (aider, a script, a custom agent)
+// Passes the prompt on stdin or in a file, runs in the workspace and reads a JSON result from stdout
+
+import {
+  LLMProvider,
+  ProviderPhaseResult,
+  ProviderPhaseTimeouts,
+} from 'domain/llm-provider/llm-provider';
+import { cp, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runBoundedProcess } from 'utils/bounded-process';
+import { DebugLogger } from 'utils/debug-logger';
+import { ExternalCommandConfig, redactExternalCommandConfig } from './external-command-config';
+
+type AgentPhase = 'baseline' | 'bug-injection' | 'fix-attempt';
+
+const PHASE_DESCRIPTIONS: Record<AgentPhase, string> = {
+  baseline: 'baseline creation',
+  'bug-injection': 'bug injection',
+  'fix-attempt': 'fix attempt',
+};
+
+// The agent's verdict, printed as the last JSON line of its stdout
+export interface AgentResult {
+  readonly success: boolean;
+  readonly message: string;
+}
+
+export class ExternalCommandProvider implements LLMProvider {
+  readonly name: string;
+  // What gets recorded with the competition, without the env values
+  readonly config: ExternalCommandConfig;
+  readonly phaseTimeouts: ProviderPhaseTimeouts;
+
+  constructor(private readonly options: ExternalCommandConfig) {
+    this.name = options.name;
+    this.config = redactExternalCommandConfig(options);
+    this.phaseTimeouts = {
+      baselineTimeoutMs: options.timeoutMs,
+      bugInjectionTimeoutMs: options.timeoutMs,
+      fixAttemptTimeoutMs: options.timeoutMs,
+    };
+  }
+
+  async createCodingExercise(
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    return this.runAgent(workspaceDir, prompt, 'baseline', signal);
+  }
+
+  async injectBug(
+    baselineDir: string,
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    try {
+      await cp(baselineDir, workspaceDir, { recursive: true, force: true });
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to copy baseline: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    return this.runAgent(workspaceDir, prompt, 'bug-injection', signal);
+  }
+
+  async fixAttempt(
+    buggyDir: string,
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    try {
+      await cp(buggyDir, workspaceDir, { recursive: true, force: true });
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to copy buggy code: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    return this.runAgent(workspaceDir, prompt, 'fix-attempt', signal);
+  }
+
+  private async runAgent(
+    workspaceDir: string,
+    prompt: string,
+    phase: AgentPhase,
+    signal: AbortSignal | undefined
+  ): Promise<ProviderPhaseResult> {
+    const { name, command, promptMode, timeoutMs, maxOutputBytes, env } = this.options;
+    const description = `${name} ${PHASE_DESCRIPTIONS[phase]}`;
+    DebugLogger.logPhaseStart(phase.toUpperCase(), `Running ${command} in ${workspaceDir}`);
+
+    // Kept out of the workspace so the prompt never shows up in diffs or the project itself
+    const promptDir = promptMode === 'file' ? await mkdtemp(join(tmpdir(), 'arena-prompt-')) : null;
+    const promptFile = promptDir ? join(promptDir, 'prompt.md') : '';
+    try {
+      if (promptDir) {
+        await writeFile(promptFile, prompt, 'utf-8');
+      }
+      const placeholders: Record<string, string> = {
+        workspace: workspaceDir,
+        promptFile,
+        phase,
+      };
+      const args = this.options.args.map(arg =>
+        arg.replace(
+          /\{(workspace|promptFile|phase)\}/g,
+          (_match, key: string) => placeholders[key] ?? ''
+        )
+      );
+
+      const result = await runBoundedProcess(command, args, {
+        cwd: workspaceDir,
+        timeoutMs,
+        maxOutputBytes,
+        signal,
+        input: promptMode === 'stdin' ? prompt : '',
+        env: {
+          ...process.env,
+          ...env,
+          ARENA_PHASE: phase,
+          ARENA_WORKSPACE: workspaceDir,
+          ...(promptDir && { ARENA_PROMPT_FILE: promptFile }),
+        },
+      });
+
+      const outcome = ((): AgentResult => {
+        if (signal?.aborted) {
+          return { success: false, message: `${description} was stopped by the runner` };
+        }
+        if (result.timedOut) {
+          return { success: false, message: `${description} timed out after ${timeoutMs / 1000}s` };
+        }
+        if (result.error) {
+          return {
+            success: false,
+            message: `${description} could not start ${command}: ${result.error.message}`,
+          };
+        }
+        if (result.exitCode !== 0) {
+          const lastError = result.stderr.trimEnd().split('\n').pop()?.trim();
+          const status = result.signal
+            ? `was killed by ${result.signal}`
+            : `exited with code ${result.exitCode}`;
+          return {
+            success: false,
+            message: `${description} ${status}${lastError ? `: ${lastError}` : ''}`,
+          };
+        }
+        const agentResult = parseAgentResult(result.stdout);
+        if (!agentResult) {
+          return {
+            success: false,
+            message: `${description} printed no JSON result with a boolean "success" on stdout`,
+          };
+        }
+        return { success: agentResult.success, message: `${description}: ${agentResult.message}` };
+      })();
+
+      DebugLogger.logPhaseEnd(phase.toUpperCase(), outcome.success, outcome.message);
+      return outcome;
+    } catch (error) {
+      return {
+        success: false,
+        message: `${description} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    } finally {
+      if (promptDir) {
+        await rm(promptDir, { recursive: true, force: true });
+      }
+    }
+  }
+}
+
+// Agents log freely, so only the last line that is a JSON object with a boolean success counts
+export function parseAgentResult(stdout: string): AgentResult | undefined {
+  const lines = stdout.split('\n').map(line => line.trim());
+  for (const line of lines.reverse()) {
+    if (!line.startsWith('{')) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (
+        typeof parsed === 'object' &&
+        parsed !== null &&
+        typeof (parsed as { success?: unknown }).success === 'boolean'
+      ) {
+        const { success, message } = parsed as { success: boolean; message?: unknown };
+        return {
+          success,
+          message:
+            typeof message === 'string' && message ? message : success ? 'succeeded' : 'failed',
+        };
+      }
+    } catch {
+      // Not the result line
+    }
+  }
+  return undefined;
+}
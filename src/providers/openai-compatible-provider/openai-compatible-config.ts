@@ -0,0 +1,131 @@
+// ABOUTME: Settings of the OpenAI-compatible provider: endpoint, model, turn limit and timeouts
+// Defaults come from the environment; each participant can override them from a spec or JSON file
+
+import { Result, ok, err } from 'neverthrow';
+import { readFile } from 'fs/promises';
+
+export interface OpenAICompatibleConfig {
+  // Base URL of the API, including its version, such as http://localhost:8080/v1
+  readonly baseUrl: string;
+  readonly model: string;
+  // Sent as a bearer token; local servers usually need none
+  readonly apiKey?: string | undefined;
+  // Model responses per phase; the phase fails if the model is still calling tools after them
+  readonly maxTurns: number;
+  readonly requestTimeoutMs: number;
+  readonly phaseTimeoutMs: number;
+  readonly temperature?: number | undefined;
+}
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:8080/v1',
+  model: 'default',
+  maxTurns: 30,
+  requestTimeoutMs: 120000,
+  phaseTimeoutMs: 300000,
+};
+
+// OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODEL and OPENAI_COMPATIBLE_API_KEY override the defaults
+export function getOpenAICompatibleConfig(env: typeof process.env): OpenAICompatibleConfig {
+  return {
+    ...DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+    baseUrl: env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_CONFIG.baseUrl,
+    model: env.OPENAI_COMPATIBLE_MODEL || DEFAULT_OPENAI_COMPATIBLE_CONFIG.model,
+    ...(env.OPENAI_COMPATIBLE_API_KEY && { apiKey: env.OPENAI_COMPATIBLE_API_KEY }),
+  };
+}
+
+// The API key is not an option, so it stays out of provider specs and recorded configs
+const NUMBER_KEYS = ['maxTurns', 'requestTimeoutMs', 'phaseTimeoutMs'];
+const OPTION_KEYS: ReadonlySet<string> = new Set([
+  'baseUrl',
+  'model',
+  'temperature',
+  ...NUMBER_KEYS,
+]);
+
+export async function loadOpenAICompatibleConfig(
+  filePath: string,
+  base: OpenAICompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG
+): Promise<Result<OpenAICompatibleConfig, Error>> {
+  let content: string;
+  try {
+    content = await readFile(filePath, 'utf8');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Failed to read OpenAI-compatible options from ${filePath}: ${message}`));
+  }
+
+  try {
+    return parseOpenAICompatibleConfig(JSON.parse(content), base);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return err(new Error(`Invalid JSON in OpenAI-compatible options ${filePath}: ${message}`));
+  }
+}
+
+// 'model=qwen2.5-coder,baseUrl=http://gpu-box:8000/v1' as written after 'openai-compatible:'
+export function parseOpenAICompatibleOptions(
+  text: string,
+  base: OpenAICompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG
+): Result<OpenAICompatibleConfig, Error> {
+  const input: Record<string, unknown> = {};
+  for (const pair of text.split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return err(new Error(`OpenAI-compatible option "${pair}" must be written as key=value`));
+    }
+    const key = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    const numeric = NUMBER_KEYS.includes(key) || key === 'temperature';
+    input[key] = numeric ? (value === '' ? NaN : Number(value)) : value;
+  }
+  return parseOpenAICompatibleConfig(input, base);
+}
+
+export function parseOpenAICompatibleConfig(
+  input: unknown,
+  base: OpenAICompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG
+): Result<OpenAICompatibleConfig, Error> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return err(new Error('OpenAI-compatible options must be a JSON object'));
+  }
+  const options = input as Record<string, unknown>;
+  const unknownKey = Object.keys(options).find(key => !OPTION_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return err(new Error(`Unknown OpenAI-compatible option "${unknownKey}"`));
+  }
+
+  const { baseUrl, model, temperature } = options;
+  if (baseUrl !== undefined && (typeof baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(baseUrl))) {
+    return err(new Error('OpenAI-compatible option "baseUrl" must be an http or https URL'));
+  }
+  if (model !== undefined && (typeof model !== 'string' || model.trim() === '')) {
+    return err(new Error('OpenAI-compatible option "model" must be a non-empty string'));
+  }
+  for (const key of NUMBER_KEYS) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      !(typeof value === 'number' && Number.isInteger(value) && value > 0)
+    ) {
+      return err(new Error(`OpenAI-compatible option "${key}" must be a positive integer`));
+    }
+  }
+  if (
+    temperature !== undefined &&
+    !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)
+  ) {
+    return err(new Error('OpenAI-compatible option "temperature" must be between 0 and 2'));
+  }
+
+  return ok({ ...base, ...options } as OpenAICompatibleConfig);
+}
+
+// The config as recorded with the competition; a resumed provider takes the key from the environment
+export function redactOpenAICompatibleConfig(
+  config: OpenAICompatibleConfig
+): Omit<OpenAICompatibleConfig, 'apiKey'> {
+  const { apiKey: _apiKey, ...recorded } = config;
+  return recorded;
+}
@@ -0,0 +1,269 @@
+// ABOUTME: Tests for the OpenAI-compatible provider against a local stub chat completions server
+// The stub replays scripted model replies and records every request the agent loop sends
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import {
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  parseOpenAICompatibleOptions,
+} from './openai-compatible-config';
+import { createDefaultProviderRegistry } from 'providers/builtin-providers';
+
+interface RecordedRequest {
+  readonly authorization: string | undefined;
+  readonly url: string | undefined;
+  readonly body: {
+    readonly model: string;
+    readonly messages: { readonly role: string; readonly content: string | null }[];
+    readonly tools: { readonly function: { readonly name: string } }[];
+  };
+}
+
+interface StubReply {
+  readonly status?: number;
+  readonly body: unknown;
+}
+
+const toolCall = (id: string, name: string, args: Record<string, unknown>) => ({
+  id,
+  type: 'function',
+  function: { name, arguments: JSON.stringify(args) },
+});
+
+const toolReply = (...toolCalls: unknown[]): StubReply => ({
+  body: { choices: [{ message: { role: 'assistant', content: null, tool_calls: toolCalls } }] },
+});
+
+const finalReply = (content: string): StubReply => ({
+  body: { choices: [{ message: { role: 'assistant', content } }] },
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: StubReply[];
+  let requests: RecordedRequest[];
+  let rootDir: string;
+  let workspaceDir: string;
+
+  const createProvider = (overrides: Partial<typeof DEFAULT_OPENAI_COMPATIBLE_CONFIG> = {}) =>
+    new OpenAICompatibleProvider({
+      ...DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+      baseUrl,
+      model: 'stub-model',
+      apiKey: 'secret',
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    replies = [];
+    requests = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({
+          authorization: req.headers.authorization,
+          url: req.url,
+          body: JSON.parse(body),
+        });
+        const reply = replies.shift() ?? finalReply('Out of script');
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+
+    rootDir = await mkdtemp(join(tmpdir(), 'openai-compatible-test-'));
+    workspaceDir = join(rootDir, 'workspace');
+    await mkdir(workspaceDir);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should run the tool calls of the model until it replies without one', async () => {
+    replies.push(
+      toolReply(
+        toolCall('call-1', 'write_file', { path: 'Makefile', content: 'setup:\n\ttrue\n' }),
+        toolCall('call-2', 'write_file', { path: 'src/app.py', content: 'print(1)\n' })
+      ),
+      toolReply(toolCall('call-3', 'list_files', { path: '.' })),
+      finalReply('Created a Makefile and an app.')
+    );
+
+    const result = await createProvider().createCodingExercise(workspaceDir, 'Build something');
+
+    expect(result).toEqual({
+      success: true,
+      message:
+        'openai-compatible baseline creation completed after 3 turns: Created a Makefile and an app.',
+    });
+    expect(await readFile(join(workspaceDir, 'src', 'app.py'), 'utf-8')).toBe('print(1)\n');
+    expect(requests).toHaveLength(3);
+    expect(requests[0]).toMatchObject({
+      authorization: 'Bearer secret',
+      url: '/v1/chat/completions',
+      body: { model: 'stub-model', tool_choice: 'auto' },
+    });
+    expect(requests[0]?.body.messages[1]).toEqual({ role: 'user', content: 'Build something' });
+    expect(requests[0]?.body.tools.map(tool => tool.function.name)).toEqual([
+      'list_files',
+      'read_file',
+      'write_file',
+      'edit_file',
+    ]);
+    expect(requests[2]?.body.messages.slice(-1)).toEqual([
+      { role: 'tool', tool_call_id: 'call-3', content: 'Makefile\nsrc/' },
+    ]);
+  });
+
+  it('should edit a copy of the buggy workspace when fixing', async () => {
+    const buggyDir = join(rootDir, 'buggy');
+    await mkdir(buggyDir);
+    await writeFile(join(buggyDir, 'calc.py'), 'def add(a, b):\n    return a - b\n');
+    replies.push(
+      toolReply(toolCall('call-1', 'read_file', { path: 'calc.py' })),
+      toolReply(
+        toolCall('call-2', 'edit_file', {
+          path: 'calc.py',
+          old_string: 'return a - b',
+          new_string: 'return a + b',
+        })
+      ),
+      finalReply('Fixed add.')
+    );
+
+    const result = await createProvider().fixAttempt(buggyDir, workspaceDir, 'Fix the bug');
+
+    expect(result.success).toBe(true);
+    expect(await readFile(join(workspaceDir, 'calc.py'), 'utf-8')).toContain('return a + b');
+    expect(await readFile(join(buggyDir, 'calc.py'), 'utf-8')).toContain('return a - b');
+    expect(requests[1]?.body.messages.slice(-1)[0]?.content).toContain('return a - b');
+  });
+
+  it('should refuse paths that leave the workspace and report it to the model', async () => {
+    await symlink(rootDir, join(workspaceDir, 'escape'));
+    replies.push(
+      toolReply(
+        toolCall('call-1', 'write_file', { path: '../outside.txt', content: 'x' }),
+        toolCall('call-2', 'write_file', { path: 'escape/outside.txt', content: 'x' }),
+        toolCall('call-3', 'read_file', { path: '/etc/hostname' }),
+        toolCall('call-4', 'write_file', { path: 'Makefile' })
+      ),
+      finalReply('Done.')
+    );
+
+    await createProvider().createCodingExercise(workspaceDir, 'Build something');
+
+    expect(existsSync(join(rootDir, 'outside.txt'))).toBe(false);
+    expect(requests[1]?.body.messages.slice(-4).map(message => message.content)).toEqual([
+      'Error: ../outside.txt is outside the workspace',
+      'Error: escape/outside.txt is outside the workspace',
+      'Error: /etc/hostname is outside the workspace',
+      "Error: missing string argument 'content'",
+    ]);
+  });
+
+  it('should fail the phase when the endpoint returns an error', async () => {
+    replies.push({ status: 500, body: { error: 'model not loaded' } });
+
+    const result = await createProvider().createCodingExercise(workspaceDir, 'Build something');
+
+    expect(result).toEqual({
+      success: false,
+      message:
+        'openai-compatible baseline creation failed: HTTP 500 from chat completions: {"error":"model not loaded"}',
+    });
+  });
+
+  it('should stop calling tools once the runner aborts the phase', async () => {
+    const runnerAbort = new AbortController();
+    replies.push(
+      toolReply(toolCall('call-1', 'write_file', { path: 'late.txt', content: 'too late' }))
+    );
+    const provider = createProvider();
+    const complete = provider['complete'].bind(provider);
+    provider['complete'] = async (...args: Parameters<typeof complete>) => {
+      const reply = await complete(...args);
+      runnerAbort.abort();
+      return reply;
+    };
+
+    const result = await provider.createCodingExercise(
+      workspaceDir,
+      'Build something',
+      runnerAbort.signal
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: 'openai-compatible baseline creation was stopped by the runner',
+    });
+    expect(existsSync(join(workspaceDir, 'late.txt'))).toBe(false);
+  });
+
+  it('should fail the phase when the model keeps calling tools past the turn limit', async () => {
+    replies.push(
+      toolReply(toolCall('call-1', 'list_files', { path: '.' })),
+      toolReply(toolCall('call-2', 'list_files', { path: '.' }))
+    );
+
+    const result = await createProvider({ maxTurns: 2 }).createCodingExercise(
+      workspaceDir,
+      'Build something'
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: 'openai-compatible baseline creation did not finish within 2 turns',
+    });
+  });
+});
+
+describe('OpenAI-compatible config', () => {
+  it('should give each participant its own endpoint and model over the environment defaults', async () => {
+    const base = { ...DEFAULT_OPENAI_COMPATIBLE_CONFIG, apiKey: 'from-env' };
+
+    const result = parseOpenAICompatibleOptions(
+      'model=qwen2.5-coder,baseUrl=http://gpu-box:8000/v1,phaseTimeoutMs=600000',
+      base
+    );
+
+    expect(result._unsafeUnwrap()).toEqual({
+      ...base,
+      model: 'qwen2.5-coder',
+      baseUrl: 'http://gpu-box:8000/v1',
+      phaseTimeoutMs: 600000,
+    });
+    expect(parseOpenAICompatibleOptions('apiKey=secret')._unsafeUnwrapErr().message).toBe(
+      'Unknown OpenAI-compatible option "apiKey"'
+    );
+  });
+
+  it('should record its config without the API key and expose its phase timeouts', async () => {
+    const registry = createDefaultProviderRegistry();
+
+    const provider = (
+      await registry.create('openai', { argument: 'model=llama,phaseTimeoutMs=400000' })
+    )._unsafeUnwrap();
+    const resumed = (
+      await registry.create('openai-compatible', { ...provider.config })
+    )._unsafeUnwrap();
+
+    expect(provider.config).toMatchObject({ model: 'llama', phaseTimeoutMs: 400000 });
+    expect(provider.config).not.toHaveProperty('apiKey');
+    expect(provider.phaseTimeouts?.bugInjectionTimeoutMs).toBe(400000);
+    expect(resumed.config).toEqual(provider.config);
+  });
+});
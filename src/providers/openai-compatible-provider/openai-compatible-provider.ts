@@ -0,0 +1,234 @@
+// ABOUTME: Provider for any OpenAI-compatible chat completions endpoint (llama.cpp, vLLM, Ollama)
+// Runs its own agent loop, executing the model's file tool calls inside the workspace
+
+import {
+  LLMProvider,
+  ProviderPhaseResult,
+  ProviderPhaseTimeouts,
+} from 'domain/llm-provider/llm-provider';
+import { cp } from 'fs/promises';
+import { DebugLogger } from 'utils/debug-logger';
+import { WORKSPACE_TOOL_DEFINITIONS, WorkspaceTools } from './workspace-tools';
+import {
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  OpenAICompatibleConfig,
+  redactOpenAICompatibleConfig,
+} from './openai-compatible-config';
+
+interface ToolCall {
+  readonly id: string;
+  readonly type: 'function';
+  readonly function: { readonly name: string; readonly arguments: string };
+}
+
+type ChatMessage =
+  | { readonly role: 'system' | 'user'; readonly content: string }
+  | {
+      readonly role: 'assistant';
+      readonly content: string | null;
+      readonly tool_calls?: readonly ToolCall[] | undefined;
+    }
+  | { readonly role: 'tool'; readonly tool_call_id: string; readonly content: string };
+
+const SYSTEM_MESSAGE = `You are a software engineer working in a project workspace through the tools list_files, read_file, write_file and edit_file.
+Paths are relative to the workspace root; you cannot run commands, so reason carefully about how the code and tests behave.
+When the task is complete, reply with a short summary of what you did and call no more tools.`;
+
+// Keeps the final summary readable in logs and events
+const MAX_SUMMARY_CHARACTERS = 500;
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  // What gets recorded with the competition, without the API key
+  readonly config: Omit<OpenAICompatibleConfig, 'apiKey'>;
+  readonly phaseTimeouts: ProviderPhaseTimeouts;
+
+  constructor(
+    private readonly options: OpenAICompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+    readonly name: string = 'openai-compatible'
+  ) {
+    this.config = redactOpenAICompatibleConfig(options);
+    this.phaseTimeouts = {
+      baselineTimeoutMs: options.phaseTimeoutMs,
+      bugInjectionTimeoutMs: options.phaseTimeoutMs,
+      fixAttemptTimeoutMs: options.phaseTimeoutMs,
+    };
+  }
+
+  async createCodingExercise(
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    DebugLogger.logPhaseStart('BASELINE_CREATION', `Creating baseline project in ${workspaceDir}`);
+    const result = await this.runAgent(workspaceDir, prompt, 'baseline creation', signal);
+    DebugLogger.logPhaseEnd('BASELINE_CREATION', result.success, result.message);
+    return result;
+  }
+
+  async injectBug(
+    baselineDir: string,
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    DebugLogger.logPhaseStart(
+      'BUG_INJECTION',
+      `Copying baseline from ${baselineDir} to ${workspaceDir}`
+    );
+    try {
+      await cp(baselineDir, workspaceDir, { recursive: true, force: true });
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to copy baseline: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const result = await this.runAgent(workspaceDir, prompt, 'bug injection', signal);
+    DebugLogger.logPhaseEnd('BUG_INJECTION', result.success, result.message);
+    return result;
+  }
+
+  async fixAttempt(
+    buggyDir: string,
+    workspaceDir: string,
+    prompt: string,
+    signal?: AbortSignal
+  ): Promise<ProviderPhaseResult> {
+    DebugLogger.logPhaseStart(
+      'FIX_ATTEMPT',
+      `Copying buggy code from ${buggyDir} to ${workspaceDir}`
+    );
+    try {
+      await cp(buggyDir, workspaceDir, { recursive: true, force: true });
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to copy buggy code: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    const result = await this.runAgent(workspaceDir, prompt, 'fix attempt', signal);
+    DebugLogger.logPhaseEnd('FIX_ATTEMPT', result.success, result.message);
+    return result;
+  }
+
+  // The model decides when it is done; whether the work holds up is left to validation
+  private async runAgent(
+    workspaceDir: string,
+    prompt: string,
+    phase: string,
+    signal: AbortSignal | undefined
+  ): Promise<ProviderPhaseResult> {
+    const phaseUpper = phase.toUpperCase().replace(' ', '_');
+    const tools = new WorkspaceTools(workspaceDir);
+    const deadline = Date.now() + this.options.phaseTimeoutMs;
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_MESSAGE },
+      { role: 'user', content: prompt },
+    ];
+
+    try {
+      for (let turn = 1; turn <= this.options.maxTurns; turn++) {
+        const reply = await this.complete(messages, deadline, signal);
+        messages.push(reply);
+
+        const toolCalls = reply.tool_calls ?? [];
+        if (toolCalls.length === 0) {
+          const summary = (reply.content ?? '').trim().slice(0, MAX_SUMMARY_CHARACTERS);
+          return {
+            success: true,
+            message: `${this.name} ${phase} completed after ${turn} turns${summary ? `: ${summary}` : ''}`,
+          };
+        }
+
+        for (const toolCall of toolCalls) {
+          // The runner stopped waiting, so the workspace must not change any more
+          signal?.throwIfAborted();
+          const output = await this.callTool(tools, toolCall);
+          DebugLogger.logContent(
+            phaseUpper,
+            `🔧 ${toolCall.function.name}: ${output.split('\n')[0]}`,
+            this.name
+          );
+          messages.push({ role: 'tool', tool_call_id: toolCall.id, content: output });
+        }
+      }
+      return {
+        success: false,
+        message: `${this.name} ${phase} did not finish within ${this.options.maxTurns} turns`,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, message: `${this.name} ${phase} was stopped by the runner` };
+      }
+      if (error instanceof Error && error.name === 'TimeoutError' && Date.now() >= deadline) {
+        return {
+          success: false,
+          message: `${this.name} ${phase} timed out after ${Math.round(this.options.phaseTimeoutMs / 60000)} minutes`,
+        };
+      }
+      return {
+        success: false,
+        message: `${this.name} ${phase} failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  private async callTool(tools: WorkspaceTools, toolCall: ToolCall): Promise<string> {
+    let args: unknown;
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      return `Error: arguments of ${toolCall.function.name} are not valid JSON`;
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return `Error: arguments of ${toolCall.function.name} must be a JSON object`;
+    }
+    return tools.call(toolCall.function.name, args as Record<string, unknown>);
+  }
+
+  private async complete(
+    messages: readonly ChatMessage[],
+    deadline: number,
+    signal: AbortSignal | undefined
+  ): Promise<Extract<ChatMessage, { role: 'assistant' }>> {
+    const timeoutMs = Math.max(0, Math.min(this.options.requestTimeoutMs, deadline - Date.now()));
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        messages,
+        tools: WORKSPACE_TOOL_DEFINITIONS,
+        tool_choice: 'auto',
+        ...(this.options.temperature !== undefined && { temperature: this.options.temperature }),
+      }),
+      signal: signal
+        ? AbortSignal.any([AbortSignal.timeout(timeoutMs), signal])
+        : AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = (await response.text()).trim().slice(0, MAX_SUMMARY_CHARACTERS);
+      throw new Error(`HTTP ${response.status} from chat completions${body ? `: ${body}` : ''}`);
+    }
+
+    const completion = (await response.json()) as {
+      choices?: { message?: { content?: string | null; tool_calls?: ToolCall[] } }[];
+    };
+    const message = completion.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('Chat completions response has no message');
+    }
+    return {
+      role: 'assistant',
+      content: message.content ?? null,
+      ...(message.tool_calls &&
+        message.tool_calls.length > 0 && { tool_calls: message.tool_calls }),
+    };
+  }
+}
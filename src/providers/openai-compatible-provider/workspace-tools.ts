@@ -0,0 +1,189 @@
+// ABOUTME: File tools a chat model calls to work on a competition workspace
+// Every path is resolved inside the workspace; symlinks and '..' cannot reach outside it
+
+import { lstat, mkdir, readdir, readFile, realpath, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+
+// Function definitions in the format of the chat completions 'tools' parameter
+export const WORKSPACE_TOOL_DEFINITIONS = [
+  {
+    type: 'function',
+    function: {
+      name: 'list_files',
+      description:
+        'List the files and directories in a workspace directory. Directories end with a slash.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: "Directory relative to the workspace, '.' for its root",
+          },
+        },
+        required: ['path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a text file from the workspace.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the workspace' },
+        },
+        required: ['path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'write_file',
+      description: 'Create or overwrite a file in the workspace, creating missing directories.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the workspace' },
+          content: { type: 'string', description: 'The complete new content of the file' },
+        },
+        required: ['path', 'content'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_file',
+      description:
+        'Replace one occurrence of old_string with new_string in a workspace file. old_string must appear exactly once.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the workspace' },
+          old_string: { type: 'string', description: 'The exact text to replace' },
+          new_string: { type: 'string', description: 'The text to replace it with' },
+        },
+        required: ['path', 'old_string', 'new_string'],
+      },
+    },
+  },
+] as const;
+
+// Larger files are cut so a single read cannot fill the model's context
+const MAX_READ_CHARACTERS = 100000;
+
+export class WorkspaceTools {
+  constructor(private readonly workspaceDir: string) {}
+
+  // Failures are returned as text for the model to act on rather than thrown
+  async call(name: string, args: Record<string, unknown>): Promise<string> {
+    try {
+      switch (name) {
+        case 'list_files':
+          return await this.listFiles(requireString(args, 'path'));
+        case 'read_file':
+          return await this.readFile(requireString(args, 'path'));
+        case 'write_file':
+          return await this.writeFile(requireString(args, 'path'), requireString(args, 'content'));
+        case 'edit_file':
+          return await this.editFile(
+            requireString(args, 'path'),
+            requireString(args, 'old_string'),
+            requireString(args, 'new_string')
+          );
+        default:
+          return `Error: unknown tool '${name}'`;
+      }
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private async listFiles(path: string): Promise<string> {
+    const dir = await this.resolvePath(path);
+    const entries = await readdir(dir, { withFileTypes: true });
+    if (entries.length === 0) {
+      return '(empty directory)';
+    }
+    return entries
+      .map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+      .sort()
+      .join('\n');
+  }
+
+  private async readFile(path: string): Promise<string> {
+    const content = await readFile(await this.resolvePath(path), 'utf-8');
+    if (content.length <= MAX_READ_CHARACTERS) {
+      return content;
+    }
+    return `${content.slice(0, MAX_READ_CHARACTERS)}\n[... ${content.length - MAX_READ_CHARACTERS} characters truncated ...]`;
+  }
+
+  private async writeFile(path: string, content: string): Promise<string> {
+    const filePath = await this.resolvePath(path);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content, 'utf-8');
+    return `Wrote ${content.length} characters to ${path}`;
+  }
+
+  private async editFile(path: string, oldString: string, newString: string): Promise<string> {
+    const filePath = await this.resolvePath(path);
+    const content = await readFile(filePath, 'utf-8');
+    const occurrences = oldString === '' ? 0 : content.split(oldString).length - 1;
+    if (occurrences !== 1) {
+      throw new Error(
+        `old_string must appear exactly once in ${path}, but appears ${occurrences} times`
+      );
+    }
+    await writeFile(
+      filePath,
+      content.replace(oldString, () => newString),
+      'utf-8'
+    );
+    return `Edited ${path}`;
+  }
+
+  // Checks the lexical path, then the real path of its deepest existing ancestor; a dangling
+  // symlink fails to resolve and is refused with it
+  private async resolvePath(path: string): Promise<string> {
+    const root = await realpath(this.workspaceDir);
+    const target = resolve(root, path);
+    if (!isInside(root, target)) {
+      throw new Error(`${path} is outside the workspace`);
+    }
+
+    let existing = target;
+    while (!(await exists(existing))) {
+      existing = dirname(existing);
+    }
+    if (!isInside(root, await realpath(existing))) {
+      throw new Error(`${path} is outside the workspace`);
+    }
+    return target;
+  }
+}
+
+function isInside(root: string, target: string): boolean {
+  const relativePath = relative(root, target);
+  return relativePath === '' || (!relativePath.startsWith('..') && !isAbsolute(relativePath));
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await lstat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function requireString(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== 'string') {
+    throw new Error(`missing string argument '${key}'`);
+  }
+  return value;
+}
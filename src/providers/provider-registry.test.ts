@@ -0,0 +1,148 @@
+// ABOUTME: Tests for the provider registry and loading provider plugins from modules
+// Plugins are plain ES modules written to a temporary directory
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MockProvider } from './mock-provider/mock-provider';
+import { ProviderRegistry } from './provider-registry';
+import { createDefaultProviderRegistry } from './builtin-providers';
+
+const PLUGIN_MODULE = `
+export const providers = [
+  {
+    name: 'echo-agent',
+    aliases: ['echo'],
+    description: 'Does nothing, successfully',
+    create: options => {
+      const result = async () => ({ success: true, message: String(options.argument ?? 'done') });
+      return {
+        name: 'echo-agent',
+        createCodingExercise: result,
+        injectBug: result,
+        fixAttempt: result,
+      };
+    },
+  },
+];
+`;
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+    registry.register({
+      name: 'mock-provider',
+      aliases: ['mock'],
+      description: 'Mock',
+      create: () => new MockProvider(),
+    });
+  });
+
+  it('should create providers by name or alias and pass their options', async () => {
+    const seen: unknown[] = [];
+    registry.register({
+      name: 'recording',
+      aliases: [],
+      description: 'Records its options',
+      create: options => {
+        seen.push(options);
+        return new MockProvider();
+      },
+    });
+
+    expect((await registry.create('mock'))._unsafeUnwrap().name).toBe('mock-provider');
+    await registry.create('recording', { argument: 'fast' });
+    expect(seen).toEqual([{ argument: 'fast' }]);
+  });
+
+  it('should refuse names and aliases that are already taken', () => {
+    const result = registry.register({
+      name: 'other',
+      aliases: ['mock'],
+      description: 'Clashes',
+      create: () => new MockProvider(),
+    });
+
+    expect(result._unsafeUnwrapErr().message).toBe('Provider name "mock" is already registered');
+    expect(registry.list().map(({ name }) => name)).toEqual(['mock-provider']);
+  });
+
+  it('should report unknown providers and factory errors as errors', async () => {
+    registry.register({
+      name: 'broken',
+      aliases: [],
+      description: 'Throws',
+      create: () => {
+        throw new Error('missing API key');
+      },
+    });
+
+    expect((await registry.create('nope'))._unsafeUnwrapErr().message).toBe(
+      'Unknown provider: nope. Available providers: mock-provider, broken'
+    );
+    expect((await registry.create('broken'))._unsafeUnwrapErr().message).toBe('missing API key');
+  });
+
+  it('should refuse an argument for a built-in provider that takes no options', async () => {
+    const result = await createDefaultProviderRegistry().create('mock', { argument: 'fast' });
+
+    expect(result._unsafeUnwrapErr().message).toBe(
+      'Provider mock-provider takes no options, but got "fast"'
+    );
+  });
+
+  it('should register the built-in providers by default', () => {
+    expect(
+      createDefaultProviderRegistry()
+        .list()
+        .map(({ name }) => name)
+    ).toEqual(['mock-provider', 'claude-code', 'openai-compatible', 'command']);
+  });
+
+  describe('loadPlugins', () => {
+    let pluginDir: string;
+
+    beforeEach(async () => {
+      pluginDir = await mkdtemp(join(tmpdir(), 'provider-plugins-'));
+    });
+
+    afterEach(async () => {
+      await rm(pluginDir, { recursive: true, force: true });
+    });
+
+    it('should register the providers exported by every module in a directory', async () => {
+      await writeFile(join(pluginDir, 'echo.mjs'), PLUGIN_MODULE);
+      await writeFile(join(pluginDir, 'README.md'), 'not a plugin');
+
+      const loaded = await registry.loadPlugins(pluginDir);
+
+      expect(loaded._unsafeUnwrap()).toEqual(['echo-agent']);
+      const provider = (await registry.create('echo', { argument: 'hi' }))._unsafeUnwrap();
+      expect(await provider.createCodingExercise('/tmp', 'prompt')).toEqual({
+        success: true,
+        message: 'hi',
+      });
+    });
+
+    it('should reject modules that export no valid registration', async () => {
+      await writeFile(join(pluginDir, 'bad.mjs'), 'export default { name: 42 };');
+
+      const loaded = await registry.loadPlugins(pluginDir);
+
+      expect(loaded._unsafeUnwrapErr().message).toMatch(
+        /bad\.mjs must export providers with a string "name" and a "create" function$/
+      );
+    });
+
+    it('should report packages that cannot be imported', async () => {
+      const loaded = await registry.loadPlugins('arena-provider-that-does-not-exist');
+
+      expect(loaded._unsafeUnwrapErr().message).toMatch(
+        /^Failed to load provider plugin arena-provider-that-does-not-exist: /
+      );
+    });
+  });
+});
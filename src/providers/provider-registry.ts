@@ -0,0 +1,142 @@
+// ABOUTME: Registry of LLM providers by name and alias, with factories taking provider options
+// Loads third-party providers from plugin modules in a directory or from an npm package
+
+import { LLMProvider } from 'domain/llm-provider/llm-provider';
+import { Result, ok, err } from 'neverthrow';
+import { readdir, stat } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+// `argument` holds the text after the colon of a 'name:argument' provider spec; a resumed
+// competition passes the config its provider recorded instead
+export type ProviderOptions = Readonly<Record<string, unknown>>;
+
+export interface ProviderRegistration {
+  readonly name: string;
+  readonly aliases: readonly string[];
+  readonly description: string;
+  readonly create: (options: ProviderOptions) => LLMProvider | Promise<LLMProvider>;
+}
+
+// Extensions of plugin modules loaded from a directory; .ts only works when running under tsx
+const PLUGIN_EXTENSIONS: ReadonlySet<string> = new Set(['.js', '.mjs', '.cjs', '.ts']);
+
+export class ProviderRegistry {
+  private readonly registrations: ProviderRegistration[] = [];
+  private readonly byName = new Map<string, ProviderRegistration>();
+
+  register(registration: ProviderRegistration): Result<void, Error> {
+    const taken = [registration.name, ...registration.aliases].find(name => this.byName.has(name));
+    if (taken !== undefined) {
+      return err(new Error(`Provider name "${taken}" is already registered`));
+    }
+    this.registrations.push(registration);
+    for (const name of [registration.name, ...registration.aliases]) {
+      this.byName.set(name, registration);
+    }
+    return ok(undefined);
+  }
+
+  get(name: string): ProviderRegistration | undefined {
+    return this.byName.get(name);
+  }
+
+  list(): readonly ProviderRegistration[] {
+    return this.registrations;
+  }
+
+  async create(name: string, options: ProviderOptions = {}): Promise<Result<LLMProvider, Error>> {
+    const registration = this.byName.get(name);
+    if (!registration) {
+      return err(
+        new Error(
+          `Unknown provider: ${name}. Available providers: ${this.registrations.map(r => r.name).join(', ')}`
+        )
+      );
+    }
+    try {
+      return ok(await registration.create(options));
+    } catch (error) {
+      return err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  // A directory contributes every module in it, a file itself; anything else is imported as an
+  // npm package
+  async loadPlugins(source: string): Promise<Result<string[], Error>> {
+    let modules: string[];
+    try {
+      const path = resolve(source);
+      const stats = await stat(path).catch(() => undefined);
+      if (stats?.isDirectory()) {
+        modules = (await readdir(path))
+          .filter(file => PLUGIN_EXTENSIONS.has(extname(file)) && !file.endsWith('.d.ts'))
+          .sort()
+          .map(file => pathToFileURL(join(path, file)).href);
+      } else {
+        modules = [stats ? pathToFileURL(path).href : source];
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return err(new Error(`Failed to read provider plugins from ${source}: ${message}`));
+    }
+
+    const registered: string[] = [];
+    for (const specifier of modules) {
+      let exports: Record<string, unknown>;
+      try {
+        exports = await import(/* @vite-ignore */ specifier);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return err(new Error(`Failed to load provider plugin ${specifier}: ${message}`));
+      }
+
+      const registrationsResult = getPluginRegistrations(exports, specifier);
+      if (registrationsResult.isErr()) {
+        return err(registrationsResult.error);
+      }
+      for (const registration of registrationsResult.value) {
+        const registerResult = this.register(registration);
+        if (registerResult.isErr()) {
+          return err(new Error(`${specifier}: ${registerResult.error.message}`));
+        }
+        registered.push(registration.name);
+      }
+    }
+    return ok(registered);
+  }
+}
+
+// Plugins export `providers` (one registration or a list of them) or make it their default export
+function getPluginRegistrations(
+  exports: Record<string, unknown>,
+  specifier: string
+): Result<ProviderRegistration[], Error> {
+  const exported = exports.providers ?? exports.default;
+  const candidates = Array.isArray(exported) ? exported : [exported];
+
+  const registrations: ProviderRegistration[] = [];
+  for (const candidate of candidates) {
+    if (
+      typeof candidate !== 'object' ||
+      candidate === null ||
+      typeof (candidate as { name?: unknown }).name !== 'string' ||
+      typeof (candidate as { create?: unknown }).create !== 'function'
+    ) {
+      return err(
+        new Error(
+          `Provider plugin ${specifier} must export providers with a string "name" and a "create" function`
+        )
+      );
+    }
+    const { name, aliases, description, create } = candidate as Partial<ProviderRegistration> &
+      Pick<ProviderRegistration, 'name' | 'create'>;
+    registrations.push({
+      name,
+      aliases: Array.isArray(aliases) ? aliases.filter(alias => typeof alias === 'string') : [],
+      description: typeof description === 'string' ? description : '',
+      create,
+    });
+  }
+  return ok(registrations);
+}
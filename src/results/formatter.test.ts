@@ -56,6 +56,145 @@ describe('ResultsFormatter', () => {
     });
   });
 
+  describe('flakiness statistics', () => {
+    it('should count phases rejected as flaky per participant', async () => {
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'flaky-bug',
+          competitionId: competitionId.getValue(),
+          participantId: 'mock-provider-2',
+          eventType: EventType.BUG_INJECTION_COMPLETED,
+          phase: Phase.BUG_INJECTION,
+          success: false,
+          data: { failureReason: 'flaky' },
+        })
+      );
+      await insertBaselineEvent(createParticipant('mock-provider-1'), true);
+
+      const summary = await formatCompetitionResults();
+
+      expect(summary.statistics.flakyPhases).toBe(1);
+      expect(summary.statistics.participantStats['mock-provider-2']?.flakyPhases).toBe(1);
+      expect(summary.statistics.participantStats['mock-provider-1']?.flakyPhases).toBe(0);
+      expect(summary.phases.find(p => p.participant === 'mock-provider-2')).toMatchObject({
+        failureReason: 'flaky',
+      });
+    });
+  });
+
+  describe('baseline quality', () => {
+    it('should summarise the optional targets of each baseline and average them', async () => {
+      const quality = {
+        targets: [
+          { target: 'build', success: true, message: 'ok' },
+          { target: 'coverage', success: true, message: 'ok' },
+        ],
+        coverage: 80,
+        score: 0.6,
+      };
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'quality-baseline',
+          competitionId: competitionId.getValue(),
+          participantId: 'mock-provider-1',
+          eventType: EventType.BASELINE_COMPLETED,
+          phase: Phase.BASELINE,
+          data: { validation: { success: true, quality } },
+        })
+      );
+      await insertBaselineEvent(createParticipant('mock-provider-2'), false);
+
+      const summary = await formatCompetitionResults();
+
+      expect(summary.phases.find(p => p.participant === 'mock-provider-1')?.quality).toEqual({
+        score: 0.6,
+        build: true,
+        lint: null,
+        coverage: 80,
+      });
+      expect(summary.statistics.participantStats['mock-provider-1']?.baselineQuality).toBe(0.6);
+      expect(summary.statistics.participantStats['mock-provider-2']?.baselineQuality).toBeNull();
+    });
+  });
+
+  describe('language statistics', () => {
+    it('should aggregate success rates by the language of each round baseline', async () => {
+      const events = [
+        {
+          round: 1,
+          participant: 'mock-provider-1',
+          type: EventType.BASELINE_COMPLETED,
+          phase: Phase.BASELINE,
+          success: true,
+          language: 'Go',
+        },
+        {
+          round: 1,
+          participant: 'mock-provider-2',
+          type: EventType.BUG_INJECTION_COMPLETED,
+          phase: Phase.BUG_INJECTION,
+          success: true,
+        },
+        {
+          round: 1,
+          participant: 'mock-provider-3',
+          type: EventType.FIX_ATTEMPT_COMPLETED,
+          phase: Phase.FIX_ATTEMPT,
+          success: false,
+        },
+        {
+          round: 2,
+          participant: 'mock-provider-2',
+          type: EventType.BASELINE_COMPLETED,
+          phase: Phase.BASELINE,
+          success: false,
+          language: null,
+        },
+        // Recorded before toolchains were detected, so its round is left out
+        {
+          round: 3,
+          participant: 'mock-provider-3',
+          type: EventType.BASELINE_COMPLETED,
+          phase: Phase.BASELINE,
+          success: true,
+        },
+      ];
+      for (const [index, event] of events.entries()) {
+        await eventStore.insertEvent(
+          CompetitionEventFactory.create({
+            id: `language-${index}`,
+            competitionId: competitionId.getValue(),
+            roundId: event.round,
+            participantId: event.participant,
+            eventType: event.type,
+            phase: event.phase,
+            success: event.success,
+            data: 'language' in event ? { toolchain: { language: event.language } } : {},
+          })
+        );
+      }
+
+      const summary = await formatCompetitionResults();
+
+      expect(summary.statistics.languageStats).toEqual({
+        Go: {
+          baselines: 1,
+          totalPhases: 3,
+          successfulPhases: 2,
+          successRate: 2 / 3,
+          phaseSuccessRates: { baseline: 1, bugInjection: 1, fixAttempt: 0 },
+        },
+        unknown: {
+          baselines: 1,
+          totalPhases: 1,
+          successfulPhases: 0,
+          successRate: 0,
+          phaseSuccessRates: { baseline: 0, bugInjection: null, fixAttempt: null },
+        },
+      });
+    });
+  });
+
   describe('formatAsJson', () => {
     it('should format summary as valid JSON', async () => {
       const participantId = createParticipant('claude-code');
@@ -68,6 +207,212 @@ describe('ResultsFormatter', () => {
     });
   });
 
+  describe('formatLeaderboard', () => {
+    it('should rate providers from fix attempts across stored competitions', async () => {
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'leaderboard-bug',
+          competitionId: competitionId.getValue(),
+          participantId: 'mock-provider-1',
+          eventType: EventType.BUG_INJECTION_COMPLETED,
+          phase: Phase.BUG_INJECTION,
+          data: { provider: 'mock-provider' },
+        })
+      );
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'leaderboard-fix',
+          competitionId: competitionId.getValue(),
+          participantId: 'claude-code-2',
+          eventType: EventType.FIX_ATTEMPT_COMPLETED,
+          phase: Phase.FIX_ATTEMPT,
+          data: { provider: 'claude-code', bugAuthor: 'mock-provider-1' },
+        })
+      );
+
+      const result = await formatter.formatLeaderboard();
+
+      const leaderboard = result._unsafeUnwrap();
+      expect(leaderboard.entries.map(entry => entry.provider)).toEqual([
+        'claude-code',
+        'mock-provider',
+      ]);
+      expect(formatter.formatLeaderboardAsText(leaderboard)).toBe(
+        [
+          ' 1. claude-code    1516.0  1W 0L',
+          ' 2. mock-provider  1484.0  0W 1L',
+          '1 matches across 1 competitions',
+        ].join('\n')
+      );
+    });
+
+    it('should report when there are no rated matches', async () => {
+      const leaderboard = (await formatter.formatLeaderboard())._unsafeUnwrap();
+
+      expect(formatter.formatLeaderboardAsText(leaderboard)).toBe('No rated matches yet');
+    });
+  });
+
+  describe('formatCompetitionChanges', () => {
+    const diff = {
+      filesAdded: 0,
+      filesRemoved: 0,
+      filesChanged: 1,
+      linesAdded: 1,
+      linesRemoved: 1,
+      files: [
+        {
+          path: 'src/calculator.ts',
+          kind: 'modified',
+          category: 'source',
+          linesAdded: 1,
+          linesRemoved: 1,
+          binary: false,
+        },
+      ],
+      patch: '--- a/src/calculator.ts\n+++ b/src/calculator.ts\n@@ -1 +1 @@\n-a + b\n+a - b\n',
+      truncated: false,
+    };
+
+    it('should list the diff of every bug injection and fix in order', async () => {
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'changes-bug',
+          competitionId: competitionId.getValue(),
+          roundId: 1,
+          participantId: 'mock-provider-2',
+          eventType: EventType.BUG_INJECTION_COMPLETED,
+          phase: Phase.BUG_INJECTION,
+          data: { diff },
+        })
+      );
+      await eventStore.insertEvent(
+        CompetitionEventFactory.create({
+          id: 'changes-fix',
+          competitionId: competitionId.getValue(),
+          roundId: 1,
+          participantId: 'mock-provider-3',
+          eventType: EventType.FIX_ATTEMPT_COMPLETED,
+          phase: Phase.FIX_ATTEMPT,
+          success: false,
+          data: { bugAuthor: 'mock-provider-2', diff },
+        })
+      );
+
+      const changes = (await formatter.formatCompetitionChanges(competitionId))._unsafeUnwrap();
+
+      expect(changes).toEqual([
+        {
+          round: 1,
+          phase: Phase.BUG_INJECTION,
+          participant: 'mock-provider-2',
+          success: true,
+          diff,
+        },
+        {
+          round: 1,
+          phase: Phase.FIX_ATTEMPT,
+          participant: 'mock-provider-3',
+          bugAuthor: 'mock-provider-2',
+          success: false,
+          diff,
+        },
+      ]);
+      expect(formatter.formatChangesAsText(changes)).toBe(
+        [
+          '=== Round 1: Bug injected by mock-provider-2 (accepted)',
+          '1 file(s) changed, +1 -1',
+          diff.patch.trimEnd(),
+          '',
+          "=== Round 1: Fix by mock-provider-3 for mock-provider-2's bug (rejected)",
+          '1 file(s) changed, +1 -1',
+          diff.patch.trimEnd(),
+        ].join('\n')
+      );
+
+      const summary = await formatCompetitionResults();
+      expect(summary.phases[0]?.changes).toEqual({
+        filesAdded: 0,
+        filesRemoved: 0,
+        filesChanged: 1,
+        linesAdded: 1,
+        linesRemoved: 1,
+      });
+    });
+
+    it('should name the tests a bug broke and a fix restored', async () => {
+      const report = (add: 'passed' | 'failed', divide: 'passed' | 'failed') => ({
+        format: 'tap',
+        source: 'stdout',
+        total: 2,
+        passed: [add, divide].filter(status => status === 'passed').length,
+        failed: [add, divide].filter(status => status === 'failed').length,
+        skipped: 0,
+        tests: [
+          { name: 'Calculator > add', status: add },
+          { name: 'Calculator > divide', status: divide },
+        ],
+      });
+      const events = [
+        {
+          id: 'tests-baseline',
+          participantId: 'mock-provider-1',
+          eventType: EventType.BASELINE_COMPLETED,
+          phase: Phase.BASELINE,
+          data: { validation: { tests: report('passed', 'passed') } },
+        },
+        {
+          id: 'tests-bug',
+          participantId: 'mock-provider-2',
+          eventType: EventType.BUG_INJECTION_COMPLETED,
+          phase: Phase.BUG_INJECTION,
+          data: { diff, validation: { tests: report('failed', 'passed') } },
+        },
+        {
+          id: 'tests-fix',
+          participantId: 'mock-provider-3',
+          eventType: EventType.FIX_ATTEMPT_COMPLETED,
+          phase: Phase.FIX_ATTEMPT,
+          data: {
+            bugAuthor: 'mock-provider-2',
+            diff,
+            validation: { tests: report('passed', 'passed') },
+          },
+        },
+      ];
+      for (const event of events) {
+        await eventStore.insertEvent(
+          CompetitionEventFactory.create({
+            ...event,
+            competitionId: competitionId.getValue(),
+            roundId: 1,
+          })
+        );
+      }
+
+      const changes = (await formatter.formatCompetitionChanges(competitionId))._unsafeUnwrap();
+
+      expect(
+        changes.map(({ brokenTests, restoredTests }) => ({ brokenTests, restoredTests }))
+      ).toEqual([
+        { brokenTests: ['Calculator > add'], restoredTests: undefined },
+        { brokenTests: undefined, restoredTests: ['Calculator > add'] },
+      ]);
+      const text = formatter.formatChangesAsText(changes);
+      expect(text).toContain('Broke 1 test(s): Calculator > add');
+      expect(text).toContain('Restored 1 test(s): Calculator > add');
+
+      const summary = await formatCompetitionResults();
+      expect(summary.phases[1]?.tests).toEqual({ total: 2, passed: 1, failed: 1, skipped: 0 });
+    });
+
+    it('should report when nothing was recorded', async () => {
+      const changes = (await formatter.formatCompetitionChanges(competitionId))._unsafeUnwrap();
+
+      expect(formatter.formatChangesAsText(changes)).toBe('No recorded changes');
+    });
+  });
+
   describe('error handling', () => {
     it('should handle eventStore errors gracefully', async () => {
       await eventStore.close();
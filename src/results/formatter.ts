@@ -1,11 +1,17 @@
 // ABOUTME: Results formatter for competition statistics and reporting
-// Simple JSON output showing competition summary and phase results
+// Simple JSON output showing competition summary and phase results, the diff of every bug and fix,
+// plus cross-competition ratings
 
 import { CompetitionEvent } from 'domain/competition-event/competition-event';
 import { CompetitionId } from 'domain/competition-event/competition-id';
 import { Phase } from 'domain/competition-event/phase';
 import { EventType } from 'domain/competition-event/event-type';
 import { EventStore } from 'infrastructure/event-store/event-store';
+import { WorkspacePatch } from 'infrastructure/workspace/workspace-diff';
+import { TestReport } from 'infrastructure/test-results/test-report';
+import { QualityReport, QualityTarget } from 'infrastructure/contract-validator/quality-report';
+import { ToolchainProfile } from 'infrastructure/workspace/toolchain-detector';
+import { EloRatingCalculator, Leaderboard } from './ratings';
 import { Result, ok, err } from 'neverthrow';
 
 export interface CompetitionSummary {
@@ -23,6 +29,47 @@ export interface PhaseResult {
   success: boolean;
   duration: number | 'NOT_MEASURED';
   message?: string;
+  changes?: ChangeSummary;
+  failureReason?: string;
+  tests?: TestSummary;
+  quality?: QualitySummary;
+}
+
+// Outcome of a baseline's optional targets; null when the Makefile does not define the target
+export interface QualitySummary {
+  score: number;
+  build: boolean | null;
+  lint: boolean | null;
+  coverage: number | null;
+}
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ChangeSummary {
+  filesAdded: number;
+  filesRemoved: number;
+  filesChanged: number;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+// What a bug injection changed in the baseline, or a fix changed in the buggy copy
+export interface PhaseChanges {
+  round: number | null;
+  phase: Phase;
+  participant: string;
+  bugAuthor?: string;
+  success: boolean;
+  diff: WorkspacePatch;
+  // Tests the baseline passed that fail with the bug
+  brokenTests?: string[];
+  // Tests failing with the bug that pass with the fix
+  restoredTests?: string[];
 }
 
 export interface CompetitionStatistics {
@@ -30,13 +77,33 @@ export interface CompetitionStatistics {
   successfulPhases: number;
   failedPhases: number;
   successRate: number;
+  flakyPhases: number;
   participantStats: Record<string, ParticipantStatistics>;
+  // Keyed by the language detected in each round's baseline
+  languageStats: Record<string, LanguageStatistics>;
+}
+
+// Every phase played on baselines written in one language
+export interface LanguageStatistics {
+  baselines: number;
+  totalPhases: number;
+  successfulPhases: number;
+  successRate: number;
+  phaseSuccessRates: {
+    baseline: number | null;
+    bugInjection: number | null;
+    fixAttempt: number | null;
+  };
 }
 
 export interface ParticipantStatistics {
   totalPhases: number;
   successfulPhases: number;
   successRate: number;
+  // Phases rejected because repeated validation runs disagreed
+  flakyPhases: number;
+  // Average quality score of the participant's accepted baselines
+  baselineQuality: number | null;
   phases: {
     baseline: boolean | null;
     bugInjection: boolean | null;
@@ -45,7 +112,10 @@ export interface ParticipantStatistics {
 }
 
 export class ResultsFormatter {
-  constructor(private readonly eventStore: EventStore) {}
+  constructor(
+    private readonly eventStore: EventStore,
+    private readonly ratingCalculator: EloRatingCalculator = new EloRatingCalculator()
+  ) {}
 
   async formatCompetitionResults(
     competitionId: CompetitionId
@@ -69,7 +139,7 @@ export class ResultsFormatter {
 
     const participants = this.extractParticipants(events);
     const phases = this.extractPhaseResults(events);
-    const statistics = this.calculateStatistics(phases, participants);
+    const statistics = this.calculateStatistics(phases, participants, events);
 
     return {
       competitionId: competitionId.getValue(),
@@ -96,12 +166,7 @@ export class ResultsFormatter {
   private extractPhaseResults(events: CompetitionEvent[]): PhaseResult[] {
     const phaseResults: PhaseResult[] = [];
 
-    const completionEvents = events.filter(
-      event =>
-        event.getEventType() === EventType.BASELINE_COMPLETED ||
-        event.getEventType() === EventType.BUG_INJECTION_COMPLETED ||
-        event.getEventType() === EventType.FIX_ATTEMPT_COMPLETED
-    );
+    const completionEvents = events.filter(isPhaseCompletion);
 
     for (const event of completionEvents) {
       if (event.isSystemEvent()) continue;
@@ -111,6 +176,10 @@ export class ResultsFormatter {
       const success = event.isSuccess();
       const duration = event.getDuration().getValue();
       const message = event.getData().message as string | undefined;
+      const diff = event.getData().diff as WorkspacePatch | undefined;
+      const failureReason = event.getData().failureReason as string | undefined;
+      const tests = getTestReport(event);
+      const quality = getQualityReport(event);
 
       phaseResults.push({
         phase,
@@ -118,20 +187,146 @@ export class ResultsFormatter {
         success,
         duration,
         ...(message && { message }),
+        ...(diff && { changes: this.summarizeChanges(diff) }),
+        ...(failureReason && { failureReason }),
+        ...(tests && { tests: this.summarizeTests(tests) }),
+        ...(quality && { quality: this.summarizeQuality(quality) }),
       });
     }
 
     return phaseResults.sort((a, b) => a.participant.localeCompare(b.participant));
   }
 
+  private summarizeChanges(diff: WorkspacePatch): ChangeSummary {
+    const { filesAdded, filesRemoved, filesChanged, linesAdded, linesRemoved } = diff;
+    return { filesAdded, filesRemoved, filesChanged, linesAdded, linesRemoved };
+  }
+
+  private summarizeTests(report: TestReport): TestSummary {
+    const { total, passed, failed, skipped } = report;
+    return { total, passed, failed, skipped };
+  }
+
+  private summarizeQuality(report: QualityReport): QualitySummary {
+    const outcome = (target: QualityTarget) =>
+      report.targets.find(result => result.target === target)?.success ?? null;
+    return {
+      score: report.score,
+      build: outcome('build'),
+      lint: outcome('lint'),
+      coverage: report.coverage ?? null,
+    };
+  }
+
+  async formatCompetitionChanges(
+    competitionId: CompetitionId
+  ): Promise<Result<PhaseChanges[], Error>> {
+    const eventsResult = await this.eventStore.getEventsByCompetition(competitionId);
+    if (eventsResult.isErr()) {
+      return err(eventsResult.error);
+    }
+
+    // Per-test results of each round's baseline and bugs, to tell what a bug broke and a fix restored
+    const baselineTests = new Map<number | null, TestReport>();
+    const bugTests = new Map<string, TestReport>();
+
+    const changes: PhaseChanges[] = [];
+    for (const event of eventsResult.value) {
+      const eventType = event.getEventType();
+      const round = event.getRoundId().getValue();
+      const roundNumber = typeof round === 'number' ? round : null;
+      const tests = getTestReport(event);
+
+      if (eventType === EventType.BASELINE_COMPLETED && tests) {
+        baselineTests.set(roundNumber, tests);
+      }
+      if (eventType === EventType.BUG_INJECTION_COMPLETED && tests) {
+        bugTests.set(`${roundNumber}:${event.getParticipantId().getValue()}`, tests);
+      }
+      if (
+        eventType !== EventType.BUG_INJECTION_COMPLETED &&
+        eventType !== EventType.FIX_ATTEMPT_COMPLETED
+      ) {
+        continue;
+      }
+
+      const data = event.getData();
+      if (!data.diff) continue;
+
+      const bugAuthor = typeof data.bugAuthor === 'string' ? data.bugAuthor : undefined;
+      const before =
+        eventType === EventType.BUG_INJECTION_COMPLETED
+          ? baselineTests.get(roundNumber)
+          : bugTests.get(`${roundNumber}:${bugAuthor}`);
+      const flipped = before && tests ? this.compareTests(before, tests) : undefined;
+
+      changes.push({
+        round: roundNumber,
+        phase: event.getPhase(),
+        participant: event.getParticipantId().getValue(),
+        ...(bugAuthor && { bugAuthor }),
+        success: event.isSuccess(),
+        diff: data.diff as WorkspacePatch,
+        ...(flipped &&
+          (eventType === EventType.BUG_INJECTION_COMPLETED
+            ? { brokenTests: flipped.broken }
+            : { restoredTests: flipped.restored })),
+      });
+    }
+
+    return ok(changes);
+  }
+
+  private compareTests(
+    before: TestReport,
+    after: TestReport
+  ): { broken: string[]; restored: string[] } {
+    const statusBefore = new Map(before.tests.map(test => [test.name, test.status]));
+    const broken: string[] = [];
+    const restored: string[] = [];
+    for (const test of after.tests) {
+      const previous = statusBefore.get(test.name);
+      if (previous === 'passed' && test.status === 'failed') broken.push(test.name);
+      if (previous === 'failed' && test.status === 'passed') restored.push(test.name);
+    }
+    return { broken, restored };
+  }
+
+  formatChangesAsText(changes: readonly PhaseChanges[]): string {
+    if (changes.length === 0) {
+      return 'No recorded changes';
+    }
+
+    return changes
+      .map(({ round, phase, participant, bugAuthor, success, diff, ...tests }) => {
+        const action =
+          phase === Phase.BUG_INJECTION
+            ? `Bug injected by ${participant}`
+            : `Fix by ${participant} for ${bugAuthor ?? 'unknown'}'s bug`;
+        const files = diff.filesAdded + diff.filesRemoved + diff.filesChanged;
+        return [
+          `=== Round ${round ?? '?'}: ${action} (${success ? 'accepted' : 'rejected'})`,
+          `${files} file(s) changed, +${diff.linesAdded} -${diff.linesRemoved}`,
+          tests.brokenTests ? formatTestList('Broke', tests.brokenTests) : '',
+          tests.restoredTests ? formatTestList('Restored', tests.restoredTests) : '',
+          diff.patch.trimEnd(),
+        ]
+          .filter(line => line !== '')
+          .join('\n');
+      })
+      .join('\n\n');
+  }
+
   private calculateStatistics(
     phases: PhaseResult[],
-    participants: string[]
+    participants: string[],
+    events: readonly CompetitionEvent[]
   ): CompetitionStatistics {
     const totalPhases = phases.length;
     const successfulPhases = phases.filter(p => p.success).length;
     const failedPhases = totalPhases - successfulPhases;
     const successRate = totalPhases > 0 ? successfulPhases / totalPhases : 0;
+    const isFlaky = (phase: PhaseResult) => phase.failureReason === 'flaky';
 
     const participantStats: Record<string, ParticipantStatistics> = {};
 
@@ -145,11 +340,17 @@ export class ResultsFormatter {
       const baselinePhase = participantPhases.find(p => p.phase === Phase.BASELINE);
       const bugInjectionPhase = participantPhases.find(p => p.phase === Phase.BUG_INJECTION);
       const fixAttemptPhase = participantPhases.find(p => p.phase === Phase.FIX_ATTEMPT);
+      const qualityScores = participantPhases.flatMap(p => (p.quality ? [p.quality.score] : []));
 
       participantStats[participant] = {
         totalPhases: participantTotal,
         successfulPhases: participantSuccessful,
         successRate: participantSuccessRate,
+        flakyPhases: participantPhases.filter(isFlaky).length,
+        baselineQuality:
+          qualityScores.length > 0
+            ? qualityScores.reduce((sum, score) => sum + score, 0) / qualityScores.length
+            : null,
         phases: {
           baseline: baselinePhase?.success ?? null,
           bugInjection: bugInjectionPhase?.success ?? null,
@@ -163,11 +364,112 @@ export class ResultsFormatter {
       successfulPhases,
       failedPhases,
       successRate,
+      flakyPhases: phases.filter(isFlaky).length,
       participantStats,
+      languageStats: this.calculateLanguageStatistics(events),
     };
   }
 
-  formatAsJson(summary: CompetitionSummary): string {
+  private calculateLanguageStatistics(
+    events: readonly CompetitionEvent[]
+  ): Record<string, LanguageStatistics> {
+    // Rounds whose baseline was recorded before detection existed are left out
+    const roundLanguages = new Map<unknown, string>();
+    for (const event of events) {
+      const toolchain = event.getData().toolchain as ToolchainProfile | undefined;
+      if (event.getEventType() === EventType.BASELINE_COMPLETED && toolchain) {
+        roundLanguages.set(event.getRoundId().getValue(), toolchain.language ?? 'unknown');
+      }
+    }
+
+    const outcomes = new Map<string, { phase: Phase; success: boolean }[]>();
+    for (const event of events) {
+      const language = roundLanguages.get(event.getRoundId().getValue());
+      if (!language || event.isSystemEvent() || !isPhaseCompletion(event)) {
+        continue;
+      }
+      const languageOutcomes = outcomes.get(language) ?? [];
+      languageOutcomes.push({ phase: event.getPhase(), success: event.isSuccess() });
+      outcomes.set(language, languageOutcomes);
+    }
+
+    const languageStats: Record<string, LanguageStatistics> = {};
+    for (const [language, played] of [...outcomes].sort(([a], [b]) => a.localeCompare(b))) {
+      const rate = (phase: Phase) => {
+        const matching = played.filter(outcome => outcome.phase === phase);
+        return matching.length > 0
+          ? matching.filter(outcome => outcome.success).length / matching.length
+          : null;
+      };
+      const successfulPhases = played.filter(outcome => outcome.success).length;
+      languageStats[language] = {
+        baselines: played.filter(outcome => outcome.phase === Phase.BASELINE).length,
+        totalPhases: played.length,
+        successfulPhases,
+        successRate: successfulPhases / played.length,
+        phaseSuccessRates: {
+          baseline: rate(Phase.BASELINE),
+          bugInjection: rate(Phase.BUG_INJECTION),
+          fixAttempt: rate(Phase.FIX_ATTEMPT),
+        },
+      };
+    }
+    return languageStats;
+  }
+
+  async formatLeaderboard(): Promise<Result<Leaderboard, Error>> {
+    const eventsResult = await this.eventStore.getEvents();
+    if (eventsResult.isErr()) {
+      return err(eventsResult.error);
+    }
+
+    return ok(this.ratingCalculator.calculate(eventsResult.value));
+  }
+
+  formatAsJson(summary: CompetitionSummary | Leaderboard): string {
     return JSON.stringify(summary, null, 2);
   }
+
+  formatLeaderboardAsText(leaderboard: Leaderboard): string {
+    if (leaderboard.entries.length === 0) {
+      return 'No rated matches yet';
+    }
+
+    const width = Math.max(...leaderboard.entries.map(entry => entry.label.length), 8);
+    const lines = leaderboard.entries.map(
+      (entry, index) =>
+        `${String(index + 1).padStart(2)}. ${entry.label.padEnd(width)}  ` +
+        `${entry.rating.toFixed(1).padStart(6)}  ${entry.wins}W ${entry.losses}L`
+    );
+
+    return [
+      ...lines,
+      `${leaderboard.totalMatches} matches across ${leaderboard.competitions} competitions`,
+    ].join('\n');
+  }
+}
+
+function isPhaseCompletion(event: CompetitionEvent): boolean {
+  const eventType = event.getEventType();
+  return (
+    eventType === EventType.BASELINE_COMPLETED ||
+    eventType === EventType.BUG_INJECTION_COMPLETED ||
+    eventType === EventType.FIX_ATTEMPT_COMPLETED
+  );
+}
+
+function getTestReport(event: CompetitionEvent): TestReport | undefined {
+  const validation = event.getData().validation as { tests?: TestReport } | undefined;
+  return validation?.tests;
+}
+
+function getQualityReport(event: CompetitionEvent): QualityReport | undefined {
+  const validation = event.getData().validation as { quality?: QualityReport } | undefined;
+  return validation?.quality;
+}
+
+function formatTestList(verb: string, tests: readonly string[]): string {
+  return tests.length === 0
+    ? `${verb} no tests`
+    : `${verb} ${tests.length} test(s): ${tests.join(', ')}`;
 }
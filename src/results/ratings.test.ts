@@ -0,0 +1,148 @@
+// ABOUTME: Tests for Elo ratings computed from stored fix attempt encounters
+// Verifies winners and losers, provider mapping across competitions and self-play exclusion
+
+import { describe, it, expect } from 'vitest';
+import { EloRatingCalculator } from './ratings';
+import { CompetitionEventFactory } from 'test-utils/competition-event-factory';
+import { EventType } from 'domain/competition-event/event-type';
+import { Phase } from 'domain/competition-event/phase';
+import { ParticipantId } from 'domain/competition-event/participant-id';
+
+let eventCounter = 0;
+
+const bugInjection = (competitionId: string, participantId: string, provider: string) =>
+  CompetitionEventFactory.create({
+    id: `event-${++eventCounter}`,
+    competitionId,
+    participantId,
+    eventType: EventType.BUG_INJECTION_COMPLETED,
+    phase: Phase.BUG_INJECTION,
+    data: { provider },
+  });
+
+const fixAttempt = (
+  competitionId: string,
+  participantId: string,
+  provider: string,
+  bugAuthor: string,
+  success: boolean
+) =>
+  CompetitionEventFactory.create({
+    id: `event-${++eventCounter}`,
+    competitionId,
+    participantId,
+    eventType: EventType.FIX_ATTEMPT_COMPLETED,
+    phase: Phase.FIX_ATTEMPT,
+    data: { provider, bugAuthor },
+    success,
+  });
+
+const competitionStarted = (
+  competitionId: string,
+  participants: { participantId: string; provider: string; config?: object }[]
+) =>
+  CompetitionEventFactory.create({
+    id: `event-${++eventCounter}`,
+    competitionId,
+    participantId: ParticipantId.system().getValue(),
+    eventType: EventType.COMPETITION_STARTED,
+    phase: Phase.BASELINE,
+    data: { participants },
+  });
+
+describe('EloRatingCalculator', () => {
+  it('should rate a successful fixer above the bug author', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      bugInjection('comp-1', 'mock-provider-2', 'mock-provider'),
+      fixAttempt('comp-1', 'claude-code-3', 'claude-code', 'mock-provider-2', true),
+    ]);
+
+    expect(leaderboard.entries).toEqual([
+      {
+        provider: 'claude-code',
+        label: 'claude-code',
+        rating: 1516,
+        matches: 1,
+        wins: 1,
+        losses: 0,
+      },
+      {
+        provider: 'mock-provider',
+        label: 'mock-provider',
+        rating: 1484,
+        matches: 1,
+        wins: 0,
+        losses: 1,
+      },
+    ]);
+    expect(leaderboard.totalMatches).toBe(1);
+  });
+
+  it('should let the bug author win when the fix fails', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      bugInjection('comp-1', 'claude-code-1', 'claude-code'),
+      fixAttempt('comp-1', 'mock-provider-2', 'mock-provider', 'claude-code-1', false),
+    ]);
+
+    expect(leaderboard.entries[0]).toMatchObject({ provider: 'claude-code', wins: 1 });
+    expect(leaderboard.entries[1]).toMatchObject({ provider: 'mock-provider', losses: 1 });
+  });
+
+  it('should accumulate ratings per provider across competitions', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      bugInjection('comp-1', 'mock-provider-1', 'mock-provider'),
+      fixAttempt('comp-1', 'claude-code-2', 'claude-code', 'mock-provider-1', true),
+      bugInjection('comp-2', 'mock-provider-3', 'mock-provider'),
+      fixAttempt('comp-2', 'claude-code-1', 'claude-code', 'mock-provider-3', true),
+    ]);
+
+    expect(leaderboard.competitions).toBe(2);
+    expect(leaderboard.entries[0]).toMatchObject({
+      provider: 'claude-code',
+      matches: 2,
+      wins: 2,
+    });
+    expect(leaderboard.entries[0]?.rating).toBeGreaterThan(1516);
+    expect(leaderboard.entries[0]?.rating).toBeLessThan(1532);
+  });
+
+  it('should ignore encounters between participants using the same provider', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      bugInjection('comp-1', 'mock-provider-1', 'mock-provider'),
+      fixAttempt('comp-1', 'mock-provider-2', 'mock-provider', 'mock-provider-1', true),
+    ]);
+
+    expect(leaderboard.entries).toEqual([]);
+    expect(leaderboard.totalMatches).toBe(0);
+  });
+
+  it('should rate differently configured participants of one provider separately', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      competitionStarted('comp-1', [
+        { participantId: 'claude-code-1', provider: 'claude-code', config: { model: 'sonnet' } },
+        { participantId: 'claude-code-2', provider: 'claude-code', config: { model: 'opus' } },
+      ]),
+      bugInjection('comp-1', 'claude-code-1', 'claude-code'),
+      fixAttempt('comp-1', 'claude-code-2', 'claude-code', 'claude-code-1', true),
+    ]);
+
+    expect(leaderboard.totalMatches).toBe(1);
+    expect(leaderboard.entries.map(({ label, wins }) => ({ label, wins }))).toEqual([
+      { label: expect.stringMatching(/^claude-code \(opus, config [0-9a-f]{8}\)$/), wins: 1 },
+      { label: expect.stringMatching(/^claude-code \(sonnet, config [0-9a-f]{8}\)$/), wins: 0 },
+    ]);
+  });
+
+  it('should treat identical configs as the same provider whatever their key order', () => {
+    const leaderboard = new EloRatingCalculator().calculate([
+      competitionStarted('comp-1', [
+        { participantId: 'claude-code-1', provider: 'claude-code', config: { a: 1, b: 2 } },
+        { participantId: 'claude-code-2', provider: 'claude-code', config: { b: 2, a: 1 } },
+      ]),
+      bugInjection('comp-1', 'claude-code-1', 'claude-code'),
+      fixAttempt('comp-1', 'claude-code-2', 'claude-code', 'claude-code-1', true),
+    ]);
+
+    expect(leaderboard.totalMatches).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+// ABOUTME: Elo ratings per provider built from the bug-versus-fixer encounters in stored events
+// Every fix attempt is a match: the fixer wins by fixing the bug, the bug author wins otherwise
+
+import { createHash } from 'crypto';
+import { CompetitionEvent } from 'domain/competition-event/competition-event';
+import { EventType } from 'domain/competition-event/event-type';
+
+export interface RatingConfig {
+  readonly initialRating: number;
+  readonly kFactor: number;
+}
+
+export const DEFAULT_RATING_CONFIG: RatingConfig = {
+  initialRating: 1500,
+  kFactor: 32,
+};
+
+export interface RatingEntry {
+  provider: string;
+  // The provider name, with its model and a hash of its config when it recorded one
+  label: string;
+  // Short hash of the recorded config; providers with different configs are rated separately
+  configHash?: string | undefined;
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+}
+
+export interface Leaderboard {
+  entries: RatingEntry[];
+  totalMatches: number;
+  competitions: number;
+}
+
+export class EloRatingCalculator {
+  constructor(private readonly config: RatingConfig = DEFAULT_RATING_CONFIG) {}
+
+  calculate(events: CompetitionEvent[]): Leaderboard {
+    const providersByCompetition = this.mapProviders(events);
+    const entries = new Map<string, RatingEntry>();
+    let totalMatches = 0;
+
+    // Events arrive in chronological order, so ratings evolve as the matches were played
+    for (const event of events) {
+      if (event.getEventType() !== EventType.FIX_ATTEMPT_COMPLETED || event.isSystemEvent()) {
+        continue;
+      }
+      const bugAuthor = event.getData().bugAuthor;
+      if (typeof bugAuthor !== 'string') continue;
+
+      const providers = providersByCompetition.get(event.getCompetitionId().getValue());
+      const fixerId = event.getParticipantId().getValue();
+      const fixer = providers?.get(fixerId) ?? unrecordedIdentity(fixerId);
+      const author = providers?.get(bugAuthor) ?? unrecordedIdentity(bugAuthor);
+      // A provider playing against an identically configured copy tells us nothing about its strength
+      if (fixer.key === author.key) continue;
+
+      const [winner, loser] = event.isSuccess() ? [fixer, author] : [author, fixer];
+      this.recordMatch(this.getEntry(entries, winner), this.getEntry(entries, loser));
+      totalMatches++;
+    }
+
+    return {
+      entries: Array.from(entries.values()).sort((a, b) => b.rating - a.rating),
+      totalMatches,
+      competitions: providersByCompetition.size,
+    };
+  }
+
+  private recordMatch(winner: RatingEntry, loser: RatingEntry): void {
+    const expectedWin = 1 / (1 + 10 ** ((loser.rating - winner.rating) / 400));
+    const change = this.config.kFactor * (1 - expectedWin);
+
+    winner.rating = Math.round((winner.rating + change) * 10) / 10;
+    loser.rating = Math.round((loser.rating - change) * 10) / 10;
+    winner.matches++;
+    winner.wins++;
+    loser.matches++;
+    loser.losses++;
+  }
+
+  private getEntry(entries: Map<string, RatingEntry>, identity: ProviderIdentity): RatingEntry {
+    let entry = entries.get(identity.key);
+    if (!entry) {
+      entry = {
+        provider: identity.provider,
+        label: identity.label,
+        ...(identity.configHash && { configHash: identity.configHash }),
+        rating: this.config.initialRating,
+        matches: 0,
+        wins: 0,
+        losses: 0,
+      };
+      entries.set(identity.key, entry);
+    }
+    return entry;
+  }
+
+  // Participant ids are per competition; the provider recorded with their events, together with the
+  // config recorded when the competition started, is what we rate
+  private mapProviders(events: CompetitionEvent[]): Map<string, Map<string, ProviderIdentity>> {
+    const providersByCompetition = new Map<string, Map<string, ProviderIdentity>>();
+    const configsByCompetition = new Map<string, Map<string, unknown>>();
+
+    for (const event of events) {
+      const competitionId = event.getCompetitionId().getValue();
+      const providers =
+        providersByCompetition.get(competitionId) ?? new Map<string, ProviderIdentity>();
+      providersByCompetition.set(competitionId, providers);
+      const configs = configsByCompetition.get(competitionId) ?? new Map<string, unknown>();
+      configsByCompetition.set(competitionId, configs);
+
+      const { provider, participants } = event.getData();
+      if (event.getEventType() === EventType.COMPETITION_STARTED && Array.isArray(participants)) {
+        for (const participant of participants as { participantId?: unknown; config?: unknown }[]) {
+          if (typeof participant.participantId === 'string' && participant.config !== undefined) {
+            configs.set(participant.participantId, participant.config);
+          }
+        }
+      }
+      if (!event.isSystemEvent() && typeof provider === 'string') {
+        const participantId = event.getParticipantId().getValue();
+        providers.set(participantId, getProviderIdentity(provider, configs.get(participantId)));
+      }
+    }
+
+    return providersByCompetition;
+  }
+}
+
+interface ProviderIdentity {
+  readonly key: string;
+  readonly provider: string;
+  readonly label: string;
+  readonly configHash?: string | undefined;
+}
+
+function unrecordedIdentity(participantId: string): ProviderIdentity {
+  return { key: participantId, provider: participantId, label: participantId };
+}
+
+function getProviderIdentity(provider: string, config: unknown): ProviderIdentity {
+  if (config === undefined) {
+    return { key: provider, provider, label: provider };
+  }
+  const configHash = createHash('sha256').update(stableStringify(config)).digest('hex').slice(0, 8);
+  const model =
+    typeof config === 'object' && config !== null && 'model' in config
+      ? (config as { model: unknown }).model
+      : undefined;
+  return {
+    key: `${provider}#${configHash}`,
+    provider,
+    label: `${provider} (${typeof model === 'string' ? `${model}, ` : ''}config ${configHash})`,
+    configHash,
+  };
+}
+
+// Object keys are sorted so the same config always hashes the same, whatever order it was built in
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
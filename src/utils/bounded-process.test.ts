@@ -0,0 +1,79 @@
+// ABOUTME: Tests for running child processes with a process-group timeout and capped output
+// Spawns small shell scripts, including one that leaves a background process behind
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { runBoundedProcess } from './bounded-process';
+
+// A killed process whose parent is gone may linger as a zombie until it is reaped
+const isRunning = (pid: number): boolean => {
+  try {
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return false;
+  }
+};
+
+describe('runBoundedProcess', () => {
+  it('should report the exit code and output of a finished process', async () => {
+    const result = await runBoundedProcess('sh', ['-c', 'echo out; echo err >&2; exit 3'], {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024,
+    });
+
+    expect(result).toMatchObject({
+      exitCode: 3,
+      stdout: 'out\n',
+      stderr: 'err\n',
+      timedOut: false,
+      outputTruncated: false,
+    });
+  });
+
+  it('should pass input on stdin', async () => {
+    const result = await runBoundedProcess('cat', [], {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024,
+      input: 'hello',
+    });
+
+    expect(result.stdout).toBe('hello');
+  });
+
+  it('should kill the whole process group when the timeout expires', async () => {
+    const result = await runBoundedProcess('sh', ['-c', 'sleep 30 & echo $!; wait'], {
+      timeoutMs: 200,
+      maxOutputBytes: 1024,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    const backgroundPid = Number(result.stdout.trim());
+    expect(backgroundPid).toBeGreaterThan(0);
+    expect(isRunning(backgroundPid)).toBe(false);
+  });
+
+  it('should keep the start and end of output past the cap', async () => {
+    const result = await runBoundedProcess(
+      'sh',
+      ['-c', 'echo START; i=0; while [ $i -lt 2000 ]; do echo line-$i; i=$((i+1)); done; echo END'],
+      { timeoutMs: 5000, maxOutputBytes: 200 }
+    );
+
+    expect(result.outputTruncated).toBe(true);
+    expect(result.stdout.startsWith('START\n')).toBe(true);
+    expect(result.stdout.endsWith('END\n')).toBe(true);
+    expect(result.stdout).toMatch(/\[\.\.\. \d+ bytes of output truncated \.\.\.\]/);
+    expect(result.stdout.length).toBeLessThan(300);
+  });
+
+  it('should report a command that cannot be started', async () => {
+    const result = await runBoundedProcess('definitely-not-a-command', [], {
+      timeoutMs: 5000,
+      maxOutputBytes: 1024,
+    });
+
+    expect(result.error?.message).toContain('ENOENT');
+    expect(result.timedOut).toBe(false);
+  });
+});
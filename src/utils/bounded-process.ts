@@ -0,0 +1,159 @@
+// ABOUTME: Runs a child process with a timeout that kills its whole process group and capped output
+// Output past the cap keeps its beginning and end around a marker saying how much was dropped
+
+import { spawn } from 'child_process';
+import { setTimeout, clearTimeout } from 'timers';
+
+export interface BoundedProcessOptions {
+  readonly cwd?: string | undefined;
+  readonly timeoutMs: number;
+  // Bytes kept per stream
+  readonly maxOutputBytes: number;
+  readonly input?: string | undefined;
+  readonly env?: typeof process.env | undefined;
+  // Kills the process group like a timeout does, without marking the result as timed out
+  readonly signal?: AbortSignal | undefined;
+}
+
+export interface BoundedProcessResult {
+  // Null when the process was killed by a signal or never started
+  readonly exitCode: number | null;
+  readonly signal: string | null;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly timedOut: boolean;
+  readonly outputTruncated: boolean;
+  // Set when the process could not be started at all
+  readonly error?: Error | undefined;
+}
+
+// Time a process group gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_MS = 2000;
+
+export function runBoundedProcess(
+  command: string,
+  args: readonly string[],
+  options: BoundedProcessOptions
+): Promise<BoundedProcessResult> {
+  return new Promise(resolve => {
+    const stdout = new CappedOutput(options.maxOutputBytes);
+    const stderr = new CappedOutput(options.maxOutputBytes);
+    let timedOut = false;
+    let spawnError: Error | undefined;
+
+    // A detached child leads its own process group, so everything it starts can be killed with it
+    const child = spawn(command, [...args], {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      detached: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const killGroup = (signal: 'SIGTERM' | 'SIGKILL') => {
+      if (child.pid === undefined) return;
+      try {
+        process.kill(-child.pid, signal);
+      } catch {
+        // The group already exited
+      }
+    };
+
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopping = false;
+    const stop = () => {
+      if (stopping) return;
+      stopping = true;
+      killGroup('SIGTERM');
+      killTimer = setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+    };
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutMs);
+    if (options.signal?.aborted) {
+      stop();
+    }
+    options.signal?.addEventListener('abort', stop, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => stdout.append(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.append(chunk));
+    child.stdin.on('error', () => {
+      // The process may exit without reading its input
+    });
+    child.stdin.end(options.input ?? '');
+
+    child.on('error', error => {
+      spawnError = error;
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', stop);
+      // Background processes the child left behind would otherwise outlive it
+      if (stopping) killGroup('SIGKILL');
+
+      resolve({
+        exitCode,
+        signal,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        timedOut,
+        outputTruncated: stdout.truncated || stderr.truncated,
+        ...(spawnError && { error: spawnError }),
+      });
+    });
+  });
+}
+
+// Keeps the first and last halves of the allowed bytes; the end of a test run holds its summary
+class CappedOutput {
+  private readonly head: Buffer[] = [];
+  private headBytes = 0;
+  private readonly tail: Buffer[] = [];
+  private tailBytes = 0;
+  private droppedBytes = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  get truncated(): boolean {
+    return this.droppedBytes > 0;
+  }
+
+  append(chunk: Buffer): void {
+    const headLimit = Math.ceil(this.maxBytes / 2);
+    if (this.headBytes < headLimit) {
+      const taken = chunk.subarray(0, headLimit - this.headBytes);
+      this.head.push(taken);
+      this.headBytes += taken.length;
+      chunk = chunk.subarray(taken.length);
+    }
+    if (chunk.length === 0) return;
+
+    this.tail.push(chunk);
+    this.tailBytes += chunk.length;
+    const tailLimit = this.maxBytes - headLimit;
+    while (this.tailBytes > tailLimit) {
+      const first = this.tail[0] as Buffer;
+      const excess = this.tailBytes - tailLimit;
+      if (first.length <= excess) {
+        this.tail.shift();
+        this.tailBytes -= first.length;
+        this.droppedBytes += first.length;
+      } else {
+        this.tail[0] = first.subarray(excess);
+        this.tailBytes -= excess;
+        this.droppedBytes += excess;
+      }
+    }
+  }
+
+  toString(): string {
+    const head = Buffer.concat(this.head).toString('utf-8');
+    const tail = Buffer.concat(this.tail).toString('utf-8');
+    if (!this.truncated) {
+      return head + tail;
+    }
+    return `${head}\n[... ${this.droppedBytes} bytes of output truncated ...]\n${tail}`;
+  }
+}
@@ -0,0 +1,39 @@
+// ABOUTME: Tests for the bounded concurrency helper
+// Verifies the concurrency limit is respected and results stay in input order
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+import { setTimeout } from 'timers';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should never run more tasks at once than the limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should return results in input order even when later tasks finish first', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await delay(ms);
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should reject limits below one', async () => {
+    await expect(mapWithConcurrency([1], 0, async item => item)).rejects.toThrow(
+      'Concurrency limit must be a positive integer'
+    );
+  });
+});
@@ -0,0 +1,49 @@
+// ABOUTME: Tests for the unified diff helper
+// Checks hunk headers, context handling and end-of-file newline reporting against diff -u output
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from './unified-diff';
+
+const lines = (...values: string[]) => values.map(value => `${value}\n`).join('');
+
+describe('createUnifiedDiff', () => {
+  it('should return an empty patch for identical texts', () => {
+    expect(createUnifiedDiff('a/x', 'b/x', 'same\n', 'same\n')).toEqual({
+      patch: '',
+      linesAdded: 0,
+      linesRemoved: 0,
+    });
+  });
+
+  it('should show a changed line with three lines of context', () => {
+    const before = lines('1', '2', '3', '4', 'old', '6', '7', '8', '9');
+    const after = lines('1', '2', '3', '4', 'new', '6', '7', '8', '9');
+
+    expect(createUnifiedDiff('a/x', 'b/x', before, after)).toEqual({
+      patch: '--- a/x\n+++ b/x\n@@ -2,7 +2,7 @@\n 2\n 3\n 4\n-old\n+new\n 6\n 7\n 8\n',
+      linesAdded: 1,
+      linesRemoved: 1,
+    });
+  });
+
+  it('should split changes that are far apart into separate hunks', () => {
+    const before = lines('a', '1', '2', '3', '4', '5', '6', '7', 'b');
+    const after = lines('A', '1', '2', '3', '4', '5', '6', '7', 'B');
+
+    const { patch } = createUnifiedDiff('a/x', 'b/x', before, after);
+
+    expect(patch.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,4 +1,4 @@', '@@ -6,4 +6,4 @@']);
+  });
+
+  it('should describe a new file as added from an empty range', () => {
+    expect(createUnifiedDiff('/dev/null', 'b/new.ts', '', lines('one', 'two')).patch).toBe(
+      '--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n'
+    );
+  });
+
+  it('should flag a missing newline at the end of the file', () => {
+    expect(createUnifiedDiff('a/x', 'b/x', 'value\n', 'value').patch).toBe(
+      '--- a/x\n+++ b/x\n@@ -1 +1 @@\n-value\n+value\n\\ No newline at end of file\n'
+    );
+  });
+});
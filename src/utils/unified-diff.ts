@@ -0,0 +1,165 @@
+// ABOUTME: Line-based unified diff between two texts using the Myers shortest edit script
+// Produces the same hunk format as diff -u so patches can be read or applied with standard tools
+
+export interface UnifiedDiff {
+  readonly patch: string;
+  readonly linesAdded: number;
+  readonly linesRemoved: number;
+}
+
+interface Edit {
+  readonly type: 'equal' | 'insert' | 'delete';
+  readonly line: string;
+}
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+// Bounds the memory the edit search may use; beyond it the whole text is shown as replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+export function createUnifiedDiff(
+  oldLabel: string,
+  newLabel: string,
+  oldText: string,
+  newText: string,
+  context = 3
+): UnifiedDiff {
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const linesAdded = edits.filter(edit => edit.type === 'insert').length;
+  const linesRemoved = edits.filter(edit => edit.type === 'delete').length;
+
+  if (linesAdded === 0 && linesRemoved === 0) {
+    return { patch: '', linesAdded, linesRemoved };
+  }
+
+  const patch = [`--- ${oldLabel}`, `+++ ${newLabel}`, ...formatHunks(edits, context)].join('\n');
+  return { patch: `${patch}\n`, linesAdded, linesRemoved };
+}
+
+// Lines keep their terminator so a missing newline at the end of a file counts as a change
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n').map(line => `${line}\n`);
+  const last = lines.pop() as string;
+  if (last !== '\n') {
+    lines.push(last.slice(0, -1));
+  }
+  return lines;
+}
+
+function diffLines(a: readonly string[], b: readonly string[]): Edit[] {
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // Round d only ever reads diagonals -d..d, so that slice of v is all backtracking needs
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      const down =
+        k === -d || (k !== d && (v[offset + k - 1] as number) < (v[offset + k + 1] as number));
+      let x = down ? (v[offset + k + 1] as number) : (v[offset + k - 1] as number) + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  // Too different to be worth an exact script: replace the whole text
+  return [
+    ...a.map(line => ({ type: 'delete' as const, line })),
+    ...b.map(line => ({ type: 'insert' as const, line })),
+  ];
+}
+
+function backtrack(trace: readonly number[][], a: readonly string[], b: readonly string[]): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d] as number[];
+    const k = x - y;
+    const down = k === -d || (k !== d && (v[d + k - 1] as number) < (v[d + k + 1] as number));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = v[d + prevK] as number;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', line: a[--x] as string });
+      y--;
+    }
+    if (x === prevX) {
+      edits.push({ type: 'insert', line: b[--y] as string });
+    } else {
+      edits.push({ type: 'delete', line: a[--x] as string });
+    }
+  }
+  // Whatever is left is the common prefix both texts start with
+  while (x > 0) {
+    edits.push({ type: 'equal', line: a[--x] as string });
+  }
+
+  return edits.reverse();
+}
+
+function formatHunks(edits: readonly Edit[], context: number): string[] {
+  const output: string[] = [];
+  const changed = edits.flatMap((edit, index) => (edit.type === 'equal' ? [] : [index]));
+
+  let group = 0;
+  while (group < changed.length) {
+    // Extend the hunk while the next change is close enough for the context to overlap
+    let last = group;
+    while (
+      last + 1 < changed.length &&
+      (changed[last + 1] as number) - (changed[last] as number) <= 2 * context
+    ) {
+      last++;
+    }
+
+    const start = Math.max(0, (changed[group] as number) - context);
+    const end = Math.min(edits.length, (changed[last] as number) + context + 1);
+    output.push(...formatHunk(edits, start, end));
+    group = last + 1;
+  }
+
+  return output;
+}
+
+function formatHunk(edits: readonly Edit[], start: number, end: number): string[] {
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits.slice(0, start)) {
+    if (edit.type !== 'insert') oldLine++;
+    if (edit.type !== 'delete') newLine++;
+  }
+
+  const hunk = edits.slice(start, end);
+  const oldCount = hunk.filter(edit => edit.type !== 'insert').length;
+  const newCount = hunk.filter(edit => edit.type !== 'delete').length;
+
+  const lines = [`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`];
+  for (const edit of hunk) {
+    const prefix = edit.type === 'insert' ? '+' : edit.type === 'delete' ? '-' : ' ';
+    if (edit.line.endsWith('\n')) {
+      lines.push(`${prefix}${edit.line.slice(0, -1)}`);
+    } else {
+      lines.push(`${prefix}${edit.line}`, NO_NEWLINE_MARKER);
+    }
+  }
+  return lines;
+}
+
+// An empty range points at the line before it, as diff -u does
+function range(start: number, count: number): string {
+  const first = count === 0 ? start - 1 : start;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}